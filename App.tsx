@@ -1,17 +1,100 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { HashRouter, Routes, Route, Link, Navigate, useLocation } from 'react-router-dom';
 import { AuthContextProvider, useAuth } from './contexts/AuthContext';
 import { ThemeContextProvider, useTheme } from './contexts/ThemeContext';
+import { RealtimeContextProvider, useRealtimeSubscription } from './contexts/RealtimeContext';
+import { SavedSearchContextProvider, useSavedSearches } from './contexts/SavedSearchContext';
+import { countUnreadMessages } from './services/messagingService';
 import LoginPage from './pages/LoginPage';
 import DashboardPage from './pages/DashboardPage';
 import HostelRoomsPage from './pages/HostelRoomsPage'; 
 import EventsPage from './pages/EventsPage';
+import EventDetailPage from './pages/EventDetailPage';
+import EventCheckInPage from './pages/EventCheckInPage';
 import CgpaPage from './pages/CgpaPage';
-import { Spinner, Button } from './components/UIElements'; 
+import AttendanceTrackerPage from './pages/AttendanceTrackerPage';
+import SearchPage from './pages/SearchPage';
+import TrendingRoomsPage from './pages/TrendingRoomsPage';
+import RoomRequestsPage from './pages/RoomRequestsPage';
+import MessagesPage from './pages/MessagesPage';
+import FindFriendsPage from './pages/FindFriendsPage';
+import CommonChatPage from './pages/CommonChatPage';
+import ListRoomPage from './pages/ListRoomPage';
+import AdminConsolePage from './pages/AdminConsolePage';
+import AdminVerificationPage from './pages/AdminVerificationPage';
+import AdminEventsPage from './pages/AdminEventsPage';
+import AdminListingsPage from './pages/AdminListingsPage';
+import AdminUsersPage from './pages/AdminUsersPage';
+import AdminChatReportsPage from './pages/AdminChatReportsPage';
+import ProtectedRoute from './components/ProtectedRoute';
+import { Spinner, Button, Alert } from './components/UIElements'; 
+import { effectiveAccountStatus } from './services/adminService';
+import { RoomListing, UserRole } from './types';
 import { 
-    Gradients, SunIcon, MoonIcon, HomeIcon, LogoutIcon, LoginIcon, BuildingIcon, CalendarDaysIcon, ChartPieIcon, XMarkIcon, MenuIcon as VibrantMenuIcon
+    Gradients, SunIcon, MoonIcon, HomeIcon, LogoutIcon, LoginIcon, BuildingIcon, CalendarDaysIcon, ChartPieIcon, XMarkIcon, MenuIcon as VibrantMenuIcon,
+    CheckBadgeIcon, SearchIcon, FireIcon, HandshakeIcon, EnvelopeIcon, UsersIcon, ChatBubbleIcon, PlusIcon, KeyIcon
 } from './components/VibrantIcons';
 
+interface NavItem {
+  path: string;
+  label: string;
+  icon: React.ReactNode;
+  requiresAuth?: boolean;
+  requiresRole?: UserRole;
+  badge?: number;
+}
+
+/**
+ * Unread counts for the navbar. Direct messages come from the server; campus chat counts
+ * messages pushed while the user is on another page and resets when they open the chat.
+ */
+const useNavBadges = () => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [unreadChat, setUnreadChat] = useState(0);
+  const isOnChat = location.pathname.startsWith('/chat');
+
+  const refreshUnreadMessages = useCallback(async () => {
+    if (!user) {
+      setUnreadMessages(0);
+      return;
+    }
+    try {
+      setUnreadMessages(await countUnreadMessages(user.id));
+    } catch (error) {
+      console.error("Failed to load unread message count:", error);
+    }
+  }, [user]);
+
+  // Re-check on navigation too, so reading a thread clears the badge once the user moves on
+  useEffect(() => {
+    refreshUnreadMessages();
+  }, [refreshUnreadMessages, location.pathname]);
+
+  useRealtimeSubscription('dm:message', () => { refreshUnreadMessages(); }, () => { refreshUnreadMessages(); }, 30000);
+  useRealtimeSubscription('dm:read', () => { refreshUnreadMessages(); });
+
+  useRealtimeSubscription('chat:message', ({ message }) => {
+    if (!isOnChat && message.sender.id !== user?.id) setUnreadChat(count => count + 1);
+  });
+
+  useEffect(() => {
+    if (isOnChat) setUnreadChat(0);
+  }, [isOnChat]);
+
+  return { unreadMessages, unreadChat };
+};
+
+const NavBadge: React.FC<{ count?: number }> = ({ count }) => {
+  if (!count) return null;
+  return (
+    <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center" aria-label={`${count} unread`}>
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+};
+
 const ThemeToggle: React.FC = () => {
     const { theme, toggleTheme } = useTheme();
     return (
@@ -34,12 +117,24 @@ const Navbar: React.FC = () => {
   const navContainerRef = useRef<HTMLDivElement>(null);
   const [sliderStyle, setSliderStyle] = useState({ opacity: 0, left: 0, width: 0 });
 
-  const navItems = [
+  const { unreadMessages, unreadChat } = useNavBadges();
+  const { newMatchCount } = useSavedSearches();
+
+  const navItems: NavItem[] = [
     { path: '/dashboard', label: 'Dashboard', icon: <HomeIcon /> },
     { path: '/hostel-rooms', label: 'Hostel Rooms', icon: <BuildingIcon /> },
+    { path: '/search', label: 'Search', icon: <SearchIcon />, requiresAuth: true, badge: newMatchCount },
+    { path: '/trending', label: 'Trending', icon: <FireIcon />, requiresAuth: true },
+    { path: '/list-room', label: 'List Room', icon: <PlusIcon />, requiresAuth: true },
+    { path: '/room-requests', label: 'Requests', icon: <HandshakeIcon />, requiresAuth: true },
+    { path: '/messages', label: 'Messages', icon: <EnvelopeIcon />, requiresAuth: true, badge: unreadMessages },
+    { path: '/chat', label: 'Chat', icon: <ChatBubbleIcon />, requiresAuth: true, badge: unreadChat },
+    { path: '/friends', label: 'Friends', icon: <UsersIcon />, requiresAuth: true },
+    { path: '/attendance', label: 'Attendance', icon: <CheckBadgeIcon />, requiresAuth: true },
     { path: '/events', label: 'Events', icon: <CalendarDaysIcon /> },
     { path: '/cgpa-calculator', label: 'CGPA', icon: <ChartPieIcon /> },
-  ];
+    { path: '/admin', label: 'Admin', icon: <KeyIcon />, requiresAuth: true, requiresRole: 'admin' as const },
+  ].filter(item => (!item.requiresAuth || !!user) && (!item.requiresRole || user?.role === item.requiresRole));
 
   useEffect(() => {
     const handleScroll = () => {
@@ -101,6 +196,7 @@ const Navbar: React.FC = () => {
         > 
           <span className="w-6 h-6">{item.icon}</span>
           <span>{item.label}</span>
+          <span className="ml-auto"><NavBadge count={item.badge} /></span>
         </Link>
       ))}
     </>
@@ -121,12 +217,17 @@ const Navbar: React.FC = () => {
                 key={item.path}
                 data-path={item.path}
                 to={item.path}
+                title={item.label}
                 className={`relative flex items-center gap-x-2 transition-colors duration-200 ease-in-out font-semibold text-sm px-3 h-full
                   ${location.pathname.startsWith(item.path) ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`
                 }
               > 
-                <span className="w-6 h-6">{item.icon}</span>
-                <span>{item.label}</span>
+                <span className="relative w-6 h-6">
+                  {item.icon}
+                  <span className="absolute -top-2 -right-3"><NavBadge count={item.badge} /></span>
+                </span>
+                {/* With every page in the bar, labels only fit on wide screens */}
+                <span className="hidden xl:inline">{item.label}</span>
               </Link>
             ))}
             <div 
@@ -192,18 +293,76 @@ const Navbar: React.FC = () => {
   );
 };
 
+// Tells the lister when an admin has reviewed their allotment proof, whichever page they're on
+const VerificationNotice: React.FC = () => {
+    const [reviewed, setReviewed] = useState<RoomListing | null>(null);
+    useRealtimeSubscription('listing:verification', ({ listing }) => setReviewed(listing));
+
+    const verification = reviewed?.verification;
+    if (!reviewed || !verification || verification.status === 'Pending') return null;
+
+    const room = `${reviewed.roomDetails.hostel} ${reviewed.roomDetails.block}/${reviewed.roomDetails.roomNumber}`;
+    const message = verification.status === 'Approved'
+        ? `Your allotment proof for ${room} was verified. Your listing is now live in search.`
+        : `Your allotment proof for ${room} was rejected: ${verification.reason || 'no reason given'}. Upload a new one from your dashboard.`;
+    return (
+        <div className="fixed top-20 inset-x-0 z-40 px-4 flex justify-center pointer-events-none">
+            <div className="w-full max-w-xl pointer-events-auto">
+                <Alert type={verification.status === 'Approved' ? 'success' : 'warning'} message={message} onClose={() => setReviewed(null)} />
+            </div>
+        </div>
+    );
+};
+
+// Suspended students can still browse, so tell them why posting fails
+const AccountStatusNotice: React.FC = () => {
+    const { user } = useAuth();
+    const [dismissed, setDismissed] = useState(false);
+    if (!user || dismissed || effectiveAccountStatus(user) !== 'suspended') return null;
+
+    const { reason, until } = user.moderation!;
+    const message = `Your account is suspended${until ? ` until ${new Date(until).toLocaleString()}` : ''}${reason ? `: ${reason}` : '.'} You can browse, but not post, list rooms or send requests.`;
+    return (
+        <div className="fixed bottom-4 inset-x-0 z-40 px-4 flex justify-center pointer-events-none">
+            <div className="w-full max-w-xl pointer-events-auto">
+                <Alert type="warning" message={message} onClose={() => setDismissed(true)} />
+            </div>
+        </div>
+    );
+};
+
 const AppBody: React.FC = () => {
     const location = useLocation();
     return (
         <>
             <Navbar />
+            <VerificationNotice />
+            <AccountStatusNotice />
             <main key={location.pathname} className="container mx-auto p-4 pt-24 sm:pt-24 animate-fade-in">
                 <Routes>
                     <Route path="/login" element={<LoginPage />} />
                     <Route path="/dashboard" element={<DashboardPage />} />
                     <Route path="/hostel-rooms" element={<HostelRoomsPage />} />
                     <Route path="/events" element={<EventsPage />} />
+                    <Route path="/events/:eventId" element={<EventDetailPage />} />
+                    <Route path="/events/:eventId/check-in" element={<ProtectedRoute><EventCheckInPage /></ProtectedRoute>} />
                     <Route path="/cgpa-calculator" element={<CgpaPage />} />
+                    <Route path="/attendance" element={<ProtectedRoute><AttendanceTrackerPage /></ProtectedRoute>} />
+                    <Route path="/search" element={<ProtectedRoute><SearchPage /></ProtectedRoute>} />
+                    <Route path="/trending" element={<ProtectedRoute><TrendingRoomsPage /></ProtectedRoute>} />
+                    <Route path="/room-requests" element={<ProtectedRoute><RoomRequestsPage /></ProtectedRoute>} />
+                    <Route path="/messages" element={<ProtectedRoute><MessagesPage /></ProtectedRoute>} />
+                    <Route path="/friends" element={<ProtectedRoute><FindFriendsPage /></ProtectedRoute>} />
+                    <Route path="/chat" element={<ProtectedRoute><CommonChatPage /></ProtectedRoute>} />
+                    <Route path="/list-room" element={<ProtectedRoute><ListRoomPage /></ProtectedRoute>} />
+                    <Route path="/admin" element={<ProtectedRoute requiredRole="admin"><AdminConsolePage /></ProtectedRoute>}>
+                        <Route index element={<Navigate to="verifications" replace />} />
+                        <Route path="verifications" element={<AdminVerificationPage />} />
+                        <Route path="events" element={<AdminEventsPage />} />
+                        <Route path="listings" element={<AdminListingsPage />} />
+                        <Route path="users" element={<AdminUsersPage />} />
+                        <Route path="chat-reports" element={<AdminChatReportsPage />} />
+                    </Route>
                     <Route path="/" element={<Navigate to="/dashboard" replace />} />
                     <Route path="*" element={<Navigate to="/" />} /> 
                 </Routes>
@@ -217,23 +376,32 @@ const App: React.FC = () => {
   return (
     <ThemeContextProvider>
         <AuthContextProvider>
+        <RealtimeContextProvider>
+        <SavedSearchContextProvider>
         <Gradients />
         <HashRouter>
             <AppBody />
         </HashRouter>
+        </SavedSearchContextProvider>
+        </RealtimeContextProvider>
         </AuthContextProvider>
     </ThemeContextProvider>
   );
 };
 
 const Footer: React.FC = () => {
+    const { user } = useAuth();
     return (
         <footer className="bg-transparent text-slate-500 dark:text-slate-400 py-6 mt-12">
             <div className="container mx-auto text-center">
                 <p>&copy; {new Date().getFullYear()} MNIT LIVE. All rights reserved.</p>
                 <p className="text-sm mt-1">A platform for MNIT Jaipur students. 🎓</p>
                 <p className="text-sm mt-2">
-                    <a href="mailto:hostel.admin@mnit.ac.in?subject=MNIT LIVE Query" className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 underline transition-colors duration-200">Contact Admin</a>
+                    {user?.role === 'admin' ? (
+                        <Link to="/admin" className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 underline transition-colors duration-200">Admin Console</Link>
+                    ) : (
+                        <a href="mailto:hostel.admin@mnit.ac.in?subject=MNIT LIVE Query" className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 underline transition-colors duration-200">Contact Admin</a>
+                    )}
                 </p>
             </div>
         </footer>
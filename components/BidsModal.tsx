@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { Bid, BidStatus, RoomListing, User } from '../types';
+import * as bidService from '../services/bidService';
+import { isAbortError } from '../services/api';
+import { useRealtimeSubscription } from '../contexts/RealtimeContext';
+import { Alert, Button, Modal, Spinner, Textarea } from './UIElements';
+
+const BIDS_POLL_INTERVAL_MS = 30000;
+const MAX_OFFER_LENGTH = 500;
+
+const statusStyles: { [key in BidStatus]: string } = {
+  Active: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200',
+  Shortlisted: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200',
+  Accepted: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+  Withdrawn: 'bg-slate-200 text-slate-700 dark:bg-slate-700/50 dark:text-slate-300',
+  Expired: 'bg-slate-200 text-slate-700 dark:bg-slate-700/50 dark:text-slate-300',
+};
+
+interface BidsModalProps {
+  listing: RoomListing | null;
+  currentUser: User | null;
+  onClose: () => void;
+  // Lets the page keep its card in step, e.g. the live bid count or the listing closing on acceptance
+  onListingUpdate?: (listingId: string, changes: Partial<RoomListing>) => void;
+}
+
+const upsertBid = (bids: Bid[], bid: Bid): Bid[] =>
+  bids.some(existing => existing.id === bid.id)
+    ? bids.map(existing => existing.id === bid.id ? bid : existing)
+    : [bid, ...bids];
+
+/**
+ * Bid history for a bidding listing. Other students can place or withdraw a bid; the lister can
+ * shortlist, reject or accept one, which opens a match request with the bidder.
+ */
+const BidsModal: React.FC<BidsModalProps> = ({ listing, currentUser, onClose, onListingUpdate }) => {
+  const [bids, setBids] = useState<Bid[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [offer, setOffer] = useState('');
+  const [busyBidId, setBusyBidId] = useState<string | null>(null);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [confirmingBidId, setConfirmingBidId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const listingId = listing?.id;
+
+  const loadBids = async (signal?: AbortSignal) => {
+    if (!listingId) return;
+    try {
+      setBids(await bidService.getBids(listingId, signal));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Failed to load bids:", err);
+      setError(err.message || 'Could not load bids.');
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setBids([]);
+    setOffer('');
+    setError('');
+    setSuccess('');
+    setConfirmingBidId(null);
+    if (!listingId) return;
+    setIsLoading(true);
+    const controller = new AbortController();
+    loadBids(controller.signal);
+    // Keeps the countdown and the open/closed state current while the modal is up
+    const intervalId = setInterval(() => setNow(Date.now()), 30000);
+    return () => {
+      controller.abort();
+      clearInterval(intervalId);
+    };
+  }, [listingId]);
+
+  useRealtimeSubscription(
+    'listing:bid',
+    ({ bid }) => {
+      if (bid.listingId === listingId) setBids(prev => upsertBid(prev, bid));
+    },
+    listingId ? () => { loadBids(); } : undefined,
+    BIDS_POLL_INTERVAL_MS
+  );
+
+  const liveBidCount = bids.filter(bidService.isLiveBid).length;
+  useEffect(() => {
+    if (listingId && !isLoading) onListingUpdate?.(listingId, { bidCount: liveBidCount });
+  }, [listingId, liveBidCount, isLoading]);
+
+  if (!listing) return null;
+
+  const isOwner = currentUser?.id === listing.listedBy.id;
+  const biddingOpen = bidService.isBiddingOpen(listing, now);
+  const myLiveBid = currentUser ? bids.find(bid => bid.bidder.id === currentUser.id && bidService.isLiveBid(bid)) : undefined;
+  const roomSummary = `${listing.roomDetails.hostel} - ${listing.roomDetails.block}/${listing.roomDetails.roomNumber}`;
+
+  const runBidAction = async (bidId: string, action: () => Promise<void>, failure: string) => {
+    setBusyBidId(bidId);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(failure, err);
+      setError(err.message || failure);
+    } finally {
+      setBusyBidId(null);
+      setConfirmingBidId(null);
+    }
+  };
+
+  const handlePlaceBid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!offer.trim()) return;
+    setIsPlacing(true);
+    setError('');
+    setSuccess('');
+    try {
+      const bid = await bidService.placeBid(listing.id, offer.trim());
+      setBids(prev => upsertBid(prev, bid));
+      setOffer('');
+      setSuccess('Your bid has been placed. The lister will be notified.');
+    } catch (err: any) {
+      console.error("Failed to place bid:", err);
+      setError(err.message || 'Could not place your bid.');
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  const handleAccept = (bid: Bid) => runBidAction(bid.id, async () => {
+    const { matchRequest } = await bidService.acceptBid(bid.id);
+    // The other live bids were rejected on the server, so reload rather than patch them one by one
+    await loadBids();
+    onListingUpdate?.(listing.id, { status: 'Matched' });
+    setSuccess(`Bid accepted. Confirm the exchange with ${matchRequest.requester.fullName} on the Room Requests page.`);
+  }, 'Could not accept the bid.');
+
+  const updateBid = (bid: Bid, action: (bidId: string) => Promise<Bid>, failure: string) =>
+    runBidAction(bid.id, async () => {
+      const updated = await action(bid.id);
+      setBids(prev => upsertBid(prev, updated));
+    }, failure);
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Bids for ${roomSummary}`} size="xl">
+      <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
+        {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+        {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+        <p className="text-sm">
+          {listing.biddingDeadline
+            ? <>Closes {new Date(listing.biddingDeadline).toLocaleString()} · <span className="font-semibold">{bidService.formatTimeLeft(listing.biddingDeadline, now)}</span></>
+            : biddingOpen ? 'Open for bids.' : 'Bidding closed.'}
+        </p>
+
+        {!isOwner && currentUser && biddingOpen && (
+          myLiveBid ? (
+            <div className="p-3 rounded-lg border border-cyan-500/30 bg-cyan-500/5 flex justify-between items-center gap-3">
+              <p className="text-sm">You have a {myLiveBid.status.toLowerCase()} bid on this room.</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                isLoading={busyBidId === myLiveBid.id}
+                onClick={() => updateBid(myLiveBid, bidService.withdrawBid, 'Could not withdraw your bid.')}
+              >
+                Withdraw
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handlePlaceBid} className="space-y-2">
+              <Textarea
+                label="Your offer"
+                rows={3}
+                value={offer}
+                onChange={(e) => setOffer(e.target.value)}
+                placeholder="e.g., My single room in H2 - Aravali, B-204, plus I'll help you move"
+                maxLength={MAX_OFFER_LENGTH}
+                required
+              />
+              <div className="flex justify-end">
+                <Button type="submit" variant="primary" isLoading={isPlacing} disabled={!offer.trim()}>Place Bid</Button>
+              </div>
+            </form>
+          )
+        )}
+
+        <h4 className="font-semibold">Bid History ({bids.length})</h4>
+        {isLoading ? (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        ) : bids.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">No bids yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {bids.map(bid => {
+              const isMine = bid.bidder.id === currentUser?.id;
+              const canManage = isOwner && biddingOpen && bidService.isLiveBid(bid);
+              return (
+                <li key={bid.id} className="p-3 rounded-lg border border-slate-200/80 dark:border-white/10">
+                  <div className="flex justify-between items-start gap-2 mb-1">
+                    <p className="text-sm font-semibold">
+                      {/* Only the lister and the bidder see who placed a bid */}
+                      {isOwner || isMine ? `${bid.bidder.fullName}${bid.bidder.rollNumber ? ` (${bid.bidder.rollNumber})` : ''}` : 'A student'}
+                      {isMine && <span className="ml-1 text-xs text-cyan-500">(you)</span>}
+                    </p>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[bid.status]}`}>{bid.status}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{bid.offer}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{new Date(bid.createdAt).toLocaleString()}</p>
+                  {canManage && (
+                    <div className="flex flex-wrap gap-2 mt-2 justify-end">
+                      {confirmingBidId === bid.id ? (
+                        <>
+                          <span className="text-xs self-center">Accepting closes bidding and rejects the other bids.</span>
+                          <Button size="sm" variant="ghost" onClick={() => setConfirmingBidId(null)} disabled={busyBidId === bid.id}>Cancel</Button>
+                          <Button size="sm" variant="primary" onClick={() => handleAccept(bid)} isLoading={busyBidId === bid.id}>Confirm Accept</Button>
+                        </>
+                      ) : (
+                        <>
+                          {bid.status === 'Active' && (
+                            <Button size="sm" variant="secondary" onClick={() => updateBid(bid, bidService.shortlistBid, 'Could not shortlist the bid.')} disabled={!!busyBidId}>
+                              Shortlist
+                            </Button>
+                          )}
+                          <Button size="sm" variant="danger" onClick={() => updateBid(bid, bidService.rejectBid, 'Could not reject the bid.')} disabled={!!busyBidId}>
+                            Reject
+                          </Button>
+                          <Button size="sm" variant="primary" onClick={() => setConfirmingBidId(bid.id)} disabled={!!busyBidId}>
+                            Accept
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default BidsModal;
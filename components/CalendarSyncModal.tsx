@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarSubscription, Course, Event, Holiday } from '../types';
+import * as calendarService from '../services/calendarService';
+import { downloadCalendar } from '../services/icalendar';
+import { isAbortError } from '../services/api';
+import { Alert, Button, Modal, Spinner } from './UIElements';
+import { CalendarDaysIcon } from './VibrantIcons';
+
+interface CalendarSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // With these, the modal also offers a one-off download of the user's registered events
+  events?: Event[];
+  registeredIds?: Set<string>;
+  // With these, it offers the class timetable instead
+  courses?: Course[];
+  holidays?: Holiday[];
+}
+
+/**
+ * Gets events and classes into the student's phone calendar, either as a one-off .ics download
+ * or as a subscription that keeps itself up to date.
+ */
+const CalendarSyncModal: React.FC<CalendarSyncModalProps> = ({ isOpen, onClose, events, registeredIds, courses, holidays = [] }) => {
+  const [subscription, setSubscription] = useState<CalendarSubscription | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [confirmingReset, setConfirmingReset] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || subscription) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+    calendarService.getCalendarSubscription(controller.signal)
+      .then(setSubscription)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load calendar subscription:", err);
+        setError(err.message || 'Could not load your calendar link.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setConfirmingReset(false);
+      setCopied(false);
+      setError('');
+    }
+  }, [isOpen]);
+
+  const feedUrl = subscription ? calendarService.calendarFeedUrl(subscription.token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link. Select it and copy it by hand.');
+    }
+  };
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    setError('');
+    try {
+      setSubscription(await calendarService.resetCalendarSubscription());
+      setConfirmingReset(false);
+    } catch (err: any) {
+      console.error("Failed to reset calendar subscription:", err);
+      setError(err.message || 'Could not reset your calendar link.');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!events || !registeredIds) return;
+    downloadCalendar(
+      calendarService.calendarFileName('mnit-live-events'),
+      calendarService.buildRegisteredEventsCalendar(events, registeredIds)
+    );
+  };
+
+  const handleTimetableDownload = () => {
+    if (!courses) return;
+    downloadCalendar(calendarService.calendarFileName('mnit-live-timetable'), calendarService.buildTimetableCalendar(courses, holidays));
+  };
+
+  const scheduledCourses = courses?.filter(course => course.schedule).length || 0;
+
+  const exportableRegistrations = events && registeredIds
+    ? events.filter(event => registeredIds.has(event.id) && calendarService.isExportableEvent(event))
+    : [];
+  const upcomingRegistrations = exportableRegistrations.filter(event => !event.cancelledAt).length;
+  const cancelledRegistrations = exportableRegistrations.length - upcomingRegistrations;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={<div className="flex items-center gap-2"><CalendarDaysIcon className="w-7 h-7" /><span>Add to Your Calendar</span></div>}
+      size="lg"
+    >
+      <div className="space-y-6">
+        {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+
+        <section className="space-y-2">
+          <h3 className="font-semibold text-slate-800 dark:text-slate-100">Subscribe</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Your calendar app checks this private link every few hours for the events you register for and your class timetable.
+            Changes and cancellations show up on their own. Times are in IST.
+          </p>
+          {isLoading ? (
+            <div className="flex justify-center py-2"><Spinner size="sm" /></div>
+          ) : subscription && (
+            <>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 text-xs rounded-md bg-white/80 dark:bg-black/20 border border-slate-300/70 dark:border-white/20 text-slate-700 dark:text-slate-200"
+                  aria-label="Calendar subscription link"
+                />
+                <Button size="sm" variant="secondary" onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <a href={calendarService.webcalUrl(feedUrl)}>
+                  <Button size="sm" variant="primary">Open in Calendar App</Button>
+                </a>
+                <a href={calendarService.googleCalendarSubscribeUrl(feedUrl)} target="_blank" rel="noopener noreferrer">
+                  <Button size="sm" variant="ghost">Add to Google Calendar</Button>
+                </a>
+              </div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">
+                {confirmingReset ? (
+                  <span className="flex flex-wrap items-center gap-2">
+                    Calendars using the current link will stop updating.
+                    <Button size="sm" variant="danger" onClick={handleReset} isLoading={isResetting}>Reset Link</Button>
+                    <Button size="sm" variant="ghost" onClick={() => setConfirmingReset(false)} disabled={isResetting}>Keep It</Button>
+                  </span>
+                ) : (
+                  <>
+                    Anyone with this link can see your schedule.{' '}
+                    <button onClick={() => setConfirmingReset(true)} className="underline hover:text-red-500">Reset it</button> if you shared it by mistake.
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </section>
+
+        {events && registeredIds && (
+          <section className="space-y-2 border-t border-slate-200/80 dark:border-white/10 pt-4">
+            <h3 className="font-semibold text-slate-800 dark:text-slate-100">Download once</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              An .ics file of your {upcomingRegistrations} upcoming registered event{upcomingRegistrations === 1 ? '' : 's'}
+              {cancelledRegistrations > 0 && `, plus ${cancelledRegistrations} cancelled one${cancelledRegistrations === 1 ? '' : 's'} marked as cancelled so your calendar removes ${cancelledRegistrations === 1 ? 'it' : 'them'}`}.
+              It won't update if an event changes.
+            </p>
+            <Button size="sm" variant="secondary" onClick={handleDownload} disabled={exportableRegistrations.length === 0}>Download .ics</Button>
+          </section>
+        )}
+
+        {courses && (
+          <section className="space-y-2 border-t border-slate-200/80 dark:border-white/10 pt-4">
+            <h3 className="font-semibold text-slate-800 dark:text-slate-100">Download once</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              An .ics file of the weekly classes for your {scheduledCourses} course{scheduledCourses === 1 ? '' : 's'} with a timetable, until the end of the semester, without holidays.
+              It won't update if you change the timetable.
+            </p>
+            <Button size="sm" variant="secondary" onClick={handleTimetableDownload} disabled={scheduledCourses === 0}>Download .ics</Button>
+          </section>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default CalendarSyncModal;
@@ -1,13 +1,16 @@
-import React, { useState } from 'react';
-import { Event } from '../types';
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Event, EventRegistration } from '../types';
+import { isEventFull, isPastEvent, registrationCountLabel } from '../services/eventService';
 import { Button } from './UIElements';
 import { CalendarDaysIcon, FireIcon, CheckmarkIcon } from './VibrantIcons';
 
 interface EventCardProps {
     event: Event;
-    isRegistered: boolean;
-    onRegister: (eventId: string) => void;
-    onUnregister: (eventId: string) => void;
+    registration?: EventRegistration; // the current user's place or waitlist entry
+    onRegister: (event: Event) => void;
+    onUnregister: (event: Event) => void;
+    showRegisteredCount?: boolean;
     style?: React.CSSProperties;
 }
 
@@ -19,32 +22,23 @@ const InfoRow: React.FC<{ icon: React.ReactNode; label: string; value: string }>
     </div>
 );
 
-const EventCard: React.FC<EventCardProps> = ({ event, isRegistered, onRegister, onUnregister, style }) => {
-    const [isProcessing, setIsProcessing] = useState(false);
-    
+const EventCard: React.FC<EventCardProps> = ({ event, registration, onRegister, onUnregister, showRegisteredCount = true, style }) => {
+    const isPast = isPastEvent(event);
+    const isRegistered = registration?.status === 'registered';
     const eventDate = new Date(event.dateTime);
     const formattedDate = eventDate.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
     const formattedTime = eventDate.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: true });
 
-    const handleRegisterClick = async () => {
-        setIsProcessing(true);
-        await onRegister(event.id);
-        setIsProcessing(false);
-    };
 
-    const handleUnregisterClick = async () => {
-        setIsProcessing(true);
-        await onUnregister(event.id);
-        setIsProcessing(false);
-    };
-    
     return (
         <div
             className="bg-white/90 dark:bg-black/30 backdrop-blur-md shadow-xl rounded-xl overflow-hidden transition-all duration-300 ease-in-out hover:shadow-2xl hover:-translate-y-1 border border-white/20 dark:border-white/10 flex flex-col justify-between animate-pop-in"
             style={style}
         >
             <div className="p-6">
-                <h3 className="text-xl font-bold text-slate-900 dark:text-white">{event.name}</h3>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                    <Link to={`/events/${encodeURIComponent(event.id)}`} className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors">{event.name}</Link>
+                </h3>
                 <p className="text-md font-semibold text-indigo-600 dark:text-indigo-400 mb-4">{event.organizer}</p>
                 
                 <div className="space-y-2 mb-4">
@@ -53,7 +47,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, isRegistered, onRegister,
                    <InfoRow icon={<UsersIcon />} label="Venue" value={event.location} />
                 </div>
 
-                <p className="text-sm text-slate-700 dark:text-slate-300 bg-white/50 dark:bg-white/5 p-3 rounded-md border border-slate-300/30 dark:border-white/10">
+                <p className="text-sm text-slate-700 dark:text-slate-300 bg-white/50 dark:bg-white/5 p-3 rounded-md border border-slate-300/30 dark:border-white/10 line-clamp-4">
                     {event.description}
                 </p>
 
@@ -69,27 +63,47 @@ const EventCard: React.FC<EventCardProps> = ({ event, isRegistered, onRegister,
                 )}
             </div>
 
-            <div className="bg-black/5 dark:bg-black/20 px-6 py-4 mt-auto border-t border-black/10 dark:border-white/10">
-                {isRegistered ? (
+            <div className="bg-black/5 dark:bg-black/20 px-6 py-4 mt-auto border-t border-black/10 dark:border-white/10 space-y-2">
+                {showRegisteredCount && (
+                    <p className="text-xs text-center text-slate-500 dark:text-slate-400">
+                        {registrationCountLabel(event)}
+                    </p>
+                )}
+                {event.cancelledAt ? (
+                    <p className="text-sm text-center font-semibold text-red-500 dark:text-red-400">This event was cancelled</p>
+                ) : isPast ? (
+                    <p className="text-sm text-center font-semibold text-slate-500 dark:text-slate-400">
+                        {isRegistered ? 'You registered for this event' : 'This event has ended'}
+                    </p>
+                ) : isRegistered ? (
                     <Button
                         variant="secondary"
                         size="sm"
                         className="w-full !bg-green-100 dark:!bg-green-900/40 !text-green-700 dark:!text-green-200 hover:!bg-green-200 dark:hover:!bg-green-900/60"
-                        onClick={handleUnregisterClick}
-                        isLoading={isProcessing}
+                        onClick={() => onUnregister(event)}
+                        title="Cancel registration"
                         leftIcon={<CheckmarkIcon />}
                     >
                         Registered
                     </Button>
+                ) : registration?.status === 'waitlisted' ? (
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        className="w-full !bg-amber-100 dark:!bg-amber-900/40 !text-amber-700 dark:!text-amber-200 hover:!bg-amber-200 dark:hover:!bg-amber-900/60"
+                        onClick={() => onUnregister(event)}
+                        title="Leave the waitlist"
+                    >
+                        On Waitlist{registration.waitlistPosition ? ` · #${registration.waitlistPosition}` : ''}
+                    </Button>
                 ) : (
                     <Button
-                        variant="primary"
+                        variant={isEventFull(event) ? 'secondary' : 'primary'}
                         size="sm"
                         className="w-full"
-                        onClick={handleRegisterClick}
-                        isLoading={isProcessing}
+                        onClick={() => onRegister(event)}
                     >
-                        Register for Event
+                        {isEventFull(event) ? 'Full · Join Waitlist' : 'Register for Event'}
                     </Button>
                 )}
             </div>
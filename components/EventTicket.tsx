@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Event } from '../types';
+import { readTicketClaims } from '../services/eventTickets';
+import { Spinner } from './UIElements';
+
+interface EventTicketProps {
+  event: Event;
+  ticket: string;
+}
+
+/**
+ * The registrant's check-in QR code. The code carries the signed ticket itself, so the door
+ * scanner needs no connection and a screenshot works as well as the live page.
+ */
+const EventTicket: React.FC<EventTicketProps> = ({ event, ticket }) => {
+  const [imageUrl, setImageUrl] = useState('');
+  const [error, setError] = useState('');
+  const claims = readTicketClaims(ticket);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(ticket, { errorCorrectionLevel: 'M', margin: 2, width: 320 })
+      .then(url => { if (!cancelled) setImageUrl(url); })
+      .catch(err => {
+        console.error("Failed to draw ticket QR code:", err);
+        if (!cancelled) setError('Could not show your ticket.');
+      });
+    return () => { cancelled = true; };
+  }, [ticket]);
+
+  return (
+    <div className="holo-card p-6 flex flex-col sm:flex-row items-center gap-6">
+      <div className="w-48 h-48 flex-shrink-0 flex items-center justify-center bg-white rounded-lg">
+        {imageUrl ? (
+          <img src={imageUrl} alt={`Check-in ticket for ${event.name}`} className="w-full h-full rounded-lg" />
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center p-2">{error}</p>
+        ) : (
+          <Spinner size="sm" />
+        )}
+      </div>
+      <div className="space-y-2 text-center sm:text-left">
+        <h2 className="text-xl font-bold text-white">Your Ticket</h2>
+        {claims && <p className="text-cyan-300 font-semibold">{claims.name}</p>}
+        <p className="text-sm text-slate-300">
+          Show this code at the entrance. It works without signal, so a screenshot is fine.
+        </p>
+        {claims && <p className="text-xs text-slate-500">Ticket {claims.jti}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EventTicket;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Holiday } from '../types';
+import { parseDateKey } from '../services/timetable';
+import { Alert, Button, Input, Modal } from './UIElements';
+import { PlusIcon, TrashIcon } from './VibrantIcons';
+
+interface HolidaysModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  holidays: Holiday[];
+  onSave: (holidays: Holiday[]) => Promise<void>;
+}
+
+const HolidaysModal: React.FC<HolidaysModalProps> = ({ isOpen, onClose, holidays, onSave }) => {
+  const [draft, setDraft] = useState<Holiday[]>([]);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(holidays);
+    setDate('');
+    setName('');
+    setError('');
+  }, [isOpen]);
+
+  const handleAdd = () => {
+    if (!date) return;
+    // One entry per date; adding it again renames it
+    setDraft(prev => [...prev.filter(h => h.date !== date), { date, name: name.trim() || 'Holiday' }].sort((a, b) => a.date.localeCompare(b.date)));
+    setDate('');
+    setName('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to save holidays:", err);
+      setError(err.message || 'Could not save your holidays.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Holidays" size="md">
+      <div className="space-y-4">
+        {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Classes scheduled on these days are not counted towards your attendance.
+        </p>
+
+        <div className="grid grid-cols-[1fr_1.4fr_auto] gap-2 items-end">
+          <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <Input label="Name" value={name} placeholder="e.g. Diwali" onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} />
+          <Button variant="secondary" onClick={handleAdd} disabled={!date} aria-label="Add holiday" className="!p-2.5">
+            <PlusIcon className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {draft.length === 0 ? (
+          <p className="text-sm text-center text-slate-500 py-4">No holidays added yet.</p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto divide-y divide-slate-200/80 dark:divide-white/10">
+            {draft.map(holiday => (
+              <li key={holiday.date} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-slate-800 dark:text-slate-200">
+                  <span className="font-semibold">{parseDateKey(holiday.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                  {' · '}{holiday.name}
+                </span>
+                <button onClick={() => setDraft(prev => prev.filter(h => h.date !== holiday.date))} className="text-slate-500 hover:text-red-500 p-1" aria-label={`Remove ${holiday.name}`}>
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="ghost" onClick={onClose} disabled={isSaving}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave} isLoading={isSaving}>Save Holidays</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default HolidaysModal;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './UIElements';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+
+// Uploaded proofs are images or PDFs, stored as data URLs or as links to the file
+const isPdf = (source: string) => source.startsWith('data:application/pdf') || /\.pdf($|\?)/i.test(source);
+
+/**
+ * Shows an allotment proof with zoom and rotate controls, since screenshots of allotment
+ * emails are often small or sideways. PDFs use the browser's own viewer.
+ */
+const ProofViewer: React.FC<{ source: string; title?: string }> = ({ source, title = 'Allotment proof' }) => {
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+
+  useEffect(() => {
+    setZoom(1);
+    setRotation(0);
+  }, [source]);
+
+  if (isPdf(source)) {
+    return (
+      <div className="space-y-2">
+        <iframe src={source} title={title} className="w-full h-[60vh] rounded-lg border border-white/10 bg-white" />
+        <a href={source} target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline">Open in a new tab</a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="ghost" onClick={() => setZoom(z => Math.max(MIN_ZOOM, z - 0.25))} disabled={zoom <= MIN_ZOOM}>Zoom out</Button>
+        <Button size="sm" variant="ghost" onClick={() => setZoom(z => Math.min(MAX_ZOOM, z + 0.25))} disabled={zoom >= MAX_ZOOM}>Zoom in</Button>
+        <Button size="sm" variant="ghost" onClick={() => setRotation(r => (r + 90) % 360)}>Rotate</Button>
+        <Button size="sm" variant="ghost" onClick={() => { setZoom(1); setRotation(0); }}>Reset</Button>
+        <span className="text-xs text-slate-400 self-center">{Math.round(zoom * 100)}%</span>
+      </div>
+      <div className="h-[60vh] overflow-auto rounded-lg border border-white/10 bg-black/40 flex items-center justify-center">
+        <img
+          src={source}
+          alt={title}
+          className="max-w-full max-h-full transition-transform duration-200"
+          style={{ transform: `scale(${zoom}) rotate(${rotation}deg)`, transformOrigin: 'center' }}
+        />
+      </div>
+      <a href={source} target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline">Open original</a>
+    </div>
+  );
+};
+
+export default ProofViewer;
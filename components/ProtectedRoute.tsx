@@ -0,0 +1,37 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { UserRole } from '../types';
+import LoadingIndicator from './LoadingIndicator';
+
+// Location state handed to /login so it can send the user back where they were going
+export interface LoginRedirectState {
+  from?: { pathname: string; search?: string };
+}
+
+/**
+ * Renders its children only for a signed-in user. While the session is still being
+ * checked it shows a spinner; otherwise it redirects to /login, remembering the page.
+ * With `requiredRole`, signed-in users without that role are sent to the dashboard.
+ */
+const ProtectedRoute: React.FC<{ children: ReactNode; requiredRole?: UserRole }> = ({ children, requiredRole }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <LoadingIndicator message="Checking your session..." />;
+  }
+
+  if (!user) {
+    const state: LoginRedirectState = { from: { pathname: location.pathname, search: location.search } };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  if (requiredRole && (user.role || 'student') !== requiredRole) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
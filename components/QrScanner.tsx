@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert } from './UIElements';
+
+// Not in TypeScript's DOM types yet; available in Chrome on Android, which most organizers use
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+declare const BarcodeDetector: { new (options: { formats: string[] }): BarcodeDetectorLike } | undefined;
+
+type Decoder = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => Promise<string | null>;
+
+const SCAN_INTERVAL_MS = 250;
+// The same code stays in front of the camera for a while; only report it again after this long
+const REPEAT_COOLDOWN_MS = 4000;
+
+const createDecoder = async (): Promise<Decoder> => {
+  if (typeof BarcodeDetector !== 'undefined') {
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    return async video => (await detector.detect(video))[0]?.rawValue || null;
+  }
+  // Safari has no BarcodeDetector, so read the frame ourselves
+  const { default: jsQR } = await import('jsqr');
+  return async (video, canvas) => {
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context || canvas.width === 0) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data || null;
+  };
+};
+
+interface QrScannerProps {
+  onScan: (code: string) => void;
+  paused?: boolean; // keeps the camera on but ignores codes, e.g. while a result is on screen
+}
+
+/**
+ * Rear camera preview that reports each QR code it reads.
+ */
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, paused = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let last = { code: '', at: 0 };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('This browser cannot use the camera. Paste ticket codes below instead.');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      } catch (err) {
+        console.error("Failed to open camera:", err);
+        setError('Camera access was blocked. Allow it in your browser settings, or paste ticket codes below.');
+        return;
+      }
+      const video = videoRef.current;
+      if (stopped || !video) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play().catch(() => undefined);
+      const decode = await createDecoder();
+
+      const tick = async () => {
+        if (stopped) return;
+        if (!pausedRef.current && video.readyState >= video.HAVE_CURRENT_DATA && canvasRef.current) {
+          try {
+            const code = await decode(video, canvasRef.current);
+            const now = Date.now();
+            if (code && (code !== last.code || now - last.at > REPEAT_COOLDOWN_MS)) {
+              last = { code, at: now };
+              onScanRef.current(code);
+            }
+          } catch (err) {
+            console.warn('QR decode failed:', err);
+          }
+        }
+        timeoutId = setTimeout(tick, SCAN_INTERVAL_MS);
+      };
+      tick();
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      clearTimeout(timeoutId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (error) return <Alert type="warning" message={error} />;
+
+  return (
+    <div className="relative rounded-xl overflow-hidden bg-black aspect-square max-w-sm mx-auto">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <div className={`absolute inset-8 border-4 rounded-lg pointer-events-none transition-colors ${paused ? 'border-white/20' : 'border-cyan-400/80'}`} />
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -1,7 +1,7 @@
 
 
 import React from 'react';
-import { MatchRequest, RoomListing, User } from '../types';
+import { MatchRequest, MatchRequestStatus, RoomListing, User } from '../types';
 import { Button } from './UIElements';
 import { HandshakeIcon, ChatBubbleIcon } from './VibrantIcons';
 
@@ -12,28 +12,32 @@ interface RequestCardProps {
   listingDetails: RoomListing;
   requesterDetails: Pick<User, 'id' | 'fullName' | 'rollNumber'>;
   listerDetails: Pick<User, 'id' | 'fullName' | 'rollNumber'>;
+  isBusy?: boolean; // a call for this request is in flight
   onUpdateStatus: (requestId: string, newStatus: 'Accepted' | 'Rejected' | 'Withdrawn') => void;
   onApproveDeal: (requestId: string) => void;
   onMessage: (partner: {id: string, fullName: string}, listing: {id: string, roomSummary: string}) => void;
 }
 
-const RequestCard: React.FC<RequestCardProps> = ({ request, type, currentUserId, listingDetails, requesterDetails, listerDetails, onUpdateStatus, onApproveDeal, onMessage }) => {
+const RequestCard: React.FC<RequestCardProps> = ({ request, type, currentUserId, listingDetails, requesterDetails, listerDetails, isBusy = false, onUpdateStatus, onApproveDeal, onMessage }) => {
 
-  const { status, createdAt, id, approvals } = request;
+  const { status, createdAt, id, approvals, group } = request;
+  // Everyone in a linked swap has to approve, not just the two people on this leg
+  const requiredApprovals = group ? group.listingIds.length : 2;
   const { roomDetails } = listingDetails;
   const currentUserHasApproved = approvals.includes(currentUserId);
   const roomSummary = `${roomDetails.hostel} ${roomDetails.block}/${roomDetails.roomNumber}`;
 
-  const statusStyles: { [key in MatchRequest['status']]: string } = {
+  const statusStyles: { [key in MatchRequestStatus]: string } = {
     Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200',
     Accepted: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200',
     Rejected: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+    Withdrawn: 'bg-slate-200 text-slate-700 dark:bg-slate-700/50 dark:text-slate-300',
     Confirmed: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
   };
 
   const handleAccept = () => onUpdateStatus(id, 'Accepted');
   const handleReject = () => onUpdateStatus(id, 'Rejected');
-  const handleWithdraw = () => onUpdateStatus(id, 'Withdrawn' as any); // Type system expects a valid status
+  const handleWithdraw = () => onUpdateStatus(id, 'Withdrawn');
 
   const handleMessageClick = () => {
     const partner = type === 'sent' ? listerDetails : requesterDetails;
@@ -48,6 +52,16 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, type, currentUserId,
                     <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${statusStyles[status]}`}>
                         {status}
                     </span>
+                    {group && (
+                        <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200">
+                            {group.listingIds.length}-way swap
+                        </span>
+                    )}
+                    {request.bidId && (
+                        <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200">
+                            Winning bid
+                        </span>
+                    )}
                     <p className="text-sm font-bold text-slate-800 dark:text-slate-100">
                        {type === 'sent' 
                          ? `Your request for ${listerDetails.fullName}'s room` 
@@ -64,12 +78,12 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, type, currentUserId,
                     <>
                         {type === 'received' && (
                             <>
-                                <Button variant="primary" size="sm" onClick={handleAccept}>Accept</Button>
-                                <Button variant="danger" size="sm" onClick={handleReject}>Reject</Button>
+                                <Button variant="primary" size="sm" onClick={handleAccept} disabled={isBusy}>Accept</Button>
+                                <Button variant="danger" size="sm" onClick={handleReject} disabled={isBusy}>Reject</Button>
                             </>
                         )}
                         {type === 'sent' && (
-                            <Button variant="secondary" size="sm" onClick={handleWithdraw}>Withdraw</Button>
+                            <Button variant="secondary" size="sm" onClick={handleWithdraw} disabled={isBusy}>Withdraw</Button>
                         )}
                     </>
                 )}
@@ -78,13 +92,19 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, type, currentUserId,
                         variant="primary" 
                         size="sm" 
                         onClick={() => onApproveDeal(id)}
-                        disabled={currentUserHasApproved}
+                        disabled={currentUserHasApproved || isBusy}
+                        isLoading={isBusy}
                         className={currentUserHasApproved ? '!bg-green-600' : ''}
+                        title={`${approvals.length} of ${requiredApprovals} confirmed`}
                     >
-                        {currentUserHasApproved ? 'Waiting for other party' : 'Approve Deal'}
+                        {currentUserHasApproved ? (group ? `Waiting for others (${approvals.length}/${requiredApprovals})` : 'Waiting for other party') : 'Approve Deal'}
                      </Button>
                 )}
-                {status !== 'Confirmed' && status !== 'Rejected' && (
+                {status === 'Accepted' && group && !currentUserHasApproved && (
+                    // Proposed swap chains start out accepted; declining any leg cancels the chain
+                    <Button variant="danger" size="sm" onClick={handleReject} disabled={isBusy}>Decline</Button>
+                )}
+                {(status === 'Pending' || status === 'Accepted') && (
                      <Button variant="ghost" size="sm" className="!p-2" onClick={handleMessageClick} title="Message user">
                         <ChatBubbleIcon />
                      </Button>
@@ -19,6 +19,8 @@ const RequestEventModal: React.FC<RequestEventModalProps> = ({ isOpen, onClose,
         description: '',
         registrationLink: '',
     });
+    // Kept as typed so the field can be cleared; sent as a number
+    const [capacity, setCapacity] = useState('');
     const [error, setError] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [success, setSuccess] = useState(false);
@@ -27,6 +29,7 @@ const RequestEventModal: React.FC<RequestEventModalProps> = ({ isOpen, onClose,
         // Reset form when modal is closed/opened
         if (!isOpen) {
             setFormData({ name: '', organizer: '', date: '', time: '', location: '', description: '', registrationLink: '' });
+            setCapacity('');
             setError('');
             setIsSubmitting(false);
             setSuccess(false);
@@ -41,12 +44,17 @@ const RequestEventModal: React.FC<RequestEventModalProps> = ({ isOpen, onClose,
         setError('');
         // Basic validation
         if (!formData.name || !formData.organizer || !formData.date || !formData.time || !formData.location || !formData.description) {
-            setError('All fields except the registration link are required.');
+            setError('All fields except the registration link and capacity are required.');
+            return;
+        }
+        const places = capacity.trim() ? Number(capacity) : undefined;
+        if (places !== undefined && (!Number.isInteger(places) || places < 1)) {
+            setError('Capacity must be a whole number of at least 1, or left empty for no limit.');
             return;
         }
 
         setIsSubmitting(true);
-        const result = await onSubmit(formData);
+        const result = await onSubmit({ ...formData, capacity: places });
         setIsSubmitting(false);
 
         if (result) {
@@ -84,7 +92,11 @@ const RequestEventModal: React.FC<RequestEventModalProps> = ({ isOpen, onClose,
                         <Input label="Date" type="date" value={formData.date} onChange={e => handleChange('date', e.target.value)} required />
                         <Input label="Time" type="time" value={formData.time} onChange={e => handleChange('time', e.target.value)} required />
                     </div>
-                    <Input label="Location / Venue" value={formData.location} onChange={e => handleChange('location', e.target.value)} required />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <Input label="Location / Venue" value={formData.location} onChange={e => handleChange('location', e.target.value)} required />
+                        <Input label="Capacity (Optional)" type="number" min={1} step={1} value={capacity} onChange={e => setCapacity(e.target.value)} placeholder="No limit" />
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 -mt-2">Once the places are taken, students join a waitlist and move up when someone cancels.</p>
                     <Textarea label="Event Description" value={formData.description} onChange={e => handleChange('description', e.target.value)} rows={4} required />
                     <Input label="External Registration Link (Optional)" value={formData.registrationLink} onChange={e => handleChange('registrationLink', e.target.value)} placeholder="https://forms.gle/..." />
                 </div>
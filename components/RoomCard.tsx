@@ -1,10 +1,19 @@
 
 import React from 'react';
-import { RoomListing } from '../types';
+import { RoomListing, ListingCompatibility, ListingStatus } from '../types';
 import { Button } from './UIElements';
-import { WhatsAppIcon, FireIcon, HeartIcon } from './VibrantIcons';
+import { formatTimeLeft, isBiddingOpen } from '../services/bidService';
+import { WhatsAppIcon, FireIcon, HeartIcon, HandshakeIcon, CheckBadgeIcon } from './VibrantIcons';
 
 
+const statusClasses: { [key in ListingStatus]: string } = {
+  'Pending Verification': 'text-yellow-300',
+  Open: 'text-green-400',
+  Matched: 'text-cyan-300',
+  Expired: 'text-slate-300',
+  Withdrawn: 'text-red-400',
+};
+
 interface RoomCardProps {
   room: RoomListing;
   currentUserId?: string; 
@@ -12,7 +21,12 @@ interface RoomCardProps {
   style?: React.CSSProperties;
   onExpressInterest?: (listingId: string, currentInterestStatus: boolean) => void;
   currentUserInterested?: boolean;
+  onRequestExchange?: (listingId: string) => void;
+  exchangeRequested?: boolean; // the current user already has an open request for this room
+  compatibility?: ListingCompatibility; // shows a match score with the reasons behind it
   rank?: number;
+  trendingWindowLabel?: string; // e.g. 'this week', shown next to the recent interest count
+  onViewBids?: (listing: RoomListing) => void;
 }
 
 const RoomCard: React.FC<RoomCardProps> = ({ 
@@ -22,9 +36,15 @@ const RoomCard: React.FC<RoomCardProps> = ({
   style,
   onExpressInterest,
   currentUserInterested,
-  rank
+  onRequestExchange,
+  exchangeRequested,
+  compatibility,
+  rank,
+  trendingWindowLabel,
+  onViewBids
 }) => {
-  const { roomDetails, listedBy, listingType, description, desiredTradeConditions, status, createdAt, interestCount, id } = room;
+  const { roomDetails, listedBy, listingType, description, desiredTradeConditions, status, createdAt, renewedAt, interestCount, recentInterestCount, biddingDeadline, bidCount, id } = room;
+  const biddingOpen = isBiddingOpen(room);
   
   const roomSummary = `${roomDetails.hostel} - ${roomDetails.block}/${roomDetails.roomNumber}`;
 
@@ -57,7 +77,33 @@ const RoomCard: React.FC<RoomCardProps> = ({
             {listingType}
           </span>
         </div>
+        {room.verification?.status === 'Approved' && (
+          <div className="inline-flex items-center gap-1 mb-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-900/50 text-green-200" title="An admin checked this student's allotment proof for this room">
+            <CheckBadgeIcon className="w-4 h-4" /> Verified allotment
+          </div>
+        )}
         <p className="text-sm text-slate-400 mb-1">Type: <span className="font-medium text-slate-200">{roomDetails.type}</span></p>
+
+        {compatibility && compatibility.eligible && (
+          <details className="mb-2 text-sm">
+            <summary className="cursor-pointer text-slate-400">
+              <span className={`font-semibold ${compatibility.score >= 70 ? 'text-green-400' : compatibility.score >= 40 ? 'text-yellow-300' : 'text-slate-300'}`}>
+                {compatibility.score}% match
+              </span>{' '}
+              with your preferences
+            </summary>
+            <ul className="mt-2 space-y-1 text-xs bg-slate-800/50 p-3 rounded-md border border-cyan-500/10">
+              {compatibility.factors.filter(factor => factor.maxPoints > 0).map(factor => (
+                <li key={factor.key} className="flex justify-between gap-3">
+                  <span className="text-slate-300">{factor.explanation}</span>
+                  <span className={`whitespace-nowrap font-mono ${factor.points === factor.maxPoints ? 'text-green-400' : 'text-slate-500'}`}>
+                    {factor.points}/{factor.maxPoints}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
         
         {listedBy && (
           <p className="text-sm text-slate-400 mb-1">
@@ -78,6 +124,9 @@ const RoomCard: React.FC<RoomCardProps> = ({
             <div className="flex justify-between items-center mt-2 mb-2">
                 <p className="text-sm text-slate-200 font-semibold flex items-center gap-1.5">
                     <FireIcon className="w-5 h-5"/> {interestCount || 0} students interested
+                    {trendingWindowLabel && recentInterestCount !== undefined && (
+                        <span className="font-normal text-slate-400">({recentInterestCount} {trendingWindowLabel})</span>
+                    )}
                 </p>
                 {currentUserId && onExpressInterest && (
                     <Button 
@@ -92,10 +141,32 @@ const RoomCard: React.FC<RoomCardProps> = ({
                 )}
             </div>
         )}
+        {listingType === 'Bidding' && biddingDeadline && (
+            <p className="text-xs text-slate-400 mb-2">
+                {bidCount || 0} live bids · <span className={`font-semibold ${biddingOpen ? 'text-purple-300' : 'text-red-400'}`}>{formatTimeLeft(biddingDeadline)}</span>
+            </p>
+        )}
 
-        <p className="text-xs text-slate-400 mb-4">Status: <span className={`font-semibold ${status === 'Open' ? 'text-green-400' : 'text-red-400'}`}>{status}</span></p>
+        <p className="text-xs text-slate-400 mb-4">Status: <span className={`font-semibold ${statusClasses[status]}`}>{status}</span></p>
         
         <div className="mt-4 space-y-2">
+            {listingType === 'Exchange' && status === 'Open' && currentUserId && listedBy.id !== currentUserId && onRequestExchange && (
+                <Button
+                    size="md"
+                    variant="primary"
+                    className="w-full"
+                    onClick={() => onRequestExchange(id)}
+                    disabled={exchangeRequested}
+                    leftIcon={<HandshakeIcon className="w-5 h-5" />}
+                >
+                    {exchangeRequested ? 'Exchange Requested' : 'Request Exchange'}
+                </Button>
+            )}
+            {listingType === 'Bidding' && currentUserId && onViewBids && (
+                <Button size="md" variant="primary" className="w-full" onClick={() => onViewBids(room)}>
+                    {listedBy.id === currentUserId ? 'Manage Bids' : biddingOpen ? 'Place a Bid' : 'View Bids'}
+                </Button>
+            )}
             {canMessageLister && (
                  <a
                     href={whatsappUrl}
@@ -112,6 +183,7 @@ const RoomCard: React.FC<RoomCardProps> = ({
       <div className="bg-transparent px-6 py-2 text-right border-t border-cyan-500/10 mt-auto">
         <p className="text-xs text-slate-400">
           Listed: {new Date(createdAt).toLocaleDateString()}
+          {renewedAt && <> · Renewed: {new Date(renewedAt).toLocaleDateString()}</>}
         </p>
       </div>
     </div>
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ListingSearchFilters, SavedSearch } from '../types';
+import { useSavedSearches } from '../contexts/SavedSearchContext';
+import { hasActiveFilters } from '../services/savedSearchService';
+import { Button, Input } from './UIElements';
+import { XMarkIcon } from './VibrantIcons';
+
+interface SavedSearchesPanelProps {
+  currentFilters: ListingSearchFilters;
+  onApply: (search: SavedSearch) => void;
+  onError: (message: string) => void;
+}
+
+const sameFilters = (a: ListingSearchFilters, b: ListingSearchFilters) =>
+  (Object.keys(a) as Array<keyof ListingSearchFilters>).every(key => a[key].trim() === b[key].trim());
+
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({ currentFilters, onApply, onError }) => {
+  const { savedSearches, newMatches, saveSearch, deleteSearch, setAlertsEnabled } = useSavedSearches();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const alreadySaved = savedSearches.some(search => sameFilters(search.filters, currentFilters));
+  const canSave = hasActiveFilters(currentFilters) && !alreadySaved;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await saveSearch(name.trim(), currentFilters);
+      setName('');
+    } catch (error: any) {
+      console.error("Failed to save search:", error);
+      onError(error.message || 'Could not save this search.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      onError(error.message || failure);
+    }
+  };
+
+  if (savedSearches.length === 0 && !canSave) return null;
+
+  return (
+    <div className="bg-white/80 dark:bg-black/30 backdrop-blur-md p-4 rounded-xl shadow-lg mb-8 border border-white/20 dark:border-white/10">
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {savedSearches.map(search => {
+            const newCount = newMatches[search.id]?.length || 0;
+            const isActive = sameFilters(search.filters, currentFilters);
+            return (
+              <div
+                key={search.id}
+                className={`flex items-center gap-1 rounded-full border pl-3 pr-1 py-1 text-sm ${isActive ? 'border-indigo-400 bg-indigo-100 dark:bg-indigo-900/50' : 'border-slate-300/70 dark:border-white/20'}`}
+              >
+                <button onClick={() => onApply(search)} className="font-medium text-slate-800 dark:text-slate-100 flex items-center gap-1.5">
+                  {search.name}
+                  {newCount > 0 && (
+                    <span className="px-1.5 rounded-full bg-red-500 text-white text-xs font-bold">{newCount} new</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => runAction(() => setAlertsEnabled(search.id, !search.alertsEnabled), 'Could not update alerts.')}
+                  className="p-1 rounded-full hover:bg-black/5 dark:hover:bg-white/10"
+                  title={search.alertsEnabled ? 'Alerts on: you will be notified about new matches' : 'Alerts off'}
+                  aria-label={search.alertsEnabled ? `Turn off alerts for ${search.name}` : `Turn on alerts for ${search.name}`}
+                >
+                  {search.alertsEnabled ? '🔔' : '🔕'}
+                </button>
+                <button
+                  onClick={() => runAction(() => deleteSearch(search.id), 'Could not delete the saved search.')}
+                  className="p-1 rounded-full hover:bg-black/5 dark:hover:bg-white/10"
+                  aria-label={`Delete saved search ${search.name}`}
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {canSave && (
+        <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <Input
+            label="💾 Save these filters"
+            placeholder="e.g., Singles in Parijat"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+          />
+          <Button type="submit" variant="secondary" className="h-10 whitespace-nowrap" isLoading={isSaving} disabled={!name.trim()}>
+            Save & alert me
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchesPanel;
@@ -1,53 +1,56 @@
 
 import React, { useState } from 'react';
 import { Modal, Textarea, Button, Alert } from './UIElements';
-import { User, RoomLocation, DirectMessage } from '../types';
-import { saveMessage } from '../services/messagingService'; // Assuming you have this service
+import { User, RoomLocation } from '../types';
+import { sendMessage } from '../services/messagingService';
 import { ChatBubbleIcon, RocketIcon } from './VibrantIcons';
 
 interface SendMessageModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentUser: User; // Needed for senderId and senderName
+  onSent?: () => void;
+  currentUser: User; // Used to prevent messaging yourself; the server resolves the sender
   lister: { id: string; fullName: string };
   listing: { id: string; roomDetails: RoomLocation, roomSummary: string };
 }
 
-const SendMessageModal: React.FC<SendMessageModalProps> = ({ isOpen, onClose, currentUser, lister, listing }) => {
+const SendMessageModal: React.FC<SendMessageModalProps> = ({ isOpen, onClose, onSent, currentUser, lister, listing }) => {
   const [messageText, setMessageText] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [isSending, setIsSending] = useState(false);
 
-  const handleSend = () => {
+  const handleSend = async () => {
     if (!messageText.trim()) {
       setError('Message cannot be empty.');
       return;
     }
+    if (lister.id === currentUser.id) {
+      setError('You cannot message yourself.');
+      return;
+    }
     setError('');
     setSuccess('');
     setIsSending(true);
 
     try {
-      saveMessage({
+      await sendMessage({
         listingId: listing.id,
         listingRoomSummary: listing.roomSummary,
-        senderId: currentUser.id,
-        // senderName: currentUser.fullName, // Will be added by saveMessage function from messagingService
         receiverId: lister.id,
-        // receiverName: lister.fullName, // Will be added by saveMessage function
         message: messageText,
-      }, currentUser.fullName, lister.fullName);
+      });
       
       setSuccess(`Message sent successfully to ${lister.fullName}!`);
       setMessageText('');
+      onSent?.();
       setTimeout(() => {
         onClose();
         setSuccess(''); // Clear success after modal closes
       }, 2000);
     } catch (e) {
       console.error("Failed to send message:", e);
-      setError('Failed to send message. Please try again.');
+      setError(e instanceof Error && e.message ? e.message : 'Failed to send message. Please try again.');
     } finally {
       setIsSending(false);
     }
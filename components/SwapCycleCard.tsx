@@ -0,0 +1,52 @@
+import React from 'react';
+import { SwapCycle } from '../types';
+import { Button } from './UIElements';
+import { HandshakeIcon } from './VibrantIcons';
+
+interface SwapCycleCardProps {
+  cycle: SwapCycle;
+  currentUserId: string;
+  isProposing?: boolean;
+  onPropose: (cycle: SwapCycle) => void;
+}
+
+const SwapCycleCard: React.FC<SwapCycleCardProps> = ({ cycle, currentUserId, isProposing = false, onPropose }) => {
+  const { listings } = cycle;
+
+  return (
+    <div className="bg-white/50 dark:bg-black/20 p-4 rounded-lg shadow-md border border-slate-300/40 dark:border-white/10 animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-3">
+        <p className="text-sm font-bold text-slate-800 dark:text-slate-100">
+          {listings.length === 2 ? 'Direct exchange' : `${listings.length}-way swap`}
+        </p>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => onPropose(cycle)}
+          isLoading={isProposing}
+          leftIcon={<HandshakeIcon className="w-4 h-4" />}
+        >
+          Propose to everyone
+        </Button>
+      </div>
+      <ol className="space-y-1.5 text-sm">
+        {listings.map((listing, index) => {
+          const next = listings[(index + 1) % listings.length];
+          const isCurrentUser = listing.listedBy.id === currentUserId;
+          return (
+            <li key={listing.id} className={`flex flex-wrap gap-x-1.5 ${isCurrentUser ? 'font-semibold text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300'}`}>
+              <span>{isCurrentUser ? 'You' : listing.listedBy.fullName}</span>
+              <span className="text-slate-500 dark:text-slate-400">({listing.roomDetails.hostel} {listing.roomDetails.block}/{listing.roomDetails.roomNumber})</span>
+              <span>→ moves into {next.listedBy.id === currentUserId ? 'your' : `${next.listedBy.fullName}'s`} room</span>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">
+        Nothing changes until every participant approves; then all rooms move at once.
+      </p>
+    </div>
+  );
+};
+
+export default SwapCycleCard;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Course, CourseSchedule, SessionType, SessionWeights, TimetableSlot } from '../types';
+import { createSlotId, DEFAULT_SESSION_WEIGHTS, SESSION_TYPES, validateSchedule, WEEKDAYS } from '../services/timetable';
+import { Alert, Button, Input, Modal, Select } from './UIElements';
+import { CalendarDaysIcon, PlusIcon, TrashIcon } from './VibrantIcons';
+
+interface TimetableEditorModalProps {
+  course: Course | null; // the modal is open while this is set
+  onClose: () => void;
+  onSave: (schedule: CourseSchedule | null) => void;
+  // Semester dates from another course, so they only have to be typed once
+  defaultTerm?: { startDate: string; endDate: string };
+}
+
+const newSlot = (previous?: TimetableSlot): TimetableSlot => ({
+  id: createSlotId(),
+  day: previous?.day || 'MO',
+  start: previous?.start || '09:00',
+  end: previous?.end || '10:00',
+  room: previous?.room,
+  type: previous?.type,
+});
+
+const toWeightDrafts = (weights?: Partial<SessionWeights>): Record<SessionType, string> => ({
+  lecture: String(weights?.lecture ?? DEFAULT_SESSION_WEIGHTS.lecture),
+  lab: String(weights?.lab ?? DEFAULT_SESSION_WEIGHTS.lab),
+  tutorial: String(weights?.tutorial ?? DEFAULT_SESSION_WEIGHTS.tutorial),
+});
+
+const TimetableEditorModal: React.FC<TimetableEditorModalProps> = ({ course, onClose, onSave, defaultTerm }) => {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [slots, setSlots] = useState<TimetableSlot[]>([]);
+  const [weights, setWeights] = useState<Record<SessionType, string>>(toWeightDrafts());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!course) return;
+    setStartDate(course.schedule?.startDate || defaultTerm?.startDate || '');
+    setEndDate(course.schedule?.endDate || defaultTerm?.endDate || '');
+    setSlots(course.schedule?.slots || [newSlot()]);
+    setWeights(toWeightDrafts(course.schedule?.weights));
+    setError('');
+  }, [course?.id]);
+
+  const updateSlot = (id: string, changes: Partial<TimetableSlot>) => {
+    setSlots(prev => prev.map(slot => slot.id === id ? { ...slot, ...changes } : slot));
+  };
+
+  // Weighting only matters once a course has more than one kind of class
+  const usedTypes = SESSION_TYPES.filter(type => slots.some(slot => (slot.type || 'lecture') === type.value));
+
+  const handleSave = () => {
+    // Only weights that differ from the default are stored
+    const customWeights: Partial<SessionWeights> = {};
+    SESSION_TYPES.forEach(({ value: type }) => {
+      const weight = Number(weights[type]);
+      if (weights[type].trim() && weight !== DEFAULT_SESSION_WEIGHTS[type]) customWeights[type] = weight;
+    });
+    const schedule: CourseSchedule = {
+      startDate,
+      endDate,
+      slots: slots.map(slot => ({ ...slot, room: slot.room?.trim() || undefined, type: slot.type === 'lecture' ? undefined : slot.type })),
+      weights: Object.keys(customWeights).length > 0 ? customWeights : undefined,
+    };
+    const problem = validateSchedule(schedule);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(schedule);
+  };
+
+  return (
+    <Modal
+      isOpen={!!course}
+      onClose={onClose}
+      title={<div className="flex items-center gap-2"><CalendarDaysIcon className="w-7 h-7" /><span>{course?.name} Timetable</span></div>}
+      size="xl"
+    >
+      <div className="space-y-5">
+        {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input label="Semester starts" type="date" value={startDate} max={endDate || undefined} onChange={(e) => setStartDate(e.target.value)} />
+          <Input label="Semester ends" type="date" value={endDate} min={startDate || undefined} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-slate-800 dark:text-slate-100">Weekly classes</h3>
+          {slots.map(slot => (
+            <div key={slot.id} className="grid grid-cols-2 sm:grid-cols-[1.3fr_1.1fr_1fr_1fr_1.2fr_auto] gap-2 items-end p-3 rounded-lg bg-slate-100/70 dark:bg-white/5">
+              <Select
+                label="Day"
+                value={slot.day}
+                onChange={(value) => updateSlot(slot.id, { day: value as TimetableSlot['day'] })}
+                options={WEEKDAYS.map(day => ({ value: day.value, label: day.label }))}
+              />
+              <Select
+                label="Type"
+                value={slot.type || 'lecture'}
+                onChange={(value) => updateSlot(slot.id, { type: value as SessionType })}
+                options={SESSION_TYPES.map(type => ({ value: type.value, label: type.label }))}
+              />
+              <Input label="Room" value={slot.room || ''} placeholder="e.g. VLTC 101" onChange={(e) => updateSlot(slot.id, { room: e.target.value })} />
+              <Input label="From" type="time" value={slot.start} onChange={(e) => updateSlot(slot.id, { start: e.target.value })} />
+              <Input label="To" type="time" value={slot.end} onChange={(e) => updateSlot(slot.id, { end: e.target.value })} />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSlots(prev => prev.filter(s => s.id !== slot.id))}
+                aria-label="Remove this class"
+                className="!p-2 text-red-500"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="secondary" size="sm" leftIcon={<PlusIcon className="w-4 h-4" />} onClick={() => setSlots(prev => [...prev, newSlot(prev[prev.length - 1])])}>
+            Add Class
+          </Button>
+        </div>
+
+        {usedTypes.length > 1 && (
+          <div className="space-y-3">
+            <div>
+              <h3 className="font-semibold text-slate-800 dark:text-slate-100">How much each class counts</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">For example, set labs to 2 if a lab counts as two classes towards attendance.</p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {usedTypes.map(type => (
+                <Input
+                  key={type.value}
+                  label={type.label}
+                  type="number"
+                  min={0.5}
+                  max={10}
+                  step={0.5}
+                  value={weights[type.value]}
+                  onChange={(e) => setWeights(prev => ({ ...prev, [type.value]: e.target.value }))}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-3 pt-2 border-t border-slate-200/80 dark:border-white/10">
+          {course?.schedule ? (
+            <Button variant="ghost" className="text-red-500" onClick={() => onSave(null)}>Remove Timetable</Button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <Button variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" onClick={handleSave}>Save Timetable</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default TimetableEditorModal;
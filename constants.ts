@@ -2,6 +2,9 @@ import { RoomListing, User, ExchangePreferences, RoomLocation, RoomType, FriendR
 
 export const MNIT_EMAIL_DOMAIN = 'mnit.ac.in';
 
+// Minimum attendance, in percent, to be allowed to sit end-semester exams
+export const MNIT_ATTENDANCE_THRESHOLD = 75;
+
 export const ALL_HOSTELS: Array<{ value: string, label: string, gender: 'Male' | 'Female' }> = [
     // Boys
     { value: 'H1 - Parijat', label: 'H1 - Parijat', gender: 'Male' },
@@ -44,6 +47,14 @@ export const getHostelGender = (hostelName: string): 'Male' | 'Female' | 'Unknow
   return hostel ? hostel.gender : 'Unknown';
 };
 
+// Room numbers start with the floor digit, e.g. 007 is on the ground floor and 201 on the second.
+// Undefined when the number doesn't say, or for floors FLOORS has no name for.
+export const getFloorOfRoom = (roomNumber: string): string | undefined => {
+  const digit = roomNumber.trim().match(/^\d/);
+  const floor = digit ? FLOORS[Number(digit[0])] : undefined;
+  return floor === 'Any' ? undefined : floor;
+};
+
 export const MOCK_USERS_DB: User[] = [
     {
         id: 'user-amit.verma',
@@ -141,7 +152,7 @@ export const MOCK_ROOM_LISTINGS: RoomListing[] = [
     roomDetails: { hostel: 'H2 - Chaitanya', block: 'C', roomNumber: '303', type: 'Double Shared' },
     listingType: 'Exchange',
     description: 'My room is on the top floor, very airy. Looking for an exchange within Chaitanya or Parijat.',
-    status: 'Closed',
+    status: 'Withdrawn',
     createdAt: new Date(Date.now() - 86400000 * 5).toISOString(),
     interestCount: 3,
   },
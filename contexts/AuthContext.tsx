@@ -1,6 +1,7 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode, useCallback } from 'react';
 import { User, AuthContextType, ExchangePreferences, RoomLocation } from '../types';
 import { api } from '../services/api';
+import { endpoints } from '../services/endpoints';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -10,7 +11,7 @@ export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ childre
 
   const fetchUser = useCallback(async () => {
     try {
-      const userData = await api.get<User>('/user/me');
+      const userData = await api.call(endpoints.user.me);
       setUser(userData);
     } catch (error) {
       console.log("No authenticated user found or session expired.");
@@ -27,7 +28,7 @@ export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ childre
   const login = useCallback(async (email: string, password: string): Promise<void> => {
     setLoading(true);
     try {
-      const response = await api.post<{ user: User }>('/auth/login', { email, password });
+      const response = await api.call(endpoints.auth.login, { body: { email, password } });
       setUser(response.user);
     } catch (error) {
       console.error("Login failed:", error);
@@ -44,7 +45,7 @@ export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ childre
   const register = useCallback(async (email: string, password: string, fullName: string, gender: User['gender'], whatsappNumber: string): Promise<void> => {
     setLoading(true);
     try {
-      const response = await api.post<{ user: User; autoLogin: boolean }>('/auth/register', { email, password, fullName, gender, whatsappNumber });
+      const response = await api.call(endpoints.auth.register, { body: { email, password, fullName, gender, whatsappNumber } });
       // If autoLogin is true, set the user immediately
       if (response.autoLogin && response.user) {
         setUser(response.user);
@@ -60,7 +61,7 @@ export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ childre
 
   const logout = useCallback(async () => {
     try {
-      await api.post('/auth/logout');
+      await api.call(endpoints.auth.logout);
     } catch (error) {
       console.error("Logout failed:", error);
     } finally {
@@ -69,12 +70,12 @@ export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ childre
   }, []);
   
   const updateUserPreferences = useCallback(async (prefs: ExchangePreferences) => {
-    const updatedUser = await api.patch<User>('/user/preferences', prefs);
+    const updatedUser = await api.call(endpoints.user.updatePreferences, { body: prefs });
     setUser(updatedUser);
   }, []);
 
   const updateUserDetails = useCallback(async (detailsToUpdate: Partial<Pick<User, 'fullName' | 'rollNumber' | 'phoneNumber' | 'whatsappNumber' | 'gender'>>) => {
-    const updatedUser = await api.patch<User>('/user/details', detailsToUpdate);
+    const updatedUser = await api.call(endpoints.user.updateDetails, { body: detailsToUpdate });
     setUser(updatedUser);
   }, []);
   
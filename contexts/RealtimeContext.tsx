@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { RealtimeEvent, RealtimeEventType, RealtimeConnectionState } from '../types';
+import { createRealtimeClient, RealtimeClient, RealtimeClientOptions } from '../services/realtimeService';
+import { useAuth } from './AuthContext';
+
+interface RealtimeContextType {
+  client: RealtimeClient | null;
+  connectionState: RealtimeConnectionState;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const RealtimeContextProvider: React.FC<{ children: ReactNode; options?: RealtimeClientOptions }> = ({ children, options }) => {
+  const { user } = useAuth();
+  const [client, setClient] = useState<RealtimeClient | null>(null);
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>('closed');
+  const userId = user?.id;
+
+  // One socket per signed-in session; the server authenticates it with the same cookie as the REST API.
+  useEffect(() => {
+    if (!userId) {
+      setClient(null);
+      setConnectionState('closed');
+      return;
+    }
+    const realtimeClient = createRealtimeClient(options);
+    const unsubscribeState = realtimeClient.onStateChange(setConnectionState);
+    realtimeClient.connect();
+    setClient(realtimeClient);
+    return () => {
+      unsubscribeState();
+      realtimeClient.disconnect();
+    };
+  }, [userId, options]);
+
+  return (
+    <RealtimeContext.Provider value={{ client, connectionState }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export const useRealtime = (): RealtimeContextType => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeContextProvider');
+  }
+  return context;
+};
+
+/**
+ * Subscribes a component to one realtime event type for as long as it is mounted.
+ * `fallbackPoll` runs every `pollIntervalMs` whenever pushes are unavailable.
+ */
+export const useRealtimeSubscription = <T extends RealtimeEventType>(
+  type: T,
+  handler: (event: Extract<RealtimeEvent, { type: T }>) => void,
+  fallbackPoll?: () => void,
+  pollIntervalMs = 5000
+): void => {
+  const { client } = useRealtime();
+  const handlerRef = useRef(handler);
+  const pollRef = useRef(fallbackPoll);
+  handlerRef.current = handler;
+  pollRef.current = fallbackPoll;
+  const hasFallback = !!fallbackPoll;
+
+  useEffect(() => {
+    const poll = () => pollRef.current?.();
+    if (!client) {
+      // No session socket (e.g. still authenticating), so poll directly
+      if (!hasFallback) return;
+      const intervalId = setInterval(poll, pollIntervalMs);
+      return () => clearInterval(intervalId);
+    }
+    return client.subscribe(
+      type,
+      event => handlerRef.current(event),
+      hasFallback ? { poll, intervalMs: pollIntervalMs } : undefined
+    );
+  }, [client, type, hasFallback, pollIntervalMs]);
+};
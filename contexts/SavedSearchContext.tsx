@@ -0,0 +1,137 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { ListingSearchFilters, RoomListing, SavedSearch } from '../types';
+import * as savedSearchService from '../services/savedSearchService';
+import { publishedAt, searchListings, visibleToUser } from '../services/listingService';
+import { isAbortError } from '../services/api';
+import { useAuth } from './AuthContext';
+import { useRealtimeSubscription } from './RealtimeContext';
+
+const LISTINGS_POLL_INTERVAL_MS = 60000;
+// Alerts only look at recent listings; anything older was posted before the last visit anyway
+const RECENT_LISTINGS_PAGE_SIZE = 50;
+
+interface SavedSearchContextType {
+  savedSearches: SavedSearch[];
+  newMatches: Record<string, RoomListing[]>; // by saved search id, newest first
+  newMatchCount: number; // distinct listings across all saved searches
+  saveSearch: (name: string, filters: ListingSearchFilters) => Promise<SavedSearch>;
+  deleteSearch: (savedSearchId: string) => Promise<void>;
+  setAlertsEnabled: (savedSearchId: string, enabled: boolean) => Promise<void>;
+  markSeen: (savedSearchId: string) => Promise<void>;
+}
+
+const SavedSearchContext = createContext<SavedSearchContextType | undefined>(undefined);
+
+/**
+ * Keeps the signed-in user's saved searches and the listings published since they last opened each one.
+ * New listings arrive over the realtime socket, with a periodic refetch while it is unavailable.
+ */
+export const SavedSearchContextProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [listings, setListings] = useState<RoomListing[]>([]);
+  const userId = user?.id;
+
+  const refreshListings = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const recent = await searchListings({ ...visibleToUser(user), sort: 'newest', pageSize: RECENT_LISTINGS_PAGE_SIZE }, signal);
+      setListings(recent.listings);
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Failed to refresh listings for saved search alerts:", error);
+    }
+  }, [userId, user?.gender]);
+
+  useEffect(() => {
+    setSavedSearches([]);
+    setListings([]);
+    if (!userId) return;
+    const controller = new AbortController();
+    savedSearchService.getSavedSearches(controller.signal)
+      .then(searches => {
+        setSavedSearches(searches);
+        // Only worth fetching listings when something could alert
+        if (searches.some(search => search.alertsEnabled)) refreshListings(controller.signal);
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error("Failed to load saved searches:", error);
+      });
+    return () => controller.abort();
+  }, [userId, refreshListings]);
+
+  const hasAlerts = savedSearches.some(search => search.alertsEnabled);
+
+  const upsertListing = ({ listing }: { listing: RoomListing }) =>
+    setListings(prev => [listing, ...prev.filter(existing => existing.id !== listing.id)]);
+
+  useRealtimeSubscription(
+    'listing:created',
+    upsertListing,
+    hasAlerts ? () => { refreshListings(); } : undefined,
+    LISTINGS_POLL_INTERVAL_MS
+  );
+  // New listings are created pending verification and only alert once approved
+  useRealtimeSubscription('listing:published', upsertListing);
+
+  const newMatches = useMemo(() => {
+    const matches: Record<string, RoomListing[]> = {};
+    if (!user) return matches;
+    savedSearches.forEach(search => {
+      matches[search.id] = listings
+        .filter(listing => savedSearchService.isNewMatchForSavedSearch(listing, search, user))
+        .sort((a, b) => new Date(publishedAt(b)).getTime() - new Date(publishedAt(a)).getTime());
+    });
+    return matches;
+  }, [savedSearches, listings, user]);
+
+  const newMatchCount = useMemo(
+    () => new Set(Object.values(newMatches).flat().map(listing => listing.id)).size,
+    [newMatches]
+  );
+
+  const replaceSearch = (updated: SavedSearch) => {
+    setSavedSearches(prev => prev.map(search => search.id === updated.id ? updated : search));
+  };
+
+  const saveSearch = useCallback(async (name: string, filters: ListingSearchFilters) => {
+    const created = await savedSearchService.createSavedSearch(name, filters);
+    setSavedSearches(prev => [...prev, created]);
+    if (listings.length === 0) refreshListings();
+    return created;
+  }, [listings.length, refreshListings]);
+
+  const deleteSearch = useCallback(async (savedSearchId: string) => {
+    await savedSearchService.deleteSavedSearch(savedSearchId);
+    setSavedSearches(prev => prev.filter(search => search.id !== savedSearchId));
+  }, []);
+
+  const setAlertsEnabled = useCallback(async (savedSearchId: string, enabled: boolean) => {
+    // Turning alerts back on shouldn't surface everything posted while they were off
+    const changes = enabled ? { alertsEnabled: true, lastSeenAt: new Date().toISOString() } : { alertsEnabled: false };
+    replaceSearch(await savedSearchService.updateSavedSearch(savedSearchId, changes));
+  }, []);
+
+  const markSeen = useCallback(async (savedSearchId: string) => {
+    const seenAt = new Date().toISOString();
+    // Clear the badge straight away; the server copy only matters after a reload
+    setSavedSearches(prev => prev.map(search => search.id === savedSearchId ? { ...search, lastSeenAt: seenAt } : search));
+    try {
+      replaceSearch(await savedSearchService.updateSavedSearch(savedSearchId, { lastSeenAt: seenAt }));
+    } catch (error) {
+      console.error("Failed to mark saved search as seen:", error);
+    }
+  }, []);
+
+  return (
+    <SavedSearchContext.Provider value={{ savedSearches, newMatches, newMatchCount, saveSearch, deleteSearch, setAlertsEnabled, markSeen }}>
+      {children}
+    </SavedSearchContext.Provider>
+  );
+};
+
+export const useSavedSearches = (): SavedSearchContextType => {
+  const context = useContext(SavedSearchContext);
+  if (context === undefined) {
+    throw new Error('useSavedSearches must be used within a SavedSearchContextProvider');
+  }
+  return context;
+};
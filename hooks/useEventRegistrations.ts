@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Event, EventRegistration, User } from '../types';
+import * as eventService from '../services/eventService';
+import { isAbortError } from '../services/api';
+import { useRealtimeSubscription } from '../contexts/RealtimeContext';
+
+type UpdateEvents = (update: (events: Event[]) => Event[]) => void;
+
+/**
+ * Undoes an optimistic change to `userId`'s place, applied to the event as it is now so any
+ * capacity or waitlist update pushed in the meantime is kept. `promoted` are the people the
+ * optimistic change moved off the waitlist.
+ */
+const revertPlace = (current: Event, before: Event, userId: string, promoted: string[] = []): Event => {
+  const registeredUsers = current.registeredUsers.filter(id => id !== userId && !promoted.includes(id));
+  const waitlist = current.waitlist.filter(id => id !== userId);
+  if (before.registeredUsers.includes(userId)) registeredUsers.push(userId);
+  const waitlistIndex = before.waitlist.indexOf(userId);
+  if (waitlistIndex !== -1) waitlist.splice(Math.min(waitlistIndex, waitlist.length), 0, userId);
+  const demoted = promoted.filter(id => current.registeredUsers.includes(id));
+  return { ...current, registeredUsers, waitlist: [...demoted, ...waitlist] };
+};
+
+/**
+ * The signed-in user's event registrations and waitlist places. Registering and unregistering
+ * update the page straight away and are put back if the server refuses.
+ */
+export const useEventRegistrations = (
+  user: User | null,
+  updateEvents: UpdateEvents,
+  onError: (message: string) => void
+) => {
+  const [registrations, setRegistrations] = useState<Map<string, EventRegistration>>(new Map());
+  const [isLoading, setIsLoading] = useState(!!user);
+  // One request per event at a time, so a double tap can't race itself
+  const pendingRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    setRegistrations(new Map());
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    setIsLoading(true);
+    eventService.getUserRegistrations(controller.signal)
+      .then(list => setRegistrations(new Map(list.map(registration => [registration.eventId, registration]))))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load event registrations:", err);
+        onError(err.message || 'Could not load your registrations.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [user?.id]);
+
+  const setEntry = (eventId: string, registration: EventRegistration | undefined) => {
+    setRegistrations(prev => {
+      const next = new Map(prev);
+      if (registration) next.set(eventId, registration); else next.delete(eventId);
+      return next;
+    });
+  };
+
+  const apply = (registration: EventRegistration) => {
+    if (!user) return;
+    setEntry(registration.eventId, registration);
+    updateEvents(prev => prev.map(event =>
+      event.id === registration.eventId ? eventService.withRegistration(event, user.id, registration.status) : event
+    ));
+  };
+
+  // Someone gave up their place and the server moved this user off the waitlist
+  useRealtimeSubscription('event:registration', ({ registration }) => apply(registration));
+
+  const register = async (event: Event) => {
+    if (!user) {
+      onError('You must be logged in to register for events.');
+      return;
+    }
+    if (pendingRef.current.has(event.id)) return;
+    pendingRef.current.add(event.id);
+
+    const previous = registrations.get(event.id);
+    const status = eventService.expectedRegistrationStatus(event);
+    apply({ eventId: event.id, status, waitlistPosition: status === 'waitlisted' ? event.waitlist.length + 1 : undefined });
+    try {
+      apply(await eventService.registerForEvent(event.id));
+    } catch (error: any) {
+      console.error("Failed to register for event:", error);
+      setEntry(event.id, previous);
+      updateEvents(prev => prev.map(e => e.id === event.id ? revertPlace(e, event, user.id) : e));
+      onError(error.message || 'Could not register you for this event.');
+    } finally {
+      pendingRef.current.delete(event.id);
+    }
+  };
+
+  const unregister = async (event: Event) => {
+    if (!user) return;
+    if (pendingRef.current.has(event.id)) return;
+    pendingRef.current.add(event.id);
+
+    const previous = registrations.get(event.id);
+    const promoted = eventService.withRegistration(event, user.id, null).registeredUsers.filter(id => !event.registeredUsers.includes(id));
+    setEntry(event.id, undefined);
+    updateEvents(prev => prev.map(e => e.id === event.id ? eventService.withRegistration(e, user.id, null) : e));
+    try {
+      await eventService.unregisterFromEvent(event.id);
+    } catch (error: any) {
+      console.error("Failed to cancel registration:", error);
+      setEntry(event.id, previous);
+      updateEvents(prev => prev.map(e => e.id === event.id ? revertPlace(e, event, user.id, promoted) : e));
+      onError(error.message || 'Could not cancel your registration for this event.');
+    } finally {
+      pendingRef.current.delete(event.id);
+    }
+  };
+
+  // Events with a confirmed place; waitlist entries are only in `registrations`
+  const registeredIds = useMemo(
+    () => new Set([...registrations.values()].filter(r => r.status === 'registered').map(r => r.eventId)),
+    [registrations]
+  );
+
+  return { registrations, registeredIds, isLoading, register, unregister };
+};
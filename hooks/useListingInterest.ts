@@ -0,0 +1,95 @@
+import { useRef } from 'react';
+import { RoomListing, ListingInterestSummary, User } from '../types';
+import { getHostelGender } from '../constants';
+import * as listingService from '../services/listingService';
+
+type UpdateListings = (update: (listings: RoomListing[]) => RoomListing[]) => void;
+
+const withInterest = (listing: RoomListing, interested: boolean): RoomListing => {
+  if (!!listing.interestedByMe === interested) return listing;
+  const change = interested ? 1 : -1;
+  return {
+    ...listing,
+    interestedByMe: interested,
+    interestCount: Math.max(0, (listing.interestCount || 0) + change),
+    recentInterestCount: listing.recentInterestCount === undefined ? undefined : Math.max(0, listing.recentInterestCount + change),
+  };
+};
+
+const withSummary = (listing: RoomListing, summary: ListingInterestSummary): RoomListing => {
+  // The server's total is authoritative; the windowed count only moves by our own change
+  const adjusted = withInterest(listing, summary.interested);
+  return { ...adjusted, interestCount: summary.interestCount };
+};
+
+/**
+ * Expressing and withdrawing interest on loaded listings. The card updates straight away and
+ * is corrected to the server's count once the request finishes, or put back if it fails.
+ */
+export const useListingInterest = (
+  user: User | null,
+  listings: RoomListing[],
+  updateListings: UpdateListings,
+  onError: (message: string) => void
+) => {
+  // One request per listing at a time, so double taps can't leave the count off by one
+  const pendingRef = useRef<Set<string>>(new Set());
+
+  const applyTo = (listingId: string, update: (listing: RoomListing) => RoomListing) => {
+    updateListings(prev => prev.map(listing => listing.id === listingId ? update(listing) : listing));
+  };
+
+  const handleExpressInterest = async (listingId: string, currentInterestStatus: boolean) => {
+    if (!user) {
+      onError("You must be logged in to express interest.");
+      return;
+    }
+
+    const targetListing = listings.find(l => l.id === listingId);
+    if (!targetListing) {
+      onError("Listing not found.");
+      return;
+    }
+
+    // Gender compatibility check for bidding/expressing interest
+    const listingHostelGender = getHostelGender(targetListing.roomDetails.hostel);
+    const listingOwnerGender = targetListing.listedBy.gender;
+
+    let isCompatible = false;
+    if (user.gender === 'Male' || user.gender === 'Female') {
+        if (listingHostelGender === user.gender) {
+            isCompatible = true;
+        } else if (listingHostelGender === 'Unknown' && listingOwnerGender === user.gender) {
+            isCompatible = true;
+        }
+    } else if (user.gender === 'Other') {
+        isCompatible = true;
+    }
+
+    if (!isCompatible) {
+      onError(`You cannot express interest in this room due to gender restrictions. (Your gender: ${user.gender}, Hostel/Lister policy).`);
+      console.warn(`Attempted to bid on incompatible listing: User ${user.id} (${user.gender}) on Listing ${listingId} (Hostel: ${listingHostelGender}, Lister: ${listingOwnerGender})`);
+      return;
+    }
+
+    if (pendingRef.current.has(listingId)) return;
+    pendingRef.current.add(listingId);
+
+    const interested = !currentInterestStatus;
+    applyTo(listingId, listing => withInterest(listing, interested));
+    try {
+      const summary = interested
+        ? await listingService.expressInterest(listingId)
+        : await listingService.withdrawInterest(listingId);
+      applyTo(listingId, listing => withSummary(listing, summary));
+    } catch (error: any) {
+      console.error("Failed to update interest:", error);
+      applyTo(listingId, listing => withInterest(listing, currentInterestStatus));
+      onError(error.message || 'Could not update your interest. Please try again.');
+    } finally {
+      pendingRef.current.delete(listingId);
+    }
+  };
+
+  return handleExpressInterest;
+};
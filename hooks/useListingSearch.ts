@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ListingSearchParams, RoomListing } from '../types';
+import { searchListings } from '../services/listingService';
+import { isAbortError } from '../services/api';
+
+interface ListingSearchState {
+  listings: RoomListing[];
+  total: number;
+  isLoading: boolean; // first page for the current params
+  isLoadingMore: boolean;
+  error: string;
+  hasMore: boolean;
+  loadMore: () => void;
+  // For optimistic edits to loaded listings, e.g. interest counts
+  updateListings: (update: (listings: RoomListing[]) => RoomListing[]) => void;
+}
+
+/**
+ * Runs a server-side listing search and accumulates pages as `loadMore` is called. Changing
+ * `params` starts again from the first page and cancels anything still in flight.
+ */
+export const useListingSearch = (params: ListingSearchParams): ListingSearchState => {
+  const [listings, setListings] = useState<RoomListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Params usually come from an object literal; compare by value so re-renders don't refetch
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError('');
+    searchListings({ ...JSON.parse(paramsKey), page: 1 }, controller.signal)
+      .then(result => {
+        setListings(result.listings);
+        setTotal(result.total);
+        setPage(1);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to search listings:", err);
+        setError(err.message || 'Could not load listings.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [paramsKey]);
+
+  const hasMore = listings.length < total;
+
+  const loadMore = useCallback(() => {
+    const controller = controllerRef.current;
+    if (!controller || isLoadingMore || !hasMore) return;
+    setIsLoadingMore(true);
+    searchListings({ ...JSON.parse(paramsKey), page: page + 1 }, controller.signal)
+      .then(result => {
+        // A listing can shift onto the next page if one was posted in between; skip the repeat
+        setListings(prev => [...prev, ...result.listings.filter(listing => !prev.some(existing => existing.id === listing.id))]);
+        setTotal(result.total);
+        setPage(result.page);
+        // Clears a message left by an earlier failed attempt
+        setError('');
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load more listings:", err);
+        setError(err.message || 'Could not load more listings.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingMore(false);
+      });
+  }, [paramsKey, page, hasMore, isLoadingMore]);
+
+  return { listings, total, isLoading, isLoadingMore, error, hasMore, loadMore, updateListings: setListings };
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CommonChatMessage, ReportedChatMessage } from '../types';
+import * as adminService from '../services/adminService';
+import { isAbortError } from '../services/api';
+import LoadingIndicator from '../components/LoadingIndicator';
+import { Alert, Button } from '../components/UIElements';
+import { ChatBubbleIcon } from '../components/VibrantIcons';
+
+const MessageContent: React.FC<{ message: CommonChatMessage }> = ({ message }) => {
+  switch (message.type) {
+    case 'text':
+      return <p className="text-slate-200 whitespace-pre-wrap">{message.content}</p>;
+    case 'image':
+      return <img src={message.imageUrl} alt="Reported upload" className="max-w-xs max-h-64 rounded-lg" />;
+    case 'poll':
+      return (
+        <div className="text-slate-200">
+          <p className="font-medium">Poll: {message.poll.question}</p>
+          <ul className="list-disc list-inside text-sm text-slate-400">
+            {message.poll.options.map((option, index) => <li key={index}>{option.text}</li>)}
+          </ul>
+        </div>
+      );
+  }
+};
+
+const AdminChatReportsPage: React.FC = () => {
+  const [reports, setReports] = useState<ReportedChatMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyMessageId, setBusyMessageId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    adminService.getChatReports(controller.signal)
+      .then(setReports)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load chat reports:", err);
+        setError(err.message || 'Could not load reported messages.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const resolve = async (messageId: string, action: (messageId: string) => Promise<void>, done: string) => {
+    setBusyMessageId(messageId);
+    setError('');
+    setSuccess('');
+    try {
+      await action(messageId);
+      setReports(prev => prev.filter(report => report.message.id !== messageId));
+      setSuccess(done);
+    } catch (err: any) {
+      console.error("Failed to resolve chat report:", err);
+      setError(err.message || 'Could not resolve the report.');
+    } finally {
+      setBusyMessageId(null);
+    }
+  };
+
+  if (isLoading) return <LoadingIndicator message="Loading reported messages..." />;
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-1 flex items-center justify-center gap-x-2">
+        <ChatBubbleIcon className="w-7 h-7" />
+        Reported Chat Messages
+      </h2>
+      <p className="text-center text-slate-700 dark:text-slate-300 mb-6">{reports.length} message{reports.length === 1 ? '' : 's'} waiting for review</p>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+      {reports.length === 0 ? (
+        <p className="text-center py-12 text-slate-600 dark:text-slate-400">No reported messages.</p>
+      ) : (
+        <ul className="space-y-4">
+          {reports.map(({ message, reports: messageReports, senderModeration }) => (
+            <li key={message.id} className="holo-card p-5 space-y-3">
+              <div className="flex flex-wrap justify-between gap-2">
+                <p className="font-semibold text-slate-100">
+                  {message.sender.name}
+                  <span className="ml-2 text-xs font-normal text-slate-400">{new Date(message.timestamp).toLocaleString()}</span>
+                  {senderModeration && senderModeration.status !== 'active' && (
+                    <span className="ml-2 text-xs font-semibold text-orange-300 capitalize">{senderModeration.status}</span>
+                  )}
+                </p>
+                <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-red-900/50 text-red-200">
+                  {messageReports.length} report{messageReports.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <MessageContent message={message} />
+              <ul className="text-sm text-slate-400 space-y-1 border-t border-white/10 pt-2">
+                {messageReports.map((report, index) => (
+                  <li key={index}>
+                    <span className="text-slate-300">{report.reporter.name}:</span> {report.reason}
+                    <span className="text-xs text-slate-500"> · {new Date(report.createdAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap justify-end items-center gap-3">
+                <Link to={`/admin/users?q=${encodeURIComponent(message.sender.name)}`} className="text-sm text-cyan-400 hover:underline mr-auto">
+                  Suspend or ban the sender
+                </Link>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => resolve(message.id, adminService.dismissChatReports, 'Reports dismissed; the message stays up.')}
+                  disabled={!!busyMessageId}
+                >
+                  Dismiss
+                </Button>
+                <Button
+                  size="sm"
+                  variant="danger"
+                  onClick={() => resolve(message.id, adminService.removeChatMessage, 'Message removed from the campus chat.')}
+                  isLoading={busyMessageId === message.id}
+                  disabled={!!busyMessageId && busyMessageId !== message.id}
+                >
+                  Remove Message
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdminChatReportsPage;
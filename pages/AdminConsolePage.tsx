@@ -0,0 +1,45 @@
+import React from 'react';
+import { NavLink, Outlet } from 'react-router-dom';
+import { CalendarDaysIcon, ChatBubbleIcon, CheckBadgeIcon, HomeIcon, KeyIcon, UsersIcon } from '../components/VibrantIcons';
+
+const SECTIONS = [
+  { path: 'verifications', label: 'Verifications', icon: <CheckBadgeIcon className="w-5 h-5" /> },
+  { path: 'events', label: 'Events', icon: <CalendarDaysIcon className="w-5 h-5" /> },
+  { path: 'listings', label: 'Listings', icon: <HomeIcon className="w-5 h-5" /> },
+  { path: 'users', label: 'Users', icon: <UsersIcon className="w-5 h-5" /> },
+  { path: 'chat-reports', label: 'Chat Reports', icon: <ChatBubbleIcon className="w-5 h-5" /> },
+];
+
+/**
+ * Shell for the /admin pages. The route is guarded by role, and the server checks the role
+ * again on every admin endpoint.
+ */
+const AdminConsolePage: React.FC = () => {
+  return (
+    <div className="max-w-7xl mx-auto p-4">
+      <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-6 flex items-center justify-center gap-x-2">
+        <KeyIcon className="w-9 h-9" />
+        Admin Console
+      </h1>
+      <nav className="flex flex-wrap justify-center gap-2 mb-8" aria-label="Admin sections">
+        {SECTIONS.map(section => (
+          <NavLink
+            key={section.path}
+            to={section.path}
+            className={({ isActive }) => `flex items-center gap-x-2 px-4 py-2 rounded-full text-sm font-semibold border transition-colors ${
+              isActive
+                ? 'border-cyan-400 bg-cyan-500/10 text-cyan-600 dark:text-cyan-300'
+                : 'border-slate-300/40 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:bg-black/5 dark:hover:bg-white/5'
+            }`}
+          >
+            {section.icon}
+            {section.label}
+          </NavLink>
+        ))}
+      </nav>
+      <Outlet />
+    </div>
+  );
+};
+
+export default AdminConsolePage;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Event, EventStatus } from '../types';
+import * as adminService from '../services/adminService';
+import { isAbortError } from '../services/api';
+import LoadingIndicator from '../components/LoadingIndicator';
+import { Alert, Button, Modal, Textarea } from '../components/UIElements';
+import { CalendarDaysIcon } from '../components/VibrantIcons';
+
+const STATUS_TABS: { value: EventStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const AdminEventsPage: React.FC = () => {
+  const [status, setStatus] = useState<EventStatus>('pending');
+  const [events, setEvents] = useState<Event[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Event | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setEvents([]);
+    adminService.getEventRequests(status, controller.signal)
+      .then(setEvents)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load event requests:", err);
+        setError(err.message || 'Could not load events.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [status]);
+
+  const review = async (event: Event, approve: boolean) => {
+    setBusyEventId(event.id);
+    setError('');
+    setSuccess('');
+    try {
+      if (approve) {
+        await adminService.approveEvent(event.id);
+      } else {
+        await adminService.rejectEvent(event.id, rejectReason);
+      }
+      // The event now belongs to another tab
+      setEvents(prev => prev.filter(e => e.id !== event.id));
+      setRejecting(null);
+      setSuccess(`${approve ? 'Approved' : 'Rejected'} "${event.name}".`);
+    } catch (err: any) {
+      console.error("Failed to review event:", err);
+      setError(err.message || 'Could not save the review.');
+    } finally {
+      setBusyEventId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-4 flex items-center justify-center gap-x-2">
+        <CalendarDaysIcon className="w-7 h-7" />
+        Event Requests
+      </h2>
+
+      <div className="flex justify-center gap-2 mb-6">
+        {STATUS_TABS.map(tab => (
+          <Button key={tab.value} size="sm" variant={status === tab.value ? 'primary' : 'ghost'} onClick={() => setStatus(tab.value)}>
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+      {isLoading ? (
+        <LoadingIndicator message="Loading events..." />
+      ) : events.length === 0 ? (
+        <p className="text-center py-12 text-slate-600 dark:text-slate-400">No {status} events.</p>
+      ) : (
+        <ul className="space-y-4">
+          {events.map(event => (
+            <li key={event.id} className="holo-card p-5 space-y-2">
+              <div className="flex flex-wrap justify-between gap-2">
+                <div>
+                  <h3 className="text-lg font-semibold text-slate-100">{event.name}</h3>
+                  <p className="text-sm text-slate-400">
+                    {event.organizer} · {new Date(event.dateTime).toLocaleString()} · {event.location}
+                    {event.capacity !== undefined && ` · ${event.capacity} places`}
+                  </p>
+                </div>
+                {event.submittedAt && <p className="text-xs text-slate-500">Submitted {new Date(event.submittedAt).toLocaleString()}</p>}
+              </div>
+              <p className="text-sm text-slate-300 whitespace-pre-wrap">{event.description}</p>
+              {event.registrationLink && (
+                <a href={event.registrationLink} target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline break-all">
+                  {event.registrationLink}
+                </a>
+              )}
+              {event.status === 'rejected' && event.reviewNote && <p className="text-sm text-red-300">Rejected: {event.reviewNote}</p>}
+              {event.status !== 'approved' && (
+                <div className="flex justify-end gap-3 pt-2">
+                  {event.status === 'pending' && (
+                    <Button size="sm" variant="danger" onClick={() => { setRejecting(event); setRejectReason(''); }} disabled={!!busyEventId}>Reject</Button>
+                  )}
+                  <Button size="sm" variant="primary" onClick={() => review(event, true)} isLoading={busyEventId === event.id && !rejecting}>
+                    Approve
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal isOpen={!!rejecting} onClose={() => setRejecting(null)} title={`Reject "${rejecting?.name ?? ''}"`} size="md">
+        <Textarea
+          label="Reason (sent to the organizer)"
+          rows={3}
+          value={rejectReason}
+          onChange={(e) => setRejectReason(e.target.value)}
+          maxLength={300}
+        />
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button variant="ghost" onClick={() => setRejecting(null)}>Cancel</Button>
+          <Button
+            variant="danger"
+            onClick={() => rejecting && review(rejecting, false)}
+            isLoading={!!rejecting && busyEventId === rejecting.id}
+            disabled={!rejectReason.trim()}
+          >
+            Reject Event
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default AdminEventsPage;
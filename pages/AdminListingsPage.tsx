@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { ListingStatus, RoomListing } from '../types';
+import * as adminService from '../services/adminService';
+import { isActiveListing } from '../services/listingService';
+import { isAbortError } from '../services/api';
+import { Alert, Button, Input, Modal, Select, Spinner, Textarea } from '../components/UIElements';
+import { HomeIcon, SearchIcon } from '../components/VibrantIcons';
+
+const STATUS_OPTIONS: { value: ListingStatus | ''; label: string }[] = [
+  { value: '', label: 'All statuses' },
+  { value: 'Open', label: 'Open' },
+  { value: 'Pending Verification', label: 'Pending Verification' },
+  { value: 'Matched', label: 'Matched' },
+  { value: 'Expired', label: 'Expired' },
+  { value: 'Withdrawn', label: 'Withdrawn' },
+];
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const AdminListingsPage: React.FC = () => {
+  const [text, setText] = useState('');
+  const [debouncedText, setDebouncedText] = useState('');
+  const [status, setStatus] = useState<ListingStatus | ''>('Open');
+  const [listings, setListings] = useState<RoomListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [takingDown, setTakingDown] = useState<RoomListing | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedText(text.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedText, status]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    adminService.searchAllListings({ text: debouncedText || undefined, status: status || undefined, page }, controller.signal)
+      .then(result => {
+        setListings(prev => page === 1 ? result.listings : [...prev, ...result.listings]);
+        setTotal(result.total);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load listings:", err);
+        setError(err.message || 'Could not load listings.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [debouncedText, status, page]);
+
+  const handleTakeDown = async () => {
+    if (!takingDown || !reason.trim()) return;
+    setIsSubmitting(true);
+    setError('');
+    setSuccess('');
+    try {
+      const updated = await adminService.takeDownListing(takingDown.id, reason);
+      setListings(prev => prev.map(listing => listing.id === updated.id ? updated : listing));
+      setSuccess(`Took down ${takingDown.listedBy.fullName}'s listing. They have been notified.`);
+      setTakingDown(null);
+    } catch (err: any) {
+      console.error("Failed to take down listing:", err);
+      setError(err.message || 'Could not take down the listing.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-4 flex items-center justify-center gap-x-2">
+        <HomeIcon className="w-7 h-7" />
+        Listings
+      </h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="sm:col-span-2">
+          <Input
+            label="Search"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Room, description or lister"
+            icon={<SearchIcon className="w-5 h-5" />}
+          />
+        </div>
+        <Select label="Status" value={status} onChange={(value) => setStatus(value as ListingStatus | '')} options={STATUS_OPTIONS} />
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">{total} listing{total === 1 ? '' : 's'}</p>
+      <ul className="space-y-3">
+        {listings.map(listing => (
+          <li key={listing.id} className="holo-card p-4 flex flex-wrap justify-between items-start gap-3">
+            <div className="min-w-0">
+              <p className="font-semibold text-slate-100">
+                {listing.roomDetails.hostel} {listing.roomDetails.block}/{listing.roomDetails.roomNumber} · {listing.roomDetails.type}
+              </p>
+              <p className="text-sm text-slate-400">
+                {listing.listedBy.fullName} ({listing.listedBy.rollNumber}) · {listing.listingType} · listed {new Date(listing.createdAt).toLocaleDateString()}
+              </p>
+              <p className="text-sm text-slate-300 mt-1 line-clamp-2">{listing.description}</p>
+              {listing.closure?.reason === 'TakenDown' && (
+                <p className="text-xs text-red-300 mt-1">Taken down{listing.closure.note ? `: ${listing.closure.note}` : ''}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-700/60 text-slate-200">{listing.status}</span>
+              {isActiveListing(listing) && (
+                <Button size="sm" variant="danger" onClick={() => { setTakingDown(listing); setReason(''); }}>Take Down</Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      ) : listings.length === 0 ? (
+        <p className="text-center py-12 text-slate-600 dark:text-slate-400">No listings match.</p>
+      ) : listings.length < total && (
+        <div className="flex justify-center mt-6">
+          <Button variant="secondary" onClick={() => setPage(p => p + 1)}>Load more</Button>
+        </div>
+      )}
+
+      <Modal isOpen={!!takingDown} onClose={() => setTakingDown(null)} title="Take Down Listing" size="md">
+        <p className="text-sm text-slate-700 dark:text-slate-300 mb-3">
+          The listing is withdrawn from search and any pending requests on it are closed. The lister sees your reason on their dashboard.
+        </p>
+        <Textarea label="Reason" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} maxLength={300} />
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button variant="ghost" onClick={() => setTakingDown(null)}>Cancel</Button>
+          <Button variant="danger" onClick={handleTakeDown} isLoading={isSubmitting} disabled={!reason.trim()}>Take Down</Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default AdminListingsPage;
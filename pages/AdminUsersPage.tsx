@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AccountStatus, User } from '../types';
+import * as adminService from '../services/adminService';
+import { isAbortError } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Alert, Button, Input, Modal, Select, Spinner, Textarea } from '../components/UIElements';
+import { SearchIcon, UsersIcon } from '../components/VibrantIcons';
+
+const STATUS_OPTIONS: { value: AccountStatus | ''; label: string }[] = [
+  { value: '', label: 'Everyone' },
+  { value: 'active', label: 'Active' },
+  { value: 'suspended', label: 'Suspended' },
+  { value: 'banned', label: 'Banned' },
+];
+
+const SUSPENSION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '3', label: '3 days' },
+  { value: '7', label: '1 week' },
+  { value: '30', label: '30 days' },
+];
+
+const statusClasses: { [key in AccountStatus]: string } = {
+  active: 'bg-green-900/50 text-green-200',
+  suspended: 'bg-orange-900/50 text-orange-200',
+  banned: 'bg-red-900/50 text-red-200',
+};
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+type ModerationAction = { type: 'suspend' | 'ban'; user: User };
+
+const AdminUsersPage: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  // Other admin pages link here with ?q= to look a student up
+  const [searchParams] = useSearchParams();
+  const [text, setText] = useState(searchParams.get('q') || '');
+  const [debouncedText, setDebouncedText] = useState(text);
+  const [status, setStatus] = useState<AccountStatus | ''>('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [action, setAction] = useState<ModerationAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [suspensionDays, setSuspensionDays] = useState('3');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedText(text), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    adminService.searchUsers(debouncedText, status || undefined, controller.signal)
+      .then(result => {
+        setUsers(result);
+        setError('');
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load users:", err);
+        setError(err.message || 'Could not load users.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [debouncedText, status]);
+
+  const openAction = (type: ModerationAction['type'], user: User) => {
+    setAction({ type, user });
+    setError('');
+    setReason('');
+    setSuspensionDays('3');
+  };
+
+  const closeAction = () => {
+    setAction(null);
+    setError('');
+  };
+
+  const runAction = async (user: User, request: () => Promise<User>, done: string) => {
+    setBusyUserId(user.id);
+    setError('');
+    setSuccess('');
+    try {
+      const updated = await request();
+      setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+      setAction(null);
+      setSuccess(done);
+    } catch (err: any) {
+      console.error("Failed to update account:", err);
+      setError(err.message || 'Could not update the account.');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!action || !reason.trim()) return;
+    const { type, user } = action;
+    if (type === 'suspend') {
+      const until = new Date(Date.now() + Number(suspensionDays) * 24 * 60 * 60 * 1000).toISOString();
+      runAction(user, () => adminService.suspendUser(user.id, reason, until), `Suspended ${user.fullName} until ${new Date(until).toLocaleString()}.`);
+    } else {
+      runAction(user, () => adminService.banUser(user.id, reason), `Banned ${user.fullName}.`);
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-4 flex items-center justify-center gap-x-2">
+        <UsersIcon className="w-7 h-7" />
+        Users
+      </h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="sm:col-span-2">
+          <Input
+            label="Search"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Name, email or roll number"
+            icon={<SearchIcon className="w-5 h-5" />}
+          />
+        </div>
+        <Select label="Account status" value={status} onChange={(value) => setStatus(value as AccountStatus | '')} options={STATUS_OPTIONS} />
+      </div>
+
+      {/* While a suspend or ban is open its error shows in the modal, which covers this */}
+      {error && !action && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      ) : users.length === 0 ? (
+        <p className="text-center py-12 text-slate-600 dark:text-slate-400">No users match.</p>
+      ) : (
+        <ul className="space-y-3">
+          {users.map(user => {
+            const accountStatus = adminService.effectiveAccountStatus(user);
+            // Admins are managed outside the app, and nobody should lock themselves out
+            const canModerate = user.role !== 'admin' && user.id !== currentUser?.id;
+            return (
+              <li key={user.id} className="holo-card p-4 flex flex-wrap justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="font-semibold text-slate-100">
+                    {user.fullName} {user.rollNumber && <span className="text-slate-400 font-normal">({user.rollNumber})</span>}
+                    {user.role === 'admin' && <span className="ml-2 text-xs text-cyan-300">admin</span>}
+                  </p>
+                  <p className="text-sm text-slate-400">{user.email}</p>
+                  {accountStatus !== 'active' && user.moderation && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      {user.moderation.reason || 'No reason recorded'}
+                      {accountStatus === 'suspended' && user.moderation.until && ` · until ${new Date(user.moderation.until).toLocaleString()}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full capitalize ${statusClasses[accountStatus]}`}>{accountStatus}</span>
+                  {canModerate && (accountStatus === 'active' ? (
+                    <>
+                      <Button size="sm" variant="secondary" onClick={() => openAction('suspend', user)} disabled={!!busyUserId}>Suspend</Button>
+                      <Button size="sm" variant="danger" onClick={() => openAction('ban', user)} disabled={!!busyUserId}>Ban</Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      isLoading={busyUserId === user.id}
+                      onClick={() => runAction(user, () => adminService.reinstateUser(user.id), `Reinstated ${user.fullName}.`)}
+                    >
+                      Reinstate
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={!!action}
+        onClose={closeAction}
+        title={action ? `${action.type === 'suspend' ? 'Suspend' : 'Ban'} ${action.user.fullName}` : ''}
+        size="md"
+      >
+        <p className="text-sm text-slate-700 dark:text-slate-300 mb-3">
+          {action?.type === 'suspend'
+            ? 'They can still sign in and read, but cannot post in chat, list rooms or send requests until the suspension ends.'
+            : 'They are signed out everywhere, cannot sign in again and their open listing is taken down.'}
+        </p>
+        <div className="space-y-4">
+          {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+          {action?.type === 'suspend' && (
+            <Select label="Suspend for" value={suspensionDays} onChange={setSuspensionDays} options={SUSPENSION_OPTIONS} />
+          )}
+          <Textarea label="Reason (shown to the student)" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} maxLength={300} />
+        </div>
+        <div className="mt-6 flex justify-end space-x-3">
+          <Button variant="ghost" onClick={closeAction}>Cancel</Button>
+          <Button variant="danger" onClick={handleConfirm} isLoading={!!action && busyUserId === action.user.id} disabled={!reason.trim()}>
+            {action?.type === 'suspend' ? 'Suspend' : 'Ban'}
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default AdminUsersPage;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { ProofReviewItem } from '../types';
+import * as adminService from '../services/adminService';
+import { isAbortError } from '../services/api';
+import LoadingIndicator from '../components/LoadingIndicator';
+import ProofViewer from '../components/ProofViewer';
+import { Alert, Button, Textarea } from '../components/UIElements';
+import { CheckBadgeIcon } from '../components/VibrantIcons';
+
+const QUICK_REJECT_REASONS = [
+  'The proof is unreadable. Please upload a clearer screenshot.',
+  'The room on the proof does not match the listing.',
+  'The proof does not show your name or roll number.',
+];
+
+const formatRoom = (room: { hostel: string; block: string; roomNumber: string }) =>
+  `${room.hostel} ${room.block ? `${room.block}/` : ''}${room.roomNumber}`;
+
+const AdminVerificationPage: React.FC = () => {
+  const [queue, setQueue] = useState<ProofReviewItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    adminService.getVerificationQueue(controller.signal)
+      .then(items => {
+        setQueue(items);
+        setSelectedId(items[0]?.listing.id || null);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to load verification queue:", err);
+        setError(err.message || 'Could not load the verification queue.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    setRejectReason('');
+  }, [selectedId]);
+
+  const selected = queue.find(item => item.listing.id === selectedId) || null;
+
+  const review = async (approve: boolean) => {
+    if (!selected) return;
+    if (!approve && !rejectReason.trim()) {
+      setError('Please give the student a reason so they can fix their proof.');
+      return;
+    }
+    setIsSubmitting(true);
+    setError('');
+    setSuccess('');
+    try {
+      if (approve) {
+        await adminService.approveAllotmentProof(selected.listing.id);
+      } else {
+        await adminService.rejectAllotmentProof(selected.listing.id, rejectReason);
+      }
+      // Move on to the next proof in the queue
+      const index = queue.findIndex(item => item.listing.id === selected.listing.id);
+      const remaining = queue.filter(item => item.listing.id !== selected.listing.id);
+      setQueue(remaining);
+      setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.listing.id || null);
+      setSuccess(`${approve ? 'Approved' : 'Rejected'} ${selected.lister.fullName}'s proof. They have been notified.`);
+    } catch (err: any) {
+      console.error("Failed to review allotment proof:", err);
+      setError(err.message || 'Could not save the review.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) return <LoadingIndicator message="Loading verification queue..." />;
+
+  const claimedRoom = selected?.listing.roomDetails;
+  const profileRoom = selected?.lister.currentRoom;
+  const roomsDiffer = !!claimedRoom && !!profileRoom && formatRoom(claimedRoom) !== formatRoom(profileRoom);
+
+  return (
+    <div>
+      <div className="text-center mb-6">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-1 flex items-center justify-center gap-x-2">
+          <CheckBadgeIcon className="w-7 h-7" />
+          Allotment Verification
+        </h2>
+        <p className="text-slate-700 dark:text-slate-300">{queue.length} proof{queue.length === 1 ? '' : 's'} waiting for review</p>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess('')} />}
+
+      {queue.length === 0 ? (
+        <div className="text-center py-12 bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-lg border border-white/20 dark:border-white/10">
+          <h3 className="text-xl font-medium text-slate-900 dark:text-white">All caught up</h3>
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">There are no allotment proofs waiting for review.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <ul className="space-y-2 lg:max-h-[75vh] lg:overflow-y-auto pr-1">
+            {queue.map(item => (
+              <li key={item.listing.id}>
+                <button
+                  onClick={() => setSelectedId(item.listing.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${item.listing.id === selectedId ? 'border-cyan-400 bg-cyan-500/10' : 'border-slate-300/40 dark:border-white/10 hover:bg-black/5 dark:hover:bg-white/5'}`}
+                >
+                  <p className="font-semibold text-slate-900 dark:text-white">{item.lister.fullName}</p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400">{formatRoom(item.listing.roomDetails)}</p>
+                  <p className="text-xs text-slate-500">
+                    Submitted {new Date(item.submittedAt).toLocaleString()}
+                    {item.listing.verification?.status === 'Rejected' && ' · resubmitted'}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && claimedRoom && (
+            <div className="lg:col-span-2 holo-card p-5 space-y-4">
+              <div className="grid sm:grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-slate-400">Student</p>
+                  <p className="font-medium text-slate-100">{selected.lister.fullName} ({selected.lister.rollNumber})</p>
+                  <p className="text-slate-400">{selected.lister.email}</p>
+                </div>
+                <div>
+                  <p className="text-slate-400">Room on listing</p>
+                  <p className="font-medium text-slate-100">{formatRoom(claimedRoom)} · {claimedRoom.type}</p>
+                  {profileRoom && (
+                    <p className={roomsDiffer ? 'text-orange-300' : 'text-slate-400'}>
+                      Profile says {formatRoom(profileRoom)}{roomsDiffer && ' (differs)'}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <ProofViewer source={selected.proof} title={`Allotment proof for ${formatRoom(claimedRoom)}`} />
+
+              <div className="space-y-2">
+                <Textarea
+                  label="Reason for rejecting (sent to the student)"
+                  rows={2}
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  maxLength={300}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {QUICK_REJECT_REASONS.map(reason => (
+                    <button
+                      key={reason}
+                      onClick={() => setRejectReason(reason)}
+                      className="text-xs px-2 py-1 rounded-full border border-slate-400/40 text-slate-300 hover:bg-white/10"
+                    >
+                      {reason}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="danger" onClick={() => review(false)} disabled={isSubmitting || !rejectReason.trim()}>Reject</Button>
+                <Button variant="primary" onClick={() => review(true)} isLoading={isSubmitting}>Approve</Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminVerificationPage;
@@ -1,17 +1,22 @@
 import React, { useState, useEffect, useMemo, FC, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Course } from '../types';
+import { Course, CourseSchedule, Holiday, AttendanceMutation, AttendanceMarkStatus, AttendanceRecord, SessionRef, SessionType } from '../types';
 import * as attendanceService from '../services/attendanceService';
-import { Button, Input, Modal, Alert } from '../components/UIElements';
-import { PlusIcon, TrashIcon, CheckBadgeIcon, ChartPieIcon, XMarkIcon } from '../components/VibrantIcons';
+import * as attendanceQueue from '../services/attendanceQueue';
+import * as timetable from '../services/timetable';
+import { isAbortError, isRetryableError } from '../services/api';
+import { Button, Input, Modal, Alert, Select } from '../components/UIElements';
+import { PlusIcon, TrashIcon, CheckBadgeIcon, ChartPieIcon, XMarkIcon, CalendarDaysIcon } from '../components/VibrantIcons';
 import { useNavigate } from 'react-router-dom';
+import { MNIT_ATTENDANCE_THRESHOLD } from '../constants';
 import LoadingIndicator from '../components/LoadingIndicator';
+import CalendarSyncModal from '../components/CalendarSyncModal';
+import TimetableEditorModal from '../components/TimetableEditorModal';
+import HolidaysModal from '../components/HolidaysModal';
 
 const COURSE_COLORS = ["#8B5CF6", "#EC4899", "#10B981", "#F59E0B", "#3B82F6", "#EF4444", "#6366F1", "#D946EF"];
 
-const toISODateString = (date: Date) => date.toISOString().split('T')[0];
-
-const HexagonGraph: FC<{ courses: Course[] }> = ({ courses }) => {
+const HexagonGraph: FC<{ courses: Course[]; holidayDates: Set<string> }> = ({ courses, holidayDates }) => {
     const size = 300;
     const center = size / 2;
     const radius = size * 0.4;
@@ -29,16 +34,13 @@ const HexagonGraph: FC<{ courses: Course[] }> = ({ courses }) => {
     const dataPoints = useMemo(() => {
         if (!Array.isArray(courses)) return [];
         return courses.slice(0, 6).map((course, i) => {
-            const attendedDays = course.attendedDays || [];
-            const missedDays = course.missedDays || [];
-            const totalTracked = attendedDays.length + missedDays.length;
-            const attendancePercentage = totalTracked > 0 ? (attendedDays.length / totalTracked) : 0;
+            const attendancePercentage = timetable.courseSessionStats(course, holidayDates).percentage / 100;
             const angle = Math.PI / 3 * i - Math.PI / 2;
             const x = center + radius * attendancePercentage * Math.cos(angle);
             const y = center + radius * attendancePercentage * Math.sin(angle);
             return { x, y, color: course.color || '#8B5CF6', id: course.id };
         });
-    }, [courses, center, radius]);
+    }, [courses, holidayDates, center, radius]);
     
     const pointsString = dataPoints.map(p => `${p.x},${p.y}`).join(' ');
 
@@ -87,15 +89,22 @@ const HexagonGraph: FC<{ courses: Course[] }> = ({ courses }) => {
     );
 };
 
+// Unmarked → attended → missed → unmarked
+const nextStatus = (record?: AttendanceRecord): AttendanceMarkStatus => {
+    if (!record) return 'attended';
+    return record.present ? 'missed' : 'clear';
+};
+
 const MonthlyCalendar: FC<{
   displayDate: Date;
-  attendedDays: Set<string>;
-  missedDays: Set<string>;
-  onDayClick: (date: string, status: 'attended' | 'missed' | 'clear') => void;
-  color: string;
-}> = ({ displayDate, attendedDays, missedDays, onDayClick, color }) => {
+  course: Course;
+  onMark: (date: string, session: SessionRef, type: SessionType, status: AttendanceMarkStatus) => void;
+  holidayDates: Set<string>;
+  holidayNames: Map<string, string>;
+}> = ({ displayDate, course, onMark, holidayDates, holidayNames }) => {
     const [animationKey, setAnimationKey] = useState(0);
     useEffect(() => { setAnimationKey(k => k + 1); }, [displayDate]);
+    const color = course.color || '#8B5CF6';
 
     const calendarGrid = useMemo(() => {
         const year = displayDate.getFullYear();
@@ -118,23 +127,7 @@ const MonthlyCalendar: FC<{
     }, [displayDate]);
 
     const today = new Date();
-    const todayString = toISODateString(today);
-
-    const handleInteraction = (dateString: string, isFuture: boolean) => {
-        if (isFuture) return;
-        
-        // Determine current status and cycle through: unmarked → attended → missed → unmarked
-        let newStatus: 'attended' | 'missed' | 'clear';
-        if (attendedDays.has(dateString)) {
-            newStatus = 'missed';
-        } else if (missedDays.has(dateString)) {
-            newStatus = 'clear';
-        } else {
-            newStatus = 'attended';
-        }
-        
-        onDayClick(dateString, newStatus);
-    };
+    const todayString = timetable.toDateKey(today);
 
     return (
         <div key={animationKey} className="animate-fade-in">
@@ -144,44 +137,67 @@ const MonthlyCalendar: FC<{
             <div className="grid grid-cols-7 gap-x-1 gap-y-2" style={{ perspective: '800px' }}>
                 {calendarGrid.flat().map((date, index) => {
                     if (!date) return <div key={`empty-${index}`} />;
-                    const dateString = toISODateString(date);
+                    const dateString = timetable.toDateKey(date);
                     const isFuture = date > today && dateString !== todayString;
                     const isToday = dateString === todayString;
-                    const isAttended = attendedDays.has(dateString);
-                    const isMissed = missedDays.has(dateString);
+                    const holidayName = holidayNames.get(dateString);
+                    const sessions = timetable.sessionsOn(course, dateString, holidayDates);
+                    const hasUnmarkedClass = sessions.some(session => session.slot && !session.record);
+                    // A day with no classes on record is still one cell, so an unscheduled class can be marked
+                    const segments: timetable.CourseSession[] = sessions.length > 0 ? sessions : [{ session: { extra: 1 }, type: 'lecture' }];
+                    const isSplit = segments.length > 1;
+                    const isMissed = !isSplit && segments[0].record?.present === false;
+
+                    let baseClass = "relative w-full aspect-square flex items-center justify-center transition-transform duration-300 ease-out rounded-full overflow-hidden group";
+                    let dayNumberClass = "absolute z-10 font-bold pointer-events-none";
 
-                    let baseClass = "relative w-full aspect-square flex items-center justify-center transition-transform duration-300 ease-out focus:outline-none rounded-full group";
-                    let innerClass = "absolute inset-0 rounded-full transition-all duration-300";
-                    let dayNumberClass = "z-10 font-bold";
-                    let style: React.CSSProperties = {};
-                    
                     if (isFuture) {
-                        baseClass += " cursor-not-allowed";
-                        innerClass += " bg-slate-800/50";
+                        baseClass += " bg-slate-800/50 cursor-not-allowed";
                         dayNumberClass += " text-slate-600";
                     } else {
-                        baseClass += " cursor-pointer [transform-style:preserve-3d] hover:scale-110 hover:[transform:rotateY(15deg)_rotateX(10deg)]";
-                        if (isAttended) {
-                            innerClass += " animate-pulse-glow-green";
-                            style = { '--glow-color': color, background: color } as React.CSSProperties;
-                            dayNumberClass += " text-white mix-blend-plus-lighter";
-                        } else if (isMissed) {
-                            innerClass += " animate-pulse-glow-red bg-red-900";
-                            dayNumberClass += " text-white/90";
-                        } else { 
-                            innerClass += ` bg-slate-700/70 relative overflow-hidden group-hover:bg-slate-600/70 after:content-[''] after:absolute after:top-0 after:left-0 after:w-full after:h-full after:bg-[linear-gradient(100deg,transparent,rgba(255,255,255,0.1),transparent)] after:translate-x-[-100%] after:animate-tilt-shimmer`;
-                            dayNumberClass += " text-slate-200";
-                        }
+                        baseClass += " [transform-style:preserve-3d] hover:scale-110 hover:[transform:rotateY(15deg)_rotateX(10deg)]";
+                        dayNumberClass += segments.some(segment => segment.record) ? " text-white" : " text-slate-200";
                     }
 
                     if (isToday) baseClass += ` ring-2 ring-offset-2 ring-offset-slate-900 ring-cyan-400`;
 
                     return (
-                        <button key={dateString} onClick={() => handleInteraction(dateString, isFuture)} className={baseClass} disabled={isFuture} aria-label={`Mark attendance for ${date.toDateString()}`}>
-                            <div className={innerClass} style={style}></div>
-                            {isMissed && <XMarkIcon className="w-6 h-6 z-20 text-white/80" />}
-                            <span className={dayNumberClass}>{date.getDate()}</span>
-                        </button>
+                        <div key={dateString} className={baseClass} title={holidayName}>
+                            {!isFuture && segments.map((segment, segmentIndex) => {
+                                const { record } = segment;
+                                let segmentClass = "h-full flex-1 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-cyan-300 transition-all duration-300";
+                                let style: React.CSSProperties = {};
+                                if (record?.present) {
+                                    segmentClass += " animate-pulse-glow-green";
+                                    style = { '--glow-color': color, background: color } as React.CSSProperties;
+                                } else if (record) {
+                                    segmentClass += " animate-pulse-glow-red bg-red-900";
+                                } else {
+                                    segmentClass += ` bg-slate-700/70 relative overflow-hidden hover:bg-slate-600/70 after:content-[''] after:absolute after:top-0 after:left-0 after:w-full after:h-full after:bg-[linear-gradient(100deg,transparent,rgba(255,255,255,0.1),transparent)] after:translate-x-[-100%] after:animate-tilt-shimmer`;
+                                }
+                                if (isSplit) segmentClass += " border-l border-slate-900 first:border-l-0";
+                                const label = [
+                                    isSplit && `class ${segmentIndex + 1}`,
+                                    segment.type !== 'lecture' && timetable.sessionTypeLabel(segment.type),
+                                    segment.slot && timetable.formatSlotTime(segment.slot.start),
+                                ].filter(Boolean).join(', ');
+                                return (
+                                    <button
+                                        key={segment.session.slotId ?? `extra-${segment.session.extra}`}
+                                        onClick={() => onMark(dateString, segment.session, segment.type, nextStatus(record))}
+                                        className={segmentClass}
+                                        style={style}
+                                        aria-label={`Mark attendance for ${date.toDateString()}${label && ` (${label})`}`}
+                                        title={[holidayName, label].filter(Boolean).join(' · ') || undefined}
+                                    />
+                                );
+                            })}
+                            {isMissed && <XMarkIcon className="absolute w-6 h-6 z-20 text-white/80 pointer-events-none" />}
+                            <span className={`${dayNumberClass} ${holidayName ? 'line-through decoration-amber-400/80' : ''}`}>{date.getDate()}</span>
+                            {hasUnmarkedClass && (isFuture || !isSplit) && (
+                                <span className={`absolute bottom-1 w-1.5 h-1.5 rounded-full z-20 pointer-events-none ${isFuture ? 'opacity-50' : ''}`} style={{ backgroundColor: color }} />
+                            )}
+                        </div>
                     );
                 })}
             </div>
@@ -189,6 +205,136 @@ const MonthlyCalendar: FC<{
     );
 };
 
+// Marks a class that isn't in the timetable, e.g. a make-up lecture or an extra lab
+const ExtraClassForm: FC<{
+  course: Course;
+  holidayDates: Set<string>;
+  onMark: (courseId: string, date: string, session: SessionRef, type: SessionType, status: AttendanceMarkStatus) => void;
+}> = ({ course, holidayDates, onMark }) => {
+    const [date, setDate] = useState('');
+    const [type, setType] = useState<SessionType>('lecture');
+
+    const handleAdd = (status: 'attended' | 'missed') => {
+        if (!date) return;
+        const session = timetable.nextExtraSession(timetable.sessionsOn(course, date, holidayDates));
+        onMark(course.id, date, session, type, status);
+        setDate('');
+    };
+
+    return (
+        <div className="mt-4 pt-4 border-t border-slate-600/60 space-y-2">
+            <p className="text-xs font-semibold text-cyan-300">Had a class that isn't in the timetable?</p>
+            <div className="grid grid-cols-2 sm:grid-cols-[1.3fr_1fr_auto_auto] gap-2 items-center">
+                <Input type="date" value={date} max={timetable.toDateKey(new Date())} onChange={(e) => setDate(e.target.value)} aria-label="Date of the extra class" className="bg-slate-800 border-cyan-500/30 text-white focus:border-cyan-500 focus:ring-cyan-500" />
+                <Select value={type} onChange={(value) => setType(value as SessionType)} options={timetable.SESSION_TYPES.map(t => ({ value: t.value, label: t.label }))} />
+                <Button size="sm" onClick={() => handleAdd('attended')} disabled={!date} className="bg-green-500/10 border border-green-500/60 text-green-300 hover:bg-green-500/30">Attended</Button>
+                <Button size="sm" onClick={() => handleAdd('missed')} disabled={!date} className="bg-red-500/10 border border-red-500/60 text-red-300 hover:bg-red-500/30">Missed</Button>
+            </div>
+        </div>
+    );
+};
+
+// e.g. "4 lectures or 2 labs"; a course with only lectures just says "classes"
+const describeCounts = (counts: timetable.ClassCounts): string => {
+    const entries = Object.entries(counts) as [SessionType, number][];
+    if (entries.length === 1 && entries[0][0] === 'lecture') return `${entries[0][1]} ${entries[0][1] === 1 ? 'class' : 'classes'}`;
+    return entries.map(([type, n]) => `${n} ${timetable.sessionTypeLabel(type).toLowerCase()}${n === 1 ? '' : 's'}`).join(' or ');
+};
+
+// One line on where a course is headed, e.g. "Can miss 3 classes this semester and stay at 75%"
+const describeOutlook = (outlook: timetable.AttendanceOutlook, threshold: number, hasTimetable: boolean): string => {
+    switch (outlook.kind) {
+        case 'safe': {
+            const counts = Object.entries(outlook.canMiss) as [SessionType, number][];
+            const missable = Object.fromEntries(counts.filter(([, count]) => count > 0));
+            // Types that count for more, like labs, may already be out of reach when lectures aren't
+            const notEvenOne = counts.filter(([, count]) => count === 0).map(([type]) => `a ${timetable.sessionTypeLabel(type).toLowerCase()}`);
+            if (Object.keys(missable).length === 0) return `Can't miss any more classes without dropping below ${threshold}%`;
+            const summary = `Can miss ${describeCounts(missable)} ${hasTimetable ? 'this semester' : 'now'} and stay at ${threshold}%`;
+            return notEvenOne.length > 0 ? `${summary}, but not ${notEvenOne.join(' or ')}` : summary;
+        }
+        case 'recover':
+            return `Attend the next ${describeCounts(outlook.mustAttend)} in a row to get back to ${threshold}%`;
+        case 'unreachable':
+            return `Can't reach ${threshold}% this semester; ${Math.floor(outlook.best)}% at best`;
+    }
+};
+
+interface CourseProjection {
+    stats: timetable.CourseSessionStats;
+    threshold: number;
+    outlook: timetable.AttendanceOutlook | null; // null until there is something to count
+}
+
+const TodaysClasses: FC<{
+  courses: Course[];
+  holidayDates: Set<string>;
+  holidayNames: Map<string, string>;
+  onMark: (courseId: string, date: string, session: SessionRef, type: SessionType, status: AttendanceMarkStatus) => void;
+}> = ({ courses, holidayDates, holidayNames, onMark }) => {
+    const today = timetable.toDateKey(new Date());
+    const sessions = timetable.classesOn(courses, today, holidayDates);
+    const holidayName = holidayNames.get(today);
+    const hasTimetable = courses.some(course => course.schedule);
+
+    let emptyMessage = 'No classes today.';
+    if (holidayName) emptyMessage = `No classes today: ${holidayName}.`;
+    else if (!hasTimetable) emptyMessage = 'Add a timetable to your courses to see today\'s classes here and mark them in one tap.';
+
+    return (
+        <div className="holo-card p-6">
+            <h2 className="text-xl font-semibold mb-4 text-cyan-300 flex items-center gap-2">
+                <CalendarDaysIcon className="w-6 h-6" /> Today's Classes
+                <span className="text-sm font-normal text-slate-400">{new Date().toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'short' })}</span>
+            </h2>
+            {sessions.length === 0 ? (
+                <p className="text-slate-400 text-sm">{emptyMessage}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {sessions.map(({ course, slot, date }) => {
+                        const session = { slotId: slot.id };
+                        const record = course.attendance.find(r => r.date === date && timetable.isSameSession(r.session, session));
+                        const isPresent = record?.present === true;
+                        const isAbsent = record?.present === false;
+                        const type = slot.type || 'lecture';
+                        return (
+                            <li key={`${course.id}-${slot.id}`} className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg bg-slate-800/60 border-l-4" style={{ borderColor: course.color }}>
+                                <div>
+                                    <p className="font-bold text-slate-100">
+                                        {course.name}
+                                        {type !== 'lecture' && <span className="ml-2 text-xs font-semibold text-cyan-300">{timetable.sessionTypeLabel(type)}</span>}
+                                    </p>
+                                    <p className="text-xs text-slate-400">
+                                        {timetable.formatSlotTime(slot.start)} – {timetable.formatSlotTime(slot.end)}{slot.room && ` · ${slot.room}`}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        size="sm"
+                                        onClick={() => onMark(course.id, date, session, type, isPresent ? 'clear' : 'attended')}
+                                        className={isPresent ? 'bg-green-500 text-white' : 'bg-green-500/10 border border-green-500/60 text-green-300 hover:bg-green-500/30'}
+                                        aria-pressed={isPresent}
+                                    >
+                                        Present
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        onClick={() => onMark(course.id, date, session, type, isAbsent ? 'clear' : 'missed')}
+                                        className={isAbsent ? 'bg-red-600 text-white' : 'bg-red-500/10 border border-red-500/60 text-red-300 hover:bg-red-500/30'}
+                                        aria-pressed={isAbsent}
+                                    >
+                                        Absent
+                                    </Button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 
 const AttendanceTrackerPage: FC = () => {
     const { user } = useAuth();
@@ -202,8 +348,16 @@ const AttendanceTrackerPage: FC = () => {
     const [displayedCourseIds, setDisplayedCourseIds] = useState<Set<string>>(new Set());
     const [courseToDelete, setCourseToDelete] = useState<Course | null>(null);
     const [deleteConfirmationText, setDeleteConfirmationText] = useState('');
+    const [pendingSyncCount, setPendingSyncCount] = useState(0);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [isHolidaysOpen, setIsHolidaysOpen] = useState(false);
+    const [timetableCourse, setTimetableCourse] = useState<Course | null>(null);
+    const [thresholdCourse, setThresholdCourse] = useState<Course | null>(null);
+    const [thresholdDraft, setThresholdDraft] = useState('');
+    const [offlineCopyAt, setOfflineCopyAt] = useState<string | null>(null); // set while showing courses saved on the device
 
-    const fetchCourses = useCallback(async () => {
+    const fetchCourses = useCallback(async (signal?: AbortSignal) => {
         if (!user) return;
         
         setIsLoading(true);
@@ -211,8 +365,25 @@ const AttendanceTrackerPage: FC = () => {
         
         try {
             console.log('🔍 Fetching courses for user:', user.id);
-            const courses = await attendanceService.getCourses();
-            console.log('📚 API response - courses:', courses);
+            let serverCourses: Course[];
+            try {
+                serverCourses = await attendanceService.getCourses(signal);
+                console.log('📚 API response - courses:', serverCourses);
+                attendanceQueue.saveCourseSnapshot(user.id, serverCourses);
+                setOfflineCopyAt(null);
+            } catch (error) {
+                // Offline or the server is down: carry on with the last list it sent, so marks can still be queued
+                const snapshot = isRetryableError(error) ? attendanceQueue.getCourseSnapshot(user.id) : null;
+                if (!snapshot) throw error;
+                console.warn('📴 Showing courses saved on this device:', error);
+                serverCourses = snapshot.courses;
+                setOfflineCopyAt(snapshot.savedAt);
+            }
+            
+            // Keep showing changes that are still waiting in the offline queue
+            const pending = await attendanceQueue.getPendingAttendanceMutations(user.id);
+            const courses = attendanceQueue.applyPendingMutations(serverCourses, pending);
+            setPendingSyncCount(pending.length);
             
             // Validate the response is an array
             if (!Array.isArray(courses)) {
@@ -241,8 +412,9 @@ const AttendanceTrackerPage: FC = () => {
                     id: course.id,
                     name: course.name,
                     color: course.color || COURSE_COLORS[index % COURSE_COLORS.length],
-                    attendedDays: Array.isArray(course.attendedDays) ? course.attendedDays : [],
-                    missedDays: Array.isArray(course.missedDays) ? course.missedDays : []
+                    attendance: Array.isArray(course.attendance) ? course.attendance : [],
+                    schedule: course.schedule,
+                    threshold: course.threshold
                 };
             });
             
@@ -261,6 +433,8 @@ const AttendanceTrackerPage: FC = () => {
             }
             
         } catch (error: any) {
+            // A newer fetch (or unmount) superseded this one
+            if (isAbortError(error)) return;
             console.error('❌ Failed to fetch courses:', error);
             
             // Enhanced error handling based on different error types
@@ -278,18 +452,20 @@ const AttendanceTrackerPage: FC = () => {
             }
             
             setError(errorMessage);
-            setCourses([]); // Reset to empty array on error
+            // A dropped connection says nothing about the courses, so keep what is on screen
+            if (!isRetryableError(error)) setCourses([]);
             
         } finally {
-            setIsLoading(false);
+            if (!signal?.aborted) setIsLoading(false);
         }
     }, [user, selectedCourseId, displayedCourseIds.size]);
     
     useEffect(() => {
         document.body.classList.add('futuristic-theme');
+        const controller = new AbortController();
         
         if (user) {
-            fetchCourses().catch(error => {
+            fetchCourses(controller.signal).catch(error => {
                 console.error('❌ Error in fetchCourses:', error);
                 // Error is already handled in fetchCourses
             });
@@ -304,22 +480,82 @@ const AttendanceTrackerPage: FC = () => {
             console.log('❌ Attendance Tracker: No user found, authentication required');
         }
         
-        return () => document.body.classList.remove('futuristic-theme');
+        return () => {
+            controller.abort();
+            document.body.classList.remove('futuristic-theme');
+        };
     }, [user, fetchCourses]);
 
+    useEffect(() => {
+        if (!user) return;
+        const controller = new AbortController();
+        attendanceService.getHolidays(controller.signal)
+            .then(setHolidays)
+            .catch(error => {
+                if (isAbortError(error)) return;
+                // Attendance still works without them; scheduled classes on holidays just count
+                console.error('❌ Failed to load holidays:', error);
+            });
+        return () => controller.abort();
+    }, [user]);
+
+    // Reconcile with what the server returned for replayed changes, then re-apply whatever is still queued
+    useEffect(() => {
+        return attendanceQueue.subscribeToAttendanceSync(result => {
+            const { replacedCourseIds, deletedCourseIds, syncedCourses, rejected, pending } = result;
+            const resolveId = (id: string) => replacedCourseIds[id] || id;
+
+            setPendingSyncCount(pending.length);
+            setCourses(prevCourses => {
+                const reconciled = prevCourses
+                    .map(course => ({ ...course, id: resolveId(course.id) }))
+                    .filter(course => !deletedCourseIds.includes(course.id))
+                    .map(course => syncedCourses.find(synced => synced.id === course.id) || course);
+                return attendanceQueue.applyPendingMutations(reconciled, pending);
+            });
+            setSelectedCourseId(prev => prev && resolveId(prev));
+            setDisplayedCourseIds(prev => new Set(Array.from(prev).map(resolveId)));
+
+            if (rejected.length > 0) {
+                setError(rejected.length === 1
+                    ? `A change could not be saved: ${rejected[0].message}`
+                    : `${rejected.length} changes could not be saved. The latest: ${rejected[rejected.length - 1].message}`);
+                // Drop the rejected optimistic state by reloading from the server
+                fetchCourses();
+            }
+        });
+    }, [fetchCourses]);
+
+    useEffect(() => {
+        if (!user) return;
+        return attendanceQueue.watchAttendanceQueue(user.id);
+    }, [user]);
+
+    // Changes are applied on screen immediately and queued; the queue sends them now or once back online
+    const queueChange = async (mutation: AttendanceMutation, rollback: () => void) => {
+        if (!user) return;
+        try {
+            // The pending count is updated by the sync listener once the first send attempt settles
+            await attendanceQueue.enqueueAttendanceMutation(user.id, mutation);
+        } catch (error: any) {
+            console.error('❌ Failed to queue attendance change:', error);
+            rollback();
+            setError(error.message || 'Could not save this change on your device.');
+        }
+    };
+
     const handleAddCourse = async () => {
         const courseName = newCourseName.trim();
         if (!courseName) return;
         
-        // Optimistic update - temporarily add course to UI
-        const tempId = `temp-${Date.now()}`;
+        // Optimistic update - add course to UI with a local id until the server assigns one
+        const tempId = attendanceQueue.createLocalCourseId();
         const newColor = COURSE_COLORS[courses.length % COURSE_COLORS.length];
         const optimisticCourse: Course = {
             id: tempId,
             name: courseName,
             color: newColor,
-            attendedDays: [],
-            missedDays: []
+            attendance: []
         };
         
         // Update UI immediately
@@ -332,68 +568,17 @@ const AttendanceTrackerPage: FC = () => {
         }
         setNewCourseName(''); // Clear input immediately
         
-        try {
-            console.log('➕ Creating course:', courseName);
-            const createdCourse = await attendanceService.addCourse(courseName, newColor);
-            console.log('✅ Course created successfully:', createdCourse);
-            
-            // Replace optimistic course with real course from server
-            setCourses(prev => prev.map(course => 
-                course.id === tempId ? createdCourse : course
-            ));
-            
-            // Update references to the new real ID
-            setDisplayedCourseIds(prev => {
-                const newIds = new Set(prev);
-                if (newIds.has(tempId)) {
-                    newIds.delete(tempId);
-                    newIds.add(createdCourse.id);
-                }
-                return newIds;
-            });
-            
-            if (selectedCourseId === tempId) {
-                setSelectedCourseId(createdCourse.id);
-            }
-            
-        } catch (error: any) {
-            console.error('❌ Failed to create course:', error);
-            
-            // Rollback optimistic update
+        console.log('➕ Creating course:', courseName);
+        await queueChange({ kind: 'addCourse', courseId: tempId, name: courseName, color: newColor }, () => {
             setCourses(prev => prev.filter(course => course.id !== tempId));
             setDisplayedCourseIds(prev => {
                 const newIds = new Set(prev);
                 newIds.delete(tempId);
                 return newIds;
             });
-            
-            if (selectedCourseId === tempId) {
-                setSelectedCourseId(courses.length > 0 ? courses[0].id : null);
-            }
-            
-            // Restore input value since creation failed
+            setSelectedCourseId(prev => prev === tempId ? null : prev);
             setNewCourseName(courseName);
-            
-            // Handle different error types
-            let errorMessage = 'Failed to create course';
-            
-            if (error.statusCode === 401) {
-                errorMessage = 'Authentication required. Please login again.';
-            } else if (error.statusCode === 403) {
-                errorMessage = 'Access denied. You may not have permission to create courses.';
-            } else if (error.statusCode === 409) {
-                errorMessage = `Course name "${courseName}" already exists. Please choose a different name.`;
-            } else if (error.statusCode === 400) {
-                errorMessage = error.message || 'Invalid course data provided.';
-            } else if (error.statusCode >= 500) {
-                errorMessage = 'Server error. Please try again.';
-            } else if (error.message) {
-                errorMessage = error.message;
-            }
-            
-            console.log(`💡 User-friendly error message: "${errorMessage}"`);
-            setError(errorMessage);
-        }
+        });
     };
     
     const confirmDeleteCourse = async () => {
@@ -422,117 +607,90 @@ const AttendanceTrackerPage: FC = () => {
         setCourseToDelete(null);
         setDeleteConfirmationText('');
         
-        try {
-            console.log('🗑️ Deleting course:', courseToDeleteId);
-            await attendanceService.deleteCourse(courseToDeleteId);
-            console.log('✅ Course deleted successfully');
-            
-            // Success - optimistic update was correct, no need to change anything
-            
-        } catch (error: any) {
-            console.error('❌ Failed to delete course:', error);
-            
-            // Rollback optimistic update
+        console.log('🗑️ Deleting course:', courseToDeleteId);
+        await queueChange({ kind: 'deleteCourse', courseId: courseToDeleteId }, () => {
             setCourses(originalCourses);
             setDisplayedCourseIds(originalDisplayedCourseIds);
             setSelectedCourseId(originalSelectedCourseId);
-            
-            // Handle different error types
-            let errorMessage = 'Failed to delete course';
-            if (error.statusCode === 401) {
-                errorMessage = 'Authentication required. Please login again.';
-            } else if (error.statusCode === 403) {
-                errorMessage = 'Access denied. You may not have permission to delete courses.';
-            } else if (error.statusCode === 404) {
-                errorMessage = 'Course not found. It may have already been deleted.';
-            } else if (error.statusCode >= 500) {
-                errorMessage = 'Server error. Please try again.';
-            } else if (error.message) {
-                errorMessage = error.message;
-            }
-            
-            setError(errorMessage);
-        }
+        });
     };
 
-    const handleDayInteraction = async (dateString: string, status: 'attended' | 'missed' | 'clear') => {
-        if (!selectedCourseId) return;
+    const handleMark = async (courseId: string, dateString: string, session: SessionRef, type: SessionType, status: AttendanceMarkStatus) => {
+        const currentCourse = courses.find(c => c.id === courseId);
+        if (!currentCourse) return;
         
-        const courseIndex = courses.findIndex(c => c.id === selectedCourseId);
-        if (courseIndex === -1) return;
-        
-        const currentCourse = courses[courseIndex];
+        const mutation: AttendanceMutation = { kind: 'markAttendance', courseId, date: dateString, session, type, status };
         
         // Optimistic update - immediately update UI
-        const updatedCourse: Course = {
-            ...currentCourse,
-            attendedDays: [...currentCourse.attendedDays],
-            missedDays: [...currentCourse.missedDays]
-        };
-        
-        // Apply the change optimistically
-        if (status === 'attended') {
-            updatedCourse.attendedDays = [...updatedCourse.attendedDays.filter(d => d !== dateString), dateString];
-            updatedCourse.missedDays = updatedCourse.missedDays.filter(d => d !== dateString);
-        } else if (status === 'missed') {
-            updatedCourse.missedDays = [...updatedCourse.missedDays.filter(d => d !== dateString), dateString];
-            updatedCourse.attendedDays = updatedCourse.attendedDays.filter(d => d !== dateString);
-        } else { // clear
-            updatedCourse.attendedDays = updatedCourse.attendedDays.filter(d => d !== dateString);
-            updatedCourse.missedDays = updatedCourse.missedDays.filter(d => d !== dateString);
-        }
-        
-        // Update UI immediately
-        setCourses(prevCourses => 
-            prevCourses.map(course => 
-                course.id === selectedCourseId ? updatedCourse : course
-            )
-        );
+        setCourses(prevCourses => attendanceQueue.applyPendingMutations(prevCourses, [mutation]));
         
-        try {
-            console.log('📅 Marking attendance:', {
-                courseId: selectedCourseId,
-                date: dateString,
-                status: status
-            });
-            
-            const serverUpdatedCourse = await attendanceService.markAttendance(selectedCourseId, dateString, status);
-            console.log('✅ Attendance marked successfully:', serverUpdatedCourse);
-            
-            // Replace optimistic update with server response
-            setCourses(prevCourses => 
-                prevCourses.map(course => 
-                    course.id === selectedCourseId ? serverUpdatedCourse : course
-                )
-            );
-            
-        } catch (error: any) {
-            console.error('❌ Failed to mark attendance:', error);
-            
-            // Rollback optimistic update
+        console.log('📅 Marking attendance:', {
+            courseId,
+            date: dateString,
+            session,
+            status: status
+        });
+        await queueChange(mutation, () => {
             setCourses(prevCourses => 
                 prevCourses.map(course => 
-                    course.id === selectedCourseId ? currentCourse : course
+                    course.id === currentCourse.id ? currentCourse : course
                 )
             );
-            
-            // Handle different error types
-            let errorMessage = 'Failed to mark attendance';
-            if (error.statusCode === 401) {
-                errorMessage = 'Authentication required. Please login again.';
-            } else if (error.statusCode === 403) {
-                errorMessage = 'Access denied. You may not have permission to modify attendance.';
-            } else if (error.statusCode === 404) {
-                errorMessage = 'Course not found. It may have been deleted.';
-            } else if (error.statusCode >= 500) {
-                errorMessage = 'Server error. Please try again.';
-            } else if (error.message) {
-                errorMessage = error.message;
-            }
-            
-            setError(errorMessage);
-        }
+        });
+    };
+
+    const handleSaveSchedule = async (schedule: CourseSchedule | null) => {
+        const course = timetableCourse;
+        if (!course) return;
+        setTimetableCourse(null);
+
+        const mutation: AttendanceMutation = { kind: 'setSchedule', courseId: course.id, schedule };
+        setCourses(prevCourses => attendanceQueue.applyPendingMutations(prevCourses, [mutation]));
+        await queueChange(mutation, () => {
+            setCourses(prevCourses => prevCourses.map(c => c.id === course.id ? { ...c, schedule: course.schedule } : c));
+        });
+    };
+
+    const openThreshold = (course: Course) => {
+        setThresholdCourse(course);
+        setThresholdDraft(String(course.threshold ?? MNIT_ATTENDANCE_THRESHOLD));
+    };
+
+    const handleSaveThreshold = async () => {
+        const course = thresholdCourse;
+        const threshold = Number(thresholdDraft);
+        if (!course || !Number.isInteger(threshold) || threshold < 1 || threshold > 100) return;
+        setThresholdCourse(null);
+
+        const mutation: AttendanceMutation = { kind: 'setThreshold', courseId: course.id, threshold };
+        setCourses(prevCourses => attendanceQueue.applyPendingMutations(prevCourses, [mutation]));
+        await queueChange(mutation, () => {
+            setCourses(prevCourses => prevCourses.map(c => c.id === course.id ? { ...c, threshold: course.threshold } : c));
+        });
+    };
+
+    const handleSaveHolidays = async (next: Holiday[]) => {
+        setHolidays(await attendanceService.saveHolidays(next));
     };
+
+    const holidayNames = useMemo(() => new Map(holidays.map(h => [h.date, h.name])), [holidays]);
+    const holidayDates = useMemo(() => new Set(holidayNames.keys()), [holidayNames]);
+    // Lets a new timetable start from the semester dates already entered for another course
+    const defaultTerm = courses.find(course => course.schedule)?.schedule;
+
+    const projections = useMemo(() => new Map<string, CourseProjection>(courses.map(course => {
+        const stats = timetable.courseSessionStats(course, holidayDates);
+        const threshold = course.threshold ?? MNIT_ATTENDANCE_THRESHOLD;
+        const hasSomethingToCount = stats.held + stats.remaining > 0;
+        const outlook = hasSomethingToCount ? timetable.attendanceOutlook(course, stats, threshold) : null;
+        return [course.id, { stats, threshold, outlook }];
+    })), [courses, holidayDates]);
+
+    const atRiskCourses = courses.filter(course => {
+        const outlook = projections.get(course.id)?.outlook;
+        return outlook && timetable.isAtRisk(outlook);
+    });
+    const isThresholdValid = /^\d+$/.test(thresholdDraft) && Number(thresholdDraft) >= 1 && Number(thresholdDraft) <= 100;
     
     const selectedCourse = useMemo(() => {
         if (!Array.isArray(courses) || courses.length === 0) return null;
@@ -555,6 +713,17 @@ const AttendanceTrackerPage: FC = () => {
     return (
         <div className="space-y-8 animate-fade-in">
             {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+            {offlineCopyAt && (
+                <Alert type="warning" message={`Couldn't reach the server, so these are your courses as of ${new Date(offlineCopyAt).toLocaleString()}. Marks you make now will sync when you're back online.`} />
+            )}
+            {pendingSyncCount > 0 && (
+                <div className="flex items-center justify-center gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/40 text-amber-200 text-sm">
+                    <span>⏳</span>
+                    <span>
+                        {pendingSyncCount} {pendingSyncCount === 1 ? 'change is' : 'changes are'} saved on this device and will sync when you're back online.
+                    </span>
+                </div>
+            )}
             {courseToDelete && (
                  <Modal isOpen={!!courseToDelete} onClose={() => { setCourseToDelete(null); setDeleteConfirmationText(''); }} title={<div className="flex items-center gap-2 text-red-500"><TrashIcon className="w-7 h-7" /><span>Confirm Deletion</span></div>} size="md">
                     <>
@@ -586,9 +755,59 @@ const AttendanceTrackerPage: FC = () => {
             <h1 className="text-3xl font-bold text-cyan-300 tracking-wider text-center flex items-center justify-center gap-3" style={{textShadow: '0 0 8px rgba(0,255,255,0.7)'}}>
                 <CheckBadgeIcon className="w-9 h-9" /> ATTENDANCE TRACKER
             </h1>
+            <div className="flex justify-center -mt-4">
+                <Button size="sm" variant="ghost" onClick={() => setIsCalendarOpen(true)} className="text-cyan-300">Sync classes to your calendar</Button>
+            </div>
+            <CalendarSyncModal isOpen={isCalendarOpen} onClose={() => setIsCalendarOpen(false)} courses={courses} holidays={holidays} />
+            <TimetableEditorModal course={timetableCourse} onClose={() => setTimetableCourse(null)} onSave={handleSaveSchedule} defaultTerm={defaultTerm} />
+            <HolidaysModal isOpen={isHolidaysOpen} onClose={() => setIsHolidaysOpen(false)} holidays={holidays} onSave={handleSaveHolidays} />
+            <Modal isOpen={!!thresholdCourse} onClose={() => setThresholdCourse(null)} title={`${thresholdCourse?.name} Attendance Requirement`} size="sm">
+                <form onSubmit={(e) => { e.preventDefault(); handleSaveThreshold(); }} className="space-y-4">
+                    <p className="text-sm text-slate-400">
+                        The minimum attendance this course needs. Most courses at MNIT need {MNIT_ATTENDANCE_THRESHOLD}%.
+                    </p>
+                    <Input
+                        label="Minimum attendance (%)"
+                        type="number"
+                        min={1}
+                        max={100}
+                        step={1}
+                        value={thresholdDraft}
+                        onChange={(e) => setThresholdDraft(e.target.value)}
+                        error={thresholdDraft && !isThresholdValid ? 'Enter a whole number from 1 to 100.' : undefined}
+                    />
+                    <div className="flex justify-end gap-3">
+                        <Button type="button" variant="ghost" onClick={() => setThresholdCourse(null)}>Cancel</Button>
+                        <Button type="submit" disabled={!isThresholdValid}>Save</Button>
+                    </div>
+                </form>
+            </Modal>
+
+            {atRiskCourses.length > 0 && (
+                <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/50 text-red-200 text-sm space-y-2" role="alert">
+                    <p className="font-semibold text-red-300">⚠️ {atRiskCourses.length === 1 ? 'One course is' : `${atRiskCourses.length} courses are`} at risk of falling short on attendance</p>
+                    <ul className="space-y-1">
+                        {atRiskCourses.map(course => {
+                            const { threshold, outlook } = projections.get(course.id)!;
+                            return (
+                                <li key={course.id}>
+                                    <span className="font-bold" style={{ color: course.color }}>{course.name}</span>: {describeOutlook(outlook!, threshold, !!course.schedule)}.
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+
+            <TodaysClasses courses={courses} holidayDates={holidayDates} holidayNames={holidayNames} onMark={handleMark} />
 
             <div className="holo-card p-6">
-                <h2 className="text-xl font-semibold mb-4 text-cyan-300">Your Courses</h2>
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold text-cyan-300">Your Courses</h2>
+                    <Button size="sm" variant="ghost" onClick={() => setIsHolidaysOpen(true)} className="text-cyan-300">
+                        Holidays{holidays.length > 0 && ` (${holidays.length})`}
+                    </Button>
+                </div>
                 <div className="flex flex-col sm:flex-row gap-2 mb-4">
                     <Input placeholder="New course name..." value={newCourseName} onChange={(e) => setNewCourseName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleAddCourse()} className="bg-slate-800 border-cyan-500/30 text-white focus:border-cyan-500 focus:ring-cyan-500" />
                     <Button onClick={handleAddCourse} disabled={!newCourseName.trim()} leftIcon={<PlusIcon />} className="bg-cyan-500/20 border border-cyan-500 text-cyan-200 hover:bg-cyan-500/40">Add</Button>
@@ -605,22 +824,36 @@ const AttendanceTrackerPage: FC = () => {
                         </div>
                     ) : (
                         courses.map(course => {
-                            const attendedDays = course.attendedDays || [];
-                            const missedDays = course.missedDays || [];
-                            const totalTracked = attendedDays.length + missedDays.length;
-                            const attended = attendedDays.length;
-                            const percentage = totalTracked > 0 ? Math.round((attended / totalTracked) * 100) : 0;
+                            const { stats, threshold, outlook } = projections.get(course.id)!;
+                            const isBelow = stats.held > 0 && stats.percentage < threshold;
+                            const percentage = Math.round(stats.percentage);
                             const isSelected = selectedCourseId === course.id;
                             return (
                                 <div key={course.id} onClick={() => setSelectedCourseId(course.id)} className={`relative overflow-hidden p-4 rounded-lg cursor-pointer transition-all duration-300 border-l-4 group ${isSelected ? 'bg-cyan-500/20 shadow-lg' : 'bg-slate-800/60 hover:bg-slate-700/60'}`} style={{ borderColor: isSelected ? course.color : 'transparent', '--course-glow-color': course.color } as React.CSSProperties}>
                                     {isSelected && <div className="absolute top-0 left-0 w-full h-full animate-light-sweep bg-transparent after:content-[''] after:absolute after:top-0 after:left-0 after:w-1/2 after:h-full after:bg-gradient-to-r after:from-transparent after:via-white/20 after:to-transparent after:-translate-x-full after:animate-light-sweep" />}
                                     <div className="flex justify-between items-center">
                                         <div className="flex items-center gap-4"><div className="w-3 h-3 rounded-full" style={{ backgroundColor: course.color, boxShadow: `0 0 8px ${course.color}` }}></div><span className="font-bold text-slate-100">{course.name}</span></div>
-                                        <button onClick={(e) => { e.stopPropagation(); setCourseToDelete(course); }} className="text-slate-500 hover:text-red-500 transition-colors p-1 rounded-full hover:bg-red-500/10 z-10"><TrashIcon className="w-4 h-4" /></button>
+                                        <div className="flex items-center gap-1 z-10">
+                                            <button onClick={(e) => { e.stopPropagation(); setTimetableCourse(course); }} className={`transition-colors p-1 rounded-full hover:bg-cyan-500/10 ${course.schedule ? 'text-cyan-400 hover:text-cyan-200' : 'text-slate-500 hover:text-cyan-300'}`} title={course.schedule ? 'Edit timetable' : 'Add timetable'} aria-label={`Timetable for ${course.name}`}><CalendarDaysIcon className="w-4 h-4" /></button>
+                                            <button onClick={(e) => { e.stopPropagation(); setCourseToDelete(course); }} className="text-slate-500 hover:text-red-500 transition-colors p-1 rounded-full hover:bg-red-500/10"><TrashIcon className="w-4 h-4" /></button>
+                                        </div>
                                     </div>
                                     <div className="flex items-center gap-3 mt-2">
                                         <div className="w-full bg-slate-700 rounded-full h-2.5"><div className="h-2.5 rounded-full transition-all duration-500 ease-out" style={{ width: `${percentage}%`, backgroundColor: course.color,  boxShadow: `0 0 8px ${course.color}90` }}></div></div>
-                                        <span className="text-lg font-black text-slate-200 w-16 text-right">{percentage}%</span>
+                                        <span className={`text-lg font-black w-16 text-right ${isBelow ? 'text-red-400' : 'text-slate-200'}`}>{percentage}%</span>
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-1">
+                                        {timetable.formatClassCount(stats.attended)}/{timetable.formatClassCount(stats.held)} classes
+                                        {stats.unmarked > 0 && <span className="text-amber-300"> · {timetable.formatClassCount(stats.unmarked)} not marked, counted as absent</span>}
+                                        {course.schedule ? ` · ${timetable.formatClassCount(stats.remaining)} left this semester` : ' · no timetable'}
+                                    </p>
+                                    <div className="flex items-center justify-between gap-2 mt-1">
+                                        <p className={`text-xs ${outlook && timetable.isAtRisk(outlook) ? 'text-red-300' : 'text-cyan-200/80'}`}>
+                                            {outlook && describeOutlook(outlook, threshold, !!course.schedule)}
+                                        </p>
+                                        <button onClick={(e) => { e.stopPropagation(); openThreshold(course); }} className="z-10 flex-shrink-0 text-xs px-2 py-0.5 rounded-full border border-slate-600 text-slate-300 hover:border-cyan-400 hover:text-cyan-200 transition-colors" title="Change the required attendance">
+                                            Min {threshold}%
+                                        </button>
                                     </div>
                                 </div>
                             )
@@ -632,7 +865,7 @@ const AttendanceTrackerPage: FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
                 <div className="holo-card p-6 space-y-4">
                     <h2 className="text-xl font-semibold text-cyan-300 text-center flex items-center justify-center gap-2"><ChartPieIcon className="w-7 h-7" /> Attendance Overview</h2>
-                    <HexagonGraph courses={displayedCourses} />
+                    <HexagonGraph courses={displayedCourses} holidayDates={holidayDates} />
                 </div>
                 <div className="holo-card p-6">
                     <div className="flex justify-between items-center mb-4">
@@ -669,16 +902,24 @@ const AttendanceTrackerPage: FC = () => {
                         <div className="space-y-2 text-xs text-slate-300">
                             <div className="flex items-center gap-3">
                                 <div className="w-6 h-6 rounded-full bg-slate-600 flex items-center justify-center text-white text-xs font-bold">1</div>
-                                <span><strong className="text-cyan-200">First Click:</strong> Mark day as <span className="text-green-400 font-bold">✓ ATTENDED</span></span>
+                                <span><strong className="text-cyan-200">First Click:</strong> Mark the class as <span className="text-green-400 font-bold">✓ ATTENDED</span></span>
                             </div>
                             <div className="flex items-center gap-3">
                                 <div className="w-6 h-6 rounded-full bg-slate-600 flex items-center justify-center text-white text-xs font-bold">2</div>
-                                <span><strong className="text-cyan-200">Second Click:</strong> Mark day as <span className="text-red-400 font-bold">✗ MISSED</span></span>
+                                <span><strong className="text-cyan-200">Second Click:</strong> Mark the class as <span className="text-red-400 font-bold">✗ MISSED</span></span>
                             </div>
                             <div className="flex items-center gap-3">
                                 <div className="w-6 h-6 rounded-full bg-slate-600 flex items-center justify-center text-white text-xs font-bold">3</div>
                                 <span><strong className="text-cyan-200">Third Click:</strong> Clear marking <span className="text-slate-400">(unmarked)</span></span>
                             </div>
+                            <div className="flex items-center gap-3">
+                                <div className="w-6 h-6 flex items-center justify-center"><span className="w-1.5 h-1.5 rounded-full bg-cyan-400" /></div>
+                                <span>A dot marks a timetabled class; <span className="line-through decoration-amber-400">struck-out</span> days are holidays</span>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <div className="w-6 h-6 rounded-full overflow-hidden flex"><span className="flex-1 bg-green-500" /><span className="flex-1 border-l border-slate-900 bg-slate-600" /></div>
+                                <span>Days with more than one class are split; click each part to mark that class</span>
+                            </div>
                         </div>
                         <div className="mt-3 pt-3 border-t border-slate-600 text-center">
                             <span className="text-xs text-slate-400">💡 Future dates cannot be marked</span>
@@ -686,13 +927,16 @@ const AttendanceTrackerPage: FC = () => {
                     </div>
 
                     {selectedCourse ? (
-                        <MonthlyCalendar 
-                            displayDate={displayDate}
-                            attendedDays={new Set(selectedCourse.attendedDays || [])} 
-                            missedDays={new Set(selectedCourse.missedDays || [])}
-                            onDayClick={(date, status) => handleDayInteraction(date, status)}
-                            color={selectedCourse.color || '#8B5CF6'}
-                        />
+                        <>
+                            <MonthlyCalendar 
+                                displayDate={displayDate}
+                                course={selectedCourse}
+                                onMark={(date, session, type, status) => handleMark(selectedCourse.id, date, session, type, status)}
+                                holidayDates={holidayDates}
+                                holidayNames={holidayNames}
+                            />
+                            <ExtraClassForm course={selectedCourse} holidayDates={holidayDates} onMark={handleMark} />
+                        </>
                     ) : (
                         <div className="text-center p-8 border-2 border-dashed border-cyan-500/30 rounded-lg">
                             <p className="text-slate-400">Please add and select a course to mark attendance.</p>
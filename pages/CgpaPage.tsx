@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, FC } from 'react';
 import { CgpaData, Semester } from '../types';
 import * as cgpaService from '../services/cgpaService';
+import { isAbortError } from '../services/api';
 import { Button, Input, Select } from '../components/UIElements';
 import { TrashIcon, PlusIcon, ChartPieIcon, SparkleIcon } from '../components/VibrantIcons';
 import LoadingIndicator from '../components/LoadingIndicator';
@@ -202,16 +203,22 @@ const CgpaCalculator: FC<{ user: any }> = ({ user }) => {
             setIsLoading(false);
             return;
         };
+        const controller = new AbortController();
         const fetchData = async () => {
             setIsLoading(true);
-            const data = await cgpaService.getCgpaData();
-            if (data.semesters.length === 0) {
-                 data.semesters.push({ id: `sem-${Date.now()}`, sgpa: '', credits: '' });
+            try {
+                const data = await cgpaService.getCgpaData(controller.signal);
+                if (data.semesters.length === 0) {
+                     data.semesters.push({ id: `sem-${Date.now()}`, sgpa: '', credits: '' });
+                }
+                setCgpaData(data);
+                setIsLoading(false);
+            } catch (error) {
+                if (!isAbortError(error)) throw error;
             }
-            setCgpaData(data);
-            setIsLoading(false);
         };
         fetchData();
+        return () => controller.abort();
     }, [user]);
     
     const handleSemesterChange = (id: string, field: 'sgpa' | 'credits', value: string) => {
@@ -2,8 +2,10 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeSubscription } from '../contexts/RealtimeContext';
 import { CommonChatMessage, Poll, TextMessage, ImageMessage, PollMessage } from '../types';
-import { getChatMessages, addChatMessage, voteOnPoll } from '../services/commonChatService';
+import { getChatMessages, addChatMessage, voteOnPoll, reportChatMessage, NewChatMessage } from '../services/commonChatService';
+import { isAbortError } from '../services/api';
 import LoadingIndicator from '../components/LoadingIndicator';
 import PollComponent from '../components/PollComponent';
 import { Button, Textarea, Modal, Input, Alert } from '../components/UIElements';
@@ -117,40 +119,123 @@ const PollCreationModal: React.FC<{
 };
 
 
+const byTimestamp = (a: CommonChatMessage, b: CommonChatMessage) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+// Merge fetched or pushed messages into what is already on screen, de-duplicated by id
+const mergeMessages = (existing: CommonChatMessage[], incoming: CommonChatMessage[]): CommonChatMessage[] => {
+  const byId = new Map<string, CommonChatMessage>();
+  existing.forEach(msg => byId.set(msg.id, msg));
+  incoming.forEach(msg => byId.set(msg.id, msg));
+  return Array.from(byId.values()).sort(byTimestamp);
+};
+
 const CommonChatPage: React.FC = () => {
   const { user } = useAuth();
   const [messages, setMessages] = useState<CommonChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [retentionDays, setRetentionDays] = useState<number | undefined>(undefined);
+  const [error, setError] = useState('');
   const [newMessage, setNewMessage] = useState('');
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [isPollModalOpen, setIsPollModalOpen] = useState(false);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  const loadMessages = useCallback(() => {
-    const chatMessages = getChatMessages();
-    setMessages(chatMessages.sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
+  // Fetches the most recent page and merges it in; used for the initial load and as the polling fallback.
+  // Resolves with the page so the initial load can seed the history cursor; polls must not touch it.
+  const loadMessages = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const page = await getChatMessages({ signal });
+      setMessages(prev => mergeMessages(prev, page.messages));
+      setRetentionDays(page.retentionDays);
+      return page;
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to load chat messages:", err);
+      setError('Could not load the chat. Please try again later.');
+    }
   }, []);
 
   useEffect(() => {
+    const controller = new AbortController();
     setIsLoading(true);
-    loadMessages();
-    setIsLoading(false);
-
-    const intervalId = setInterval(loadMessages, 3000); // Poll for new messages
-    return () => clearInterval(intervalId);
+    loadMessages(controller.signal).then(page => {
+      if (page) setOlderCursor(page.nextCursor);
+    }).finally(() => {
+      if (!controller.signal.aborted) setIsLoading(false);
+    });
+    return () => controller.abort();
   }, [loadMessages]);
+
+  // New messages and poll votes are pushed; fall back to polling every 3s when the socket is down
+  useRealtimeSubscription('chat:message', ({ message }) => {
+    setMessages(prev => mergeMessages(prev, [message]));
+  }, () => loadMessages(), 3000);
+
+  useRealtimeSubscription('chat:poll', ({ messageId, poll }) => {
+    setMessages(prev => prev.map(m => (m.id === messageId && m.type === 'poll') ? { ...m, poll } : m));
+  });
+
+  useRealtimeSubscription('chat:removed', ({ messageId }) => {
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+  });
   
+  // Only follow the bottom of the chat when a newer message arrives, not when older history is prepended
+  const newestMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [newestMessageId]);
+
+  const loadOlderMessages = async () => {
+    if (!olderCursor || isLoadingOlder) return;
+    const container = scrollContainerRef.current;
+    const previousScrollHeight = container?.scrollHeight ?? 0;
+    setIsLoadingOlder(true);
+    try {
+      const page = await getChatMessages({ before: olderCursor });
+      setMessages(prev => mergeMessages(prev, page.messages));
+      setOlderCursor(page.nextCursor);
+      // Keep the viewport anchored on the message the user was reading
+      requestAnimationFrame(() => {
+        if (container) container.scrollTop += container.scrollHeight - previousScrollHeight;
+      });
+    } catch (err) {
+      console.error("Failed to load older chat messages:", err);
+      setError('Could not load older messages.');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
 
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 80) {
+      loadOlderMessages();
+    }
+  };
 
-  const handleVote = (messageId: string, optionIndex: number) => {
+  const handleVote = async (messageId: string, optionIndex: number) => {
     if (!user) return;
-    const success = voteOnPoll(messageId, optionIndex, user.id);
-    if (success) {
-      loadMessages(); // Re-fetch messages to update UI
+    try {
+      const poll = await voteOnPoll(messageId, optionIndex);
+      setMessages(prev => prev.map(m => (m.id === messageId && m.type === 'poll') ? { ...m, poll } : m));
+    } catch (err) {
+      console.error("Failed to vote on poll:", err);
+      setError('Your vote could not be recorded. Please try again.');
+    }
+  };
+
+  const handleReport = async (messageId: string) => {
+    const reason = window.prompt('Why are you reporting this message?');
+    if (!reason || !reason.trim()) return;
+    try {
+      await reportChatMessage(messageId, reason.trim());
+      window.alert('Thanks, a moderator will review this message.');
+    } catch (err) {
+      console.error("Failed to report message:", err);
+      setError('Could not report this message. Please try again.');
     }
   };
   
@@ -159,16 +244,30 @@ const CommonChatPage: React.FC = () => {
       return { id: user.id, name: user.fullName };
   }
 
-  const handleSendMessage = () => {
+  const postMessage = async (message: NewChatMessage) => {
+    try {
+      const saved = await addChatMessage(message);
+      setMessages(prev => mergeMessages(prev, [saved]));
+      return true;
+    } catch (err) {
+      console.error("Failed to send chat message:", err);
+      setError(err instanceof Error && err.message ? err.message : 'Failed to send message. Please try again.');
+      return false;
+    }
+  };
+
+  const handleSendMessage = async () => {
     if (!newMessage.trim()) return;
     const message: Omit<TextMessage, 'id' | 'timestamp'> = {
         type: 'text',
         sender: getSender(),
         content: newMessage,
     };
-    addChatMessage(message);
+    const text = newMessage;
     setNewMessage('');
-    loadMessages();
+    if (!(await postMessage(message))) {
+      setNewMessage(text); // Give the user their draft back
+    }
   };
   
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -182,8 +281,7 @@ const CommonChatPage: React.FC = () => {
                   sender: getSender(),
                   imageUrl: imageUrl,
               };
-              addChatMessage(message);
-              loadMessages();
+              postMessage(message);
           };
           reader.readAsDataURL(file);
       }
@@ -192,8 +290,9 @@ const CommonChatPage: React.FC = () => {
   };
   
   const handleCreatePoll = (pollData: { question: string; options: string[] }) => {
+      // The server assigns the poll id and owns the vote tallies
       const newPoll: Poll = {
-          id: `poll-${Date.now()}`,
+          id: '',
           question: pollData.question,
           options: pollData.options.map(opt => ({ text: opt, voters: [] })),
       };
@@ -202,8 +301,7 @@ const CommonChatPage: React.FC = () => {
           sender: getSender(),
           poll: newPoll,
       };
-      addChatMessage(message);
-      loadMessages();
+      postMessage(message);
   };
 
   if (isLoading) return <LoadingIndicator message="Loading Common Room..." />;
@@ -214,7 +312,16 @@ const CommonChatPage: React.FC = () => {
         <BuildingIcon className="w-8 h-8" /> Common Chat Room
       </h1>
        
-      <div className="flex-grow p-4 space-y-4 overflow-y-auto">
+      {error && <Alert type="error" message={error} onClose={() => setError('')} className="m-4 mb-0" />}
+
+      <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-grow p-4 space-y-4 overflow-y-auto">
+        {olderCursor ? (
+          <div className="text-center">
+            <Button variant="ghost" size="sm" onClick={loadOlderMessages} isLoading={isLoadingOlder}>Load older messages</Button>
+          </div>
+        ) : retentionDays ? (
+          <p className="text-center text-xs text-slate-500 dark:text-slate-400">Messages older than {retentionDays} days are removed automatically.</p>
+        ) : null}
         {messages.map((msg) => (
           <div key={msg.id} className="flex items-start gap-3">
             <div className="w-10 h-10 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center font-bold text-white flex-shrink-0 shadow-md">
@@ -224,6 +331,9 @@ const CommonChatPage: React.FC = () => {
               <div className="flex items-baseline gap-2">
                 <p className="font-semibold text-slate-800 dark:text-slate-100">{msg.sender.name}</p>
                 <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(msg.timestamp).toLocaleTimeString()}</p>
+                {user && msg.sender.id !== user.id && (
+                  <button onClick={() => handleReport(msg.id)} className="ml-auto text-xs text-slate-400 hover:text-red-500 transition-colors">Report</button>
+                )}
               </div>
               <div className="mt-1 text-slate-700 dark:text-slate-300">
                 {msg.type === 'text' && <p>{msg.content}</p>}
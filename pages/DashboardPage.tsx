@@ -1,12 +1,17 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { User, RoomLocation, RoomListing, RoomListingFormData, ListingType, RoomType } from '../types';
+import { User, RoomLocation, RoomListing, RoomListingFormData, ListingType, RoomType, ListingInterest, ListingEdit, ListingWithdrawReason } from '../types';
 import { ALL_HOSTELS, ROOM_TYPES } from '../constants';
 import * as listingService from '../services/listingService';
 import * as statsService from '../services/statsService';
-import { Button, Modal, Input, Select, Textarea, Alert, UserCircleIcon } from '../components/UIElements';
+import * as bidService from '../services/bidService';
+import { prepareAllotmentProof, releaseProofPreview } from '../services/allotmentProof';
+import { isAbortError } from '../services/api';
+import { useRealtimeSubscription } from '../contexts/RealtimeContext';
+import { Button, Modal, Input, Select, Textarea, Alert, Spinner, UserCircleIcon } from '../components/UIElements';
 import { HomeIcon, PencilIcon, RocketIcon, TrashIcon, WhatsAppIcon, UsersIcon, LoginIcon } from '../components/VibrantIcons';
 import LoadingIndicator from '../components/LoadingIndicator';
+import BidsModal from '../components/BidsModal';
 import { Link } from 'react-router-dom';
 
 const InfoCard: React.FC<{title: string, children: React.ReactNode, className?: string, titleIcon?: React.ReactNode}> = ({ title, children, className, titleIcon }) => (
@@ -41,6 +46,138 @@ const UserProfileCard: React.FC<{ user: User, onEdit: () => void }> = ({ user, o
   );
 };
 
+const InterestedStudents: React.FC<{ listingId: string }> = ({ listingId }) => {
+    const [interests, setInterests] = useState<ListingInterest[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setError('');
+        listingService.getListingInterests(listingId, controller.signal)
+            .then(setInterests)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.error("Failed to load interested students:", err);
+                setError(err.message || 'Could not load interested students.');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+        return () => controller.abort();
+    }, [listingId]);
+
+    return (
+        <div className="pt-4 mt-2 border-t border-cyan-500/20">
+            <h4 className="font-semibold text-cyan-300 mb-2">Interested Students {!isLoading && !error && `(${interests.length})`}</h4>
+            {isLoading ? (
+                <Spinner size="sm" />
+            ) : error ? (
+                <p className="text-sm text-red-400">{error}</p>
+            ) : interests.length === 0 ? (
+                <p className="text-sm text-slate-400">No one has expressed interest yet.</p>
+            ) : (
+                <ul className="space-y-2 max-h-60 overflow-y-auto pr-1">
+                    {interests.map(({ user: student, createdAt }) => (
+                        <li key={student.id} className="flex items-center justify-between gap-2 text-sm">
+                            <div>
+                                <p className="text-slate-200 font-medium">{student.fullName}</p>
+                                <p className="text-xs text-slate-400">{student.rollNumber} · {new Date(createdAt).toLocaleDateString()}</p>
+                            </div>
+                            {student.whatsappNumber && (
+                                <a
+                                    href={`https://wa.me/91${student.whatsappNumber.replace(/\D/g, '')}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="p-1.5 rounded-full hover:bg-green-500/10"
+                                    aria-label={`Message ${student.fullName} on WhatsApp`}
+                                >
+                                    <WhatsAppIcon className="w-5 h-5" />
+                                </a>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const WITHDRAW_REASONS: Array<{ value: ListingWithdrawReason, label: string }> = [
+    { value: 'NoLongerNeeded', label: 'I no longer want to move' },
+    { value: 'FoundElsewhere', label: 'I found a room another way' },
+    { value: 'Other', label: 'Something else' },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+    'roomDetails.hostel': 'Hostel',
+    'roomDetails.block': 'Block',
+    'roomDetails.roomNumber': 'Room number',
+    'roomDetails.type': 'Room type',
+    listingType: 'Listing type',
+    description: 'Description',
+    desiredTradeConditions: 'Trade conditions',
+    biddingDeadline: 'Bidding deadline',
+    allotmentProof: 'Allotment proof',
+};
+
+// Loaded the first time it's expanded; most visits never open it
+const ListingHistory: React.FC<{ listingId: string }> = ({ listingId }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [edits, setEdits] = useState<ListingEdit[] | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setEdits(null);
+        setError('');
+    }, [listingId]);
+
+    useEffect(() => {
+        if (!isOpen || edits) return;
+        const controller = new AbortController();
+        listingService.getListingHistory(listingId, controller.signal)
+            .then(setEdits)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.error("Failed to load listing history:", err);
+                setError(err.message || 'Could not load the edit history.');
+            });
+        return () => controller.abort();
+    }, [isOpen, edits, listingId]);
+
+    return (
+        <details className="pt-2 text-sm" onToggle={(e) => setIsOpen((e.target as HTMLDetailsElement).open)}>
+            <summary className="cursor-pointer text-slate-400 hover:text-cyan-300">Edit history</summary>
+            <div className="mt-2">
+                {error ? (
+                    <p className="text-red-400">{error}</p>
+                ) : !edits ? (
+                    <Spinner size="sm" />
+                ) : edits.length === 0 ? (
+                    <p className="text-slate-400">No edits since the listing was created.</p>
+                ) : (
+                    <ul className="space-y-3 max-h-60 overflow-y-auto pr-1">
+                        {edits.map(edit => (
+                            <li key={edit.id}>
+                                <p className="text-xs text-slate-400">{new Date(edit.editedAt).toLocaleString()} · {edit.editedBy.fullName}</p>
+                                <ul className="mt-1 space-y-0.5">
+                                    {edit.changes.map(change => (
+                                        <li key={change.field} className="text-slate-300">
+                                            <span className="font-medium text-slate-400">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                                            <span className="line-through text-slate-500">{change.from || 'none'}</span> → {change.to || 'none'}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </details>
+    );
+};
+
 const ListEditRoomModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
@@ -53,6 +190,7 @@ const ListEditRoomModal: React.FC<{
         listingType: existingListing?.listingType || 'Exchange',
         description: existingListing?.description || '',
         desiredTradeConditions: existingListing?.desiredTradeConditions || '',
+        biddingDeadline: existingListing?.biddingDeadline,
     });
     const [whatsappNumber, setWhatsappNumber] = useState(user.whatsappNumber || '');
     const [error, setError] = useState('');
@@ -82,6 +220,7 @@ const ListEditRoomModal: React.FC<{
                 listingType: listingData?.listingType || 'Exchange',
                 description: listingData?.description || '',
                 desiredTradeConditions: listingData?.desiredTradeConditions || '',
+                biddingDeadline: listingData?.biddingDeadline,
             });
             setWhatsappNumber(user.whatsappNumber || '');
             setError('');
@@ -96,12 +235,31 @@ const ListEditRoomModal: React.FC<{
         setFormData(prev => ({ ...prev, [field]: value }));
     };
 
+    const handleListingTypeChange = (listingType: ListingType) => {
+        setFormData(prev => ({
+            ...prev,
+            listingType,
+            biddingDeadline: listingType === 'Bidding' ? prev.biddingDeadline || bidService.defaultBiddingDeadline() : prev.biddingDeadline,
+        }));
+    };
+
     const handleSubmit = () => {
         setError('');
         if (!formData.roomDetails.hostel || !formData.roomDetails.roomNumber.trim() || !formData.description.trim()) {
             setError('Hostel, Full Room Number, and Description are required.');
             return;
         }
+        if (formData.listingType === 'Bidding') {
+            // An unchanged deadline on an existing listing is fine even if it's closer than the minimum now
+            const unchanged = formData.biddingDeadline === existingListing?.biddingDeadline;
+            const deadlineError = unchanged && formData.biddingDeadline && new Date(formData.biddingDeadline).getTime() > Date.now()
+                ? null
+                : bidService.validateBiddingDeadline(formData.biddingDeadline);
+            if (deadlineError) {
+                setError(deadlineError);
+                return;
+            }
+        }
         if (!/^\d{10}$/.test(whatsappNumber)) {
             setError('Please enter a valid 10-digit WhatsApp number (e.g., 9876543210).');
             return;
@@ -148,7 +306,20 @@ const ListEditRoomModal: React.FC<{
                 <Select label="Room Type" value={formData.roomDetails.type} onChange={(value) => handleInputChange('type', value as RoomType)} options={ROOM_TYPES.filter(rt => rt !== 'Any').map(rt => ({ value: rt, label: rt }))} required className="futuristic-select"/>
                 
                 <h3 className="text-lg font-semibold pt-2 text-cyan-300">Listing Details</h3>
-                <Select label="Listing Type" value={formData.listingType} onChange={(value) => handleFormChange('listingType', value as ListingType)} options={[{ value: 'Exchange', label: 'Up for Exchange' }, { value: 'Bidding', label: 'Up for Bidding' }]} required className="futuristic-select"/>
+                <Select label="Listing Type" value={formData.listingType} onChange={(value) => handleListingTypeChange(value as ListingType)} options={[{ value: 'Exchange', label: 'Up for Exchange' }, { value: 'Bidding', label: 'Up for Bidding' }]} required className="futuristic-select"/>
+                {formData.listingType === 'Bidding' && (
+                    <div>
+                        <Input
+                            label="Bidding Closes At"
+                            type="datetime-local"
+                            value={bidService.toDateTimeLocalValue(formData.biddingDeadline)}
+                            onChange={(e) => handleFormChange('biddingDeadline', e.target.value ? new Date(e.target.value).toISOString() : '')}
+                            required
+                            className="futuristic-input"
+                        />
+                        <p className="text-xs mt-1 text-slate-400">Bidding closes automatically at this time. You can accept a bid before then.</p>
+                    </div>
+                )}
                 <Textarea label="Description" rows={3} value={formData.description} onChange={(e) => handleFormChange('description', e.target.value)} placeholder="e.g., Well-ventilated, good view..." required className="futuristic-input"/>
                 <Textarea label="Desired Trade Conditions (Optional)" rows={2} value={formData.desiredTradeConditions} onChange={(e) => handleFormChange('desiredTradeConditions', e.target.value)} placeholder="e.g., Looking for a single room in H1 - Parijat..." className="futuristic-input"/>
             </div>
@@ -189,31 +360,51 @@ const DashboardPage: React.FC = () => {
     const [isDelistModalOpen, setIsDelistModalOpen] = useState(false);
     const [userListing, setUserListing] = useState<RoomListing | null>(null);
     const [totalUsers, setTotalUsers] = useState(0);
+    const [isBidsModalOpen, setIsBidsModalOpen] = useState(false);
+    const [expiredListing, setExpiredListing] = useState<RoomListing | null>(null);
+    const [takenDownListing, setTakenDownListing] = useState<RoomListing | null>(null);
+    const [withdrawReason, setWithdrawReason] = useState<ListingWithdrawReason>('NoLongerNeeded');
+    const [withdrawNote, setWithdrawNote] = useState('');
+    const [isRenewing, setIsRenewing] = useState(false);
+    const [isDelisting, setIsDelisting] = useState(false);
+    const [listingError, setListingError] = useState('');
+    const [isResubmitting, setIsResubmitting] = useState(false);
+    const [resubmitProgress, setResubmitProgress] = useState<number | null>(null);
     const [isDataLoading, setIsDataLoading] = useState(true);
 
-    const fetchData = useCallback(async () => {
+    const fetchData = useCallback(async (signal?: AbortSignal) => {
         setIsDataLoading(true);
         try {
             const [listings, stats] = await Promise.all([
-                user ? listingService.getListings() : Promise.resolve([]),
-                statsService.getTotalUsers(),
+                user ? listingService.getMyListings(signal) : Promise.resolve([]),
+                statsService.getTotalUsers(signal),
             ]);
             if(user) {
-                const foundListing = listings.find(l => l.listedBy.id === user.id && l.status === 'Open');
+                const foundListing = listings.find(listingService.isActiveListing);
                 setUserListing(foundListing || null);
+                // Offer to bring back the latest listing if it lapsed, but not one the user closed themselves
+                // The endpoint does not promise an order, so pick the newest explicitly
+                const [latest] = [...listings].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+                setExpiredListing(!foundListing && latest && latest.status === 'Expired' && listingService.needsRenewal(latest) ? latest : null);
+                setTakenDownListing(!foundListing && latest?.closure?.reason === 'TakenDown' ? latest : null);
             }
             setTotalUsers(stats.totalUsers);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error("Failed to fetch dashboard data:", error);
         } finally {
-            setIsDataLoading(false);
+            if (!signal?.aborted) setIsDataLoading(false);
         }
     }, [user]);
     
     useEffect(() => {
         document.body.classList.add('futuristic-theme');
-        fetchData();
-        return () => document.body.classList.remove('futuristic-theme');
+        const controller = new AbortController();
+        fetchData(controller.signal);
+        return () => {
+            controller.abort();
+            document.body.classList.remove('futuristic-theme');
+        };
     }, [fetchData]);
 
     const handleSaveListing = async (data: RoomListingFormData, whatsappNumber: string) => {
@@ -232,20 +423,70 @@ const DashboardPage: React.FC = () => {
 
     const openDelistConfirmation = () => {
         if (userListing) {
+            setWithdrawReason('NoLongerNeeded');
+            setWithdrawNote('');
             setIsDelistModalOpen(true);
         }
     };
     
     const handleConfirmDelist = async () => {
         if (!user || !userListing) return;
-        
-        await listingService.delistListing(userListing.id);
-        
-        setIsDelistModalOpen(false);
-        await refreshUser();
-        await fetchData(); // Re-fetch to update UI
+        setIsDelisting(true);
+        setListingError('');
+        try {
+            await listingService.delistListing(userListing.id, withdrawReason, withdrawNote);
+            await refreshUser();
+            await fetchData(); // Re-fetch to update UI
+        } catch (error: any) {
+            console.error("Failed to delist listing:", error);
+            setListingError(error.message || 'Could not delist your room.');
+        } finally {
+            // Closed either way so the outcome shows on the listing card
+            setIsDelistModalOpen(false);
+            setIsDelisting(false);
+        }
+    };
+
+    const handleRenewListing = async (listing: RoomListing) => {
+        setIsRenewing(true);
+        setListingError('');
+        try {
+            await listingService.renewListing(listing.id);
+            await refreshUser(); // An expired listing coming back makes it active again
+            await fetchData();
+        } catch (error: any) {
+            console.error("Failed to renew listing:", error);
+            setListingError(error.message || 'Could not renew your listing.');
+        } finally {
+            setIsRenewing(false);
+        }
+    };
+
+    const handleResubmitProof = async (file: File | undefined) => {
+        if (!file || !userListing) return;
+        setIsResubmitting(true);
+        setListingError('');
+        try {
+            const proof = await prepareAllotmentProof(file);
+            releaseProofPreview(proof);
+            setResubmitProgress(0);
+            setUserListing(await listingService.resubmitAllotmentProof(userListing.id, proof.file, setResubmitProgress));
+        } catch (error: any) {
+            console.error("Failed to resubmit allotment proof:", error);
+            setListingError(error.message || 'Could not upload your new proof.');
+        } finally {
+            setIsResubmitting(false);
+            setResubmitProgress(null);
+        }
     };
 
+    // The review lands while the dashboard is open; App shows the notice itself
+    useRealtimeSubscription('listing:verification', ({ listing }) => {
+        setUserListing(prev => prev && prev.id === listing.id ? listing : prev);
+    });
+
+    const daysLeft = userListing ? listingService.daysUntilExpiry(userListing) : undefined;
+
     if (loading || isDataLoading) return <LoadingIndicator message="Initializing Dashboard..." />;
 
     return (
@@ -269,6 +510,22 @@ const DashboardPage: React.FC = () => {
                 existingListing={userListing}
             />}
 
+            {isBidsModalOpen && (
+                <BidsModal
+                    listing={userListing}
+                    currentUser={user}
+                    onClose={() => {
+                        setIsBidsModalOpen(false);
+                        // Accepting a bid marks the listing Matched
+                        if (userListing?.status === 'Matched') {
+                            refreshUser();
+                            fetchData();
+                        }
+                    }}
+                    onListingUpdate={(_, changes) => setUserListing(prev => prev ? { ...prev, ...changes } : prev)}
+                />
+            )}
+
             <Modal 
                 isOpen={isDelistModalOpen}
                 onClose={() => setIsDelistModalOpen(false)}
@@ -276,9 +533,13 @@ const DashboardPage: React.FC = () => {
                 size="md"
             >
                 <p>Are you sure you want to delist your room? This action will remove it from public view.</p>
+                <div className="mt-4 space-y-3">
+                    <Select label="Reason" value={withdrawReason} onChange={(value) => setWithdrawReason(value as ListingWithdrawReason)} options={WITHDRAW_REASONS} />
+                    <Textarea label="Anything to add? (Optional)" rows={2} value={withdrawNote} onChange={(e) => setWithdrawNote(e.target.value)} maxLength={200} />
+                </div>
                 <div className="mt-6 flex justify-end gap-3">
-                    <Button variant="ghost" onClick={() => setIsDelistModalOpen(false)}>Cancel</Button>
-                    <Button variant="danger" onClick={handleConfirmDelist}>Yes, Delist Room</Button>
+                    <Button variant="ghost" onClick={() => setIsDelistModalOpen(false)} disabled={isDelisting}>Cancel</Button>
+                    <Button variant="danger" onClick={handleConfirmDelist} isLoading={isDelisting}>Yes, Delist Room</Button>
                 </div>
             </Modal>
 
@@ -297,18 +558,75 @@ const DashboardPage: React.FC = () => {
                         <UserProfileCard user={user} onEdit={() => alert("Profile editing can be managed via the 'List/Edit Room' modal by updating your WhatsApp number.")} />
                         
                         <InfoCard title="Your Room Listing" titleIcon={<HomeIcon />}>
+                            {listingError && <Alert type="error" message={listingError} onClose={() => setListingError('')} />}
                             {user.hasActiveListing && userListing ? (
                                 <div className="space-y-3 text-slate-300">
+                                     {userListing.status === 'Pending Verification' && (userListing.verification?.status === 'Rejected' ? (
+                                        <div className="p-3 text-sm rounded-md bg-red-900/30 border border-red-400/40 text-red-200 space-y-2">
+                                            <p>Your allotment proof was rejected{userListing.verification.reason ? `: ${userListing.verification.reason}` : '.'}</p>
+                                            <label className="inline-flex items-center gap-2 cursor-pointer font-semibold text-cyan-300 hover:underline">
+                                                {isResubmitting ? (
+                                                    <><Spinner size="sm" />{resubmitProgress !== null && <span>{Math.round(resubmitProgress * 100)}%</span>}</>
+                                                ) : 'Upload a new proof'}
+                                                <input
+                                                    type="file"
+                                                    accept="image/jpeg,image/png,image/webp,application/pdf"
+                                                    className="hidden"
+                                                    disabled={isResubmitting}
+                                                    onChange={(e) => { handleResubmitProof(e.target.files?.[0]); e.target.value = ''; }}
+                                                />
+                                            </label>
+                                        </div>
+                                     ) : (
+                                        <p className="p-2 text-sm rounded-md bg-yellow-900/30 border border-yellow-400/40 text-yellow-200">Pending verification: your listing appears in search once your allotment proof is checked.</p>
+                                     ))}
+                                     {userListing.verification?.status === 'Approved' && (
+                                        <p className="text-sm text-green-300">✓ Allotment verified</p>
+                                     )}
+                                     {listingService.needsRenewal(userListing) && (
+                                        <div className="p-3 rounded-md bg-orange-900/30 border border-orange-400/40 text-orange-200 text-sm space-y-2">
+                                            <p>{daysLeft === 0 ? 'Your listing expires today.' : `Your listing expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`} Renew it to keep it in search.</p>
+                                            <Button size="sm" variant="secondary" onClick={() => handleRenewListing(userListing)} isLoading={isRenewing}>Renew Listing</Button>
+                                        </div>
+                                     )}
                                      <p><span className="font-medium text-slate-400">Hostel:</span> {userListing.roomDetails.hostel}</p>
                                      <p><span className="font-medium text-slate-400">Room:</span> {userListing.roomDetails.block ? `${userListing.roomDetails.block} / ${userListing.roomDetails.roomNumber}` : userListing.roomDetails.roomNumber}</p>
                                      <p><span className="font-medium text-slate-400">Type:</span> {userListing.roomDetails.type}</p>
+                                     {userListing.listingType === 'Bidding' && userListing.biddingDeadline && (
+                                        <p><span className="font-medium text-slate-400">Bidding:</span> {userListing.bidCount || 0} live bids · {bidService.formatTimeLeft(userListing.biddingDeadline)}</p>
+                                     )}
                                      <div className="flex gap-2 pt-4">
                                         <Button variant="secondary" onClick={() => setIsListModalOpen(true)} leftIcon={<PencilIcon />}>Edit Listing</Button>
                                         <Button variant="danger" onClick={openDelistConfirmation} leftIcon={<TrashIcon />}>Delist</Button>
                                      </div>
+                                     {userListing.listingType === 'Bidding' && (
+                                        <Button variant="primary" className="w-full" onClick={() => setIsBidsModalOpen(true)}>Manage Bids</Button>
+                                     )}
+                                     {userListing.expiresAt && !listingService.needsRenewal(userListing) && (
+                                        <p className="text-xs text-slate-400">Expires {new Date(userListing.expiresAt).toLocaleDateString()}</p>
+                                     )}
+                                     <InterestedStudents listingId={userListing.id} />
+                                     <ListingHistory listingId={userListing.id} />
                                 </div>
                             ) : (
                                 <div className="text-center">
+                                    {expiredListing && (
+                                        <div className="mb-4 p-3 rounded-md bg-orange-900/30 border border-orange-400/40 text-orange-200 text-sm text-left space-y-2">
+                                            <p>
+                                                Your listing for {expiredListing.roomDetails.hostel} {expiredListing.roomDetails.block}/{expiredListing.roomDetails.roomNumber} expired
+                                                {expiredListing.closure ? ` on ${new Date(expiredListing.closure.closedAt).toLocaleDateString()}` : ''}.
+                                                Renew it to put it back in search for another {listingService.LISTING_EXPIRY_DAYS} days.
+                                            </p>
+                                            <Button size="sm" variant="secondary" onClick={() => handleRenewListing(expiredListing)} isLoading={isRenewing}>Renew Listing</Button>
+                                        </div>
+                                    )}
+                                    {takenDownListing && (
+                                        <p className="mb-4 p-3 rounded-md bg-red-900/30 border border-red-400/40 text-red-200 text-sm text-left">
+                                            An admin took down your listing for {takenDownListing.roomDetails.hostel} {takenDownListing.roomDetails.block}/{takenDownListing.roomDetails.roomNumber}
+                                            {takenDownListing.closure?.note ? `: ${takenDownListing.closure.note}` : '.'}
+                                            {' '}You can list your room again once the issue is fixed.
+                                        </p>
+                                    )}
                                     <p className="text-slate-400 mb-4">You have no active room listing.</p>
                                     <Button variant="primary" size="lg" onClick={() => setIsListModalOpen(true)} leftIcon={<RocketIcon />}>List Your Room Now</Button>
                                 </div>
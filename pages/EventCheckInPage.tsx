@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import * as checkInQueue from '../services/checkInQueue';
+import { CheckInScanner, ScanResult } from '../services/checkInQueue';
+import { isAbortError } from '../services/api';
+import LoadingIndicator from '../components/LoadingIndicator';
+import QrScanner from '../components/QrScanner';
+import { Alert, Button, Input } from '../components/UIElements';
+import { CheckBadgeIcon } from '../components/VibrantIcons';
+
+const RESULT_STYLES: Record<ScanResult['kind'], string> = {
+  admitted: 'bg-green-500/20 border-green-400 text-green-100',
+  duplicate: 'bg-amber-500/20 border-amber-400 text-amber-100',
+  unlisted: 'bg-amber-500/20 border-amber-400 text-amber-100',
+  rejected: 'bg-red-500/20 border-red-400 text-red-100',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const describeResult = (result: ScanResult): { title: string; detail: string } => {
+  switch (result.kind) {
+    case 'admitted':
+      return { title: `✓ ${result.name}`, detail: 'Checked in.' };
+    case 'duplicate':
+      return { title: `Already in: ${result.name}`, detail: `This ticket was checked in at ${formatTime(result.checkedInAt)}.` };
+    case 'unlisted':
+      return { title: `Not on the guest list: ${result.name}`, detail: 'The ticket is genuine, but they registered after the list was downloaded or have cancelled since.' };
+    case 'rejected':
+      return { title: 'Not valid', detail: result.reason };
+  }
+};
+
+const EventCheckInPage: React.FC = () => {
+  const { eventId = '' } = useParams<{ eventId: string }>();
+  const [scanner, setScanner] = useState<CheckInScanner | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  // Scans are checked one at a time so two quick reads can't both pass the duplicate check
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    document.body.classList.add('futuristic-theme');
+    const controller = new AbortController();
+    const load = async () => {
+      const saved = await checkInQueue.getSavedScanner(eventId);
+      if (saved) {
+        // Usable straight away; the download below only refreshes it
+        setScanner(saved);
+        setIsLoading(false);
+      }
+      try {
+        setScanner(await checkInQueue.downloadRoster(eventId, controller.signal));
+        setNotice('');
+        sync();
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        console.error("Failed to download check-in roster:", err);
+        if (saved) {
+          setNotice(`Could not refresh the guest list, so this is the copy from ${new Date(saved.roster.fetchedAt).toLocaleString()}.`);
+        } else {
+          setError(err.message || 'Could not download the guest list. Open this page once with a connection before the event.');
+        }
+      }
+    };
+    load().finally(() => {
+      if (!controller.signal.aborted) setIsLoading(false);
+    });
+
+    const stopWatching = checkInQueue.watchCheckInQueue(
+      eventId,
+      setScanner,
+      err => setError(err.message || 'The server did not accept the check-ins.')
+    );
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      document.body.classList.remove('futuristic-theme');
+      controller.abort();
+      stopWatching();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, [eventId]);
+
+  const sync = async () => {
+    setIsSyncing(true);
+    try {
+      const synced = await checkInQueue.syncCheckIns(eventId);
+      if (synced) setScanner(synced);
+    } catch (err: any) {
+      console.error("Failed to sync check-ins:", err);
+      setError(err.message || 'The server did not accept the check-ins.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleScan = async (code: string) => {
+    if (busyRef.current || !code.trim()) return;
+    busyRef.current = true;
+    try {
+      const scan = await checkInQueue.scanTicket(eventId, code);
+      setScanner(scan.scanner);
+      setResult(scan.result);
+      navigator.vibrate?.(scan.result.kind === 'admitted' ? 80 : [80, 60, 80]);
+      if (scan.result.kind === 'admitted' && navigator.onLine) sync();
+    } catch (err: any) {
+      console.error("Failed to check ticket:", err);
+      setError(err.message || 'Could not check this ticket.');
+    } finally {
+      busyRef.current = false;
+    }
+  };
+
+  const handleAdmitAnyway = async () => {
+    if (result?.kind !== 'unlisted') return;
+    try {
+      setScanner(await checkInQueue.admitAnyway(eventId, result.checkIn));
+      setResult({ kind: 'admitted', name: result.name, checkIn: result.checkIn });
+      if (navigator.onLine) sync();
+    } catch (err: any) {
+      setError(err.message || 'Could not check them in.');
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleScan(manualCode);
+    setManualCode('');
+  };
+
+  const names = useMemo(
+    () => new Map(scanner?.roster.attendees.map(attendee => [attendee.userId, attendee.name]) || []),
+    [scanner?.roster]
+  );
+
+  const recentCheckIns = useMemo(() => {
+    if (!scanner) return [];
+    const pendingTickets = new Set(scanner.pending.map(checkIn => checkIn.ticketId));
+    return [...scanner.pending, ...scanner.roster.checkedIn.filter(checkIn => !pendingTickets.has(checkIn.ticketId))]
+      .sort((a, b) => b.checkedInAt.localeCompare(a.checkedInAt))
+      .slice(0, 10)
+      .map(checkIn => ({ ...checkIn, isPending: pendingTickets.has(checkIn.ticketId) }));
+  }, [scanner]);
+
+  if (isLoading) return <LoadingIndicator message="Loading guest list..." />;
+
+  if (!scanner) {
+    return (
+      <div className="max-w-2xl mx-auto p-8 text-center holo-card space-y-4">
+        <h1 className="text-2xl font-bold text-slate-100">Check-in unavailable</h1>
+        <p className="text-slate-400">{error}</p>
+        <Link to={`/events/${encodeURIComponent(eventId)}`}><Button>Back to Event</Button></Link>
+      </div>
+    );
+  }
+
+  const resultText = result && describeResult(result);
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 space-y-6">
+      <Link to={`/events/${encodeURIComponent(eventId)}`} className="text-sm text-cyan-400 hover:underline">&larr; Back to event</Link>
+
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+        <div>
+          <h1 className="text-3xl font-extrabold text-white futuristic-title flex items-center gap-3">
+            <CheckBadgeIcon className="w-8 h-8" /> Check-in
+          </h1>
+          <p className="text-cyan-300 font-semibold mt-1">{scanner.roster.eventName}</p>
+        </div>
+        <div className="text-sm text-slate-300 sm:text-right">
+          <p><span className="text-2xl font-bold text-white">{checkInQueue.countCheckedIn(scanner)}</span> / {scanner.roster.attendees.length} checked in</p>
+          <p className={isOnline ? 'text-green-300' : 'text-amber-300'}>
+            {isOnline ? 'Online' : 'Offline'}
+            {scanner.pending.length > 0 && ` · ${scanner.pending.length} waiting to sync`}
+          </p>
+        </div>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {notice && <Alert type="warning" message={notice} onClose={() => setNotice('')} />}
+
+      <div className="holo-card p-4 space-y-4">
+        <QrScanner onScan={handleScan} />
+
+        {result && resultText && (
+          <div className={`border-2 rounded-lg p-4 ${RESULT_STYLES[result.kind]}`} role="status">
+            <p className="text-lg font-bold">{resultText.title}</p>
+            <p className="text-sm opacity-90">{resultText.detail}</p>
+            {result.kind === 'unlisted' && (
+              <Button size="sm" variant="secondary" className="mt-3" onClick={handleAdmitAnyway}>Admit Anyway</Button>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleManualSubmit} className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Input label="Or paste a ticket code" value={manualCode} onChange={(e) => setManualCode(e.target.value)} />
+          </div>
+          <Button type="submit" variant="secondary" disabled={!manualCode.trim()}>Check</Button>
+        </form>
+      </div>
+
+      <div className="holo-card p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold text-white">Recent check-ins</h2>
+          <Button size="sm" variant="ghost" onClick={sync} isLoading={isSyncing} disabled={!isOnline}>Sync Now</Button>
+        </div>
+        <p className="text-xs text-slate-400">
+          Guest list downloaded {new Date(scanner.roster.fetchedAt).toLocaleString()}
+          {scanner.lastSyncedAt && ` · last synced ${new Date(scanner.lastSyncedAt).toLocaleTimeString()}`}
+        </p>
+        {recentCheckIns.length === 0 ? (
+          <p className="text-sm text-slate-400">No one has checked in yet.</p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {recentCheckIns.map(checkIn => (
+              <li key={checkIn.ticketId} className="flex justify-between py-2 text-sm">
+                <span className="text-slate-200">{names.get(checkIn.userId) || checkIn.userId}</span>
+                <span className={checkIn.isPending ? 'text-amber-300' : 'text-slate-400'}>
+                  {formatTime(checkIn.checkedInAt)}{checkIn.isPending && ' · not synced'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {scanner.rejected.length > 0 && (
+          <div className="pt-2 border-t border-white/10">
+            <h3 className="text-sm font-semibold text-red-300 mb-1">Refused by the server</h3>
+            <ul className="space-y-1 text-sm">
+              {scanner.rejected.map(({ checkIn, reason }) => (
+                <li key={checkIn.ticketId} className="text-slate-300">
+                  {names.get(checkIn.userId) || checkIn.userId}: <span className="text-slate-400">{reason}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventCheckInPage;
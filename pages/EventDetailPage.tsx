@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { Event } from '../types';
+import * as eventService from '../services/eventService';
+import { buildEventCalendar, calendarFileName } from '../services/calendarService';
+import { downloadCalendar } from '../services/icalendar';
+import { ApiError, isAbortError } from '../services/api';
+import { useEventRegistrations } from '../hooks/useEventRegistrations';
+import LoadingIndicator from '../components/LoadingIndicator';
+import EventTicket from '../components/EventTicket';
+import { LoginRedirectState } from '../components/ProtectedRoute';
+import { Alert, Button } from '../components/UIElements';
+import { CalendarDaysIcon, CheckmarkIcon, WhatsAppIcon } from '../components/VibrantIcons';
+
+const EventDetailPage: React.FC = () => {
+  const { eventId = '' } = useParams<{ eventId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  // Lets someone who added the event to their calendar take it off again after unregistering
+  const [unregisteredHere, setUnregisteredHere] = useState(false);
+
+  const { registrations, register, unregister } = useEventRegistrations(
+    user,
+    update => setEvent(prev => prev ? update([prev])[0] : prev),
+    setError
+  );
+
+  useEffect(() => {
+    document.body.classList.add('futuristic-theme');
+    const controller = new AbortController();
+    setIsLoading(true);
+    setNotFound(false);
+    eventService.getEvent(eventId, controller.signal)
+      .then(setEvent)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        if (err instanceof ApiError && err.statusCode === 404) {
+          setNotFound(true);
+          return;
+        }
+        console.error("Failed to load event:", err);
+        setError(err.message || 'Could not load this event.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => {
+      document.body.classList.remove('futuristic-theme');
+      controller.abort();
+    };
+  }, [eventId]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link.');
+    }
+  };
+
+  // After unregistering, the same file marked cancelled removes the entry from the calendar
+  const handleDownloadCalendar = (cancelled: boolean) => {
+    if (!event) return;
+    downloadCalendar(calendarFileName(event.name), buildEventCalendar(event, cancelled));
+  };
+
+  const handleRegister = (event: Event) => {
+    if (!user) {
+      const state: LoginRedirectState = { from: { pathname: location.pathname, search: location.search } };
+      navigate('/login', { state });
+      return;
+    }
+    setUnregisteredHere(false);
+    register(event);
+  };
+
+  if (isLoading) return <LoadingIndicator message="Loading event..." />;
+
+  if (notFound || !event) {
+    return (
+      <div className="max-w-2xl mx-auto p-8 text-center holo-card">
+        <h1 className="text-2xl font-bold text-slate-100 mb-2">Event not found</h1>
+        <p className="text-slate-400 mb-6">{error || 'It may have been removed, or it is still waiting for approval.'}</p>
+        <Link to="/events"><Button>Back to Events</Button></Link>
+      </div>
+    );
+  }
+
+  const registration = registrations.get(event.id);
+  const isRegistered = registration?.status === 'registered';
+  const isFull = eventService.isEventFull(event);
+  const canCheckIn = !!user && event.status === 'approved' && (user.role === 'admin' || event.submittedBy === user.id);
+  const isPast = eventService.isPastEvent(event);
+  const removeFromCalendar = !!event.cancelledAt || (unregisteredHere && !isRegistered);
+  const eventDate = new Date(event.dateTime);
+  const shareText = `${event.name} by ${event.organizer}, ${eventDate.toLocaleString()} at ${event.location}. ${window.location.href}`;
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 space-y-6">
+      <Link to="/events" className="text-sm text-cyan-400 hover:underline">&larr; All events</Link>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {event.cancelledAt && (
+        <Alert type="error" message={`This event was cancelled on ${new Date(event.cancelledAt).toLocaleDateString()}.`} />
+      )}
+      {registration?.status === 'waitlisted' && !event.cancelledAt && (
+        <Alert
+          type="info"
+          message={`You're ${registration.waitlistPosition ? `#${registration.waitlistPosition} ` : ''}on the waitlist. If someone cancels, you'll get their place and your ticket automatically.`}
+        />
+      )}
+      {event.status !== 'approved' && (
+        <Alert
+          type={event.status === 'rejected' ? 'error' : 'warning'}
+          message={event.status === 'rejected'
+            ? `This event request was rejected${event.reviewNote ? `: ${event.reviewNote}` : '.'}`
+            : 'This event is waiting for admin approval. Only you can see it for now.'}
+        />
+      )}
+
+      <div className="holo-card p-6 space-y-5">
+        <div>
+          <h1 className="text-3xl font-extrabold text-white futuristic-title">{event.name}</h1>
+          <p className="text-lg font-semibold text-cyan-300 mt-1">{event.organizer}</p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-3 text-sm">
+          <div className="flex items-center gap-2 text-slate-300">
+            <CalendarDaysIcon className="w-5 h-5 flex-shrink-0" />
+            {eventDate.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })},{' '}
+            {eventDate.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: true })}
+          </div>
+          <div className="text-slate-300"><span className="text-slate-400">Venue:</span> {event.location}</div>
+          <div className="text-slate-300">
+            <span className="text-slate-400">Registered:</span> {eventService.registrationCountLabel(event)}
+            {!isPast && eventService.placesLeft(event) !== null && (
+              <span className={isFull ? 'text-amber-300' : 'text-green-300'}> ({isFull ? 'full' : `${eventService.placesLeft(event)} left`})</span>
+            )}
+          </div>
+        </div>
+
+        <p className="text-slate-200 whitespace-pre-wrap">{event.description}</p>
+
+        {event.registrationLink && (
+          <a href={event.registrationLink} target="_blank" rel="noopener noreferrer" className="text-sm text-cyan-400 hover:underline break-all">
+            External registration: {event.registrationLink}
+          </a>
+        )}
+
+        <div className="flex flex-wrap gap-3 pt-2 border-t border-white/10">
+          {event.status === 'approved' && !event.cancelledAt && (isPast ? (
+            <p className="text-sm font-semibold text-slate-400 self-center">
+              {isRegistered ? 'You registered for this event.' : 'This event has ended.'}
+            </p>
+          ) : isRegistered ? (
+            <Button variant="secondary" onClick={() => { setUnregisteredHere(true); unregister(event); }} leftIcon={<CheckmarkIcon />} title="Cancel registration">
+              Registered &middot; Cancel
+            </Button>
+          ) : registration?.status === 'waitlisted' ? (
+            <Button variant="secondary" onClick={() => unregister(event)} title="Leave the waitlist">
+              On Waitlist &middot; Leave
+            </Button>
+          ) : (
+            <Button variant={isFull ? 'secondary' : 'primary'} onClick={() => handleRegister(event)}>
+              {isFull ? 'Join Waitlist' : 'Register for Event'}
+            </Button>
+          ))}
+          {!isPast && (isRegistered || removeFromCalendar) && (
+            <Button variant="ghost" onClick={() => handleDownloadCalendar(removeFromCalendar)}>
+              {removeFromCalendar ? 'Remove from calendar (.ics)' : 'Add to calendar (.ics)'}
+            </Button>
+          )}
+          {canCheckIn && (
+            <Link to={`/events/${encodeURIComponent(event.id)}/check-in`}>
+              <Button variant="ghost">Check-in Scanner</Button>
+            </Link>
+          )}
+          <Button variant="ghost" onClick={handleCopyLink}>{copied ? 'Link copied' : 'Copy link'}</Button>
+          <a
+            href={`https://wa.me/?text=${encodeURIComponent(shareText)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-semibold rounded-md flex items-center px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white transition-colors"
+          >
+            <WhatsAppIcon className="w-5 h-5 mr-2" />
+            Share
+          </a>
+        </div>
+      </div>
+
+      {isRegistered && registration?.ticket && !event.cancelledAt && <EventTicket event={event} ticket={registration.ticket} />}
+    </div>
+  );
+};
+
+export default EventDetailPage;
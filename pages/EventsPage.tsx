@@ -1,112 +1,98 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { EventFormData } from '../types';
+import { Event, EventFormData } from '../types';
 import * as eventService from '../services/eventService';
+import { isAbortError } from '../services/api';
+import { useEventRegistrations } from '../hooks/useEventRegistrations';
 import LoadingIndicator from '../components/LoadingIndicator';
-import { Button } from '../components/UIElements';
+import EventCard from '../components/EventCard';
+import RequestEventModal from '../components/RequestEventModal';
+import CalendarSyncModal from '../components/CalendarSyncModal';
+import { LoginRedirectState } from '../components/ProtectedRoute';
+import { Alert, Button, Input, Select } from '../components/UIElements';
 import { CalendarDaysIcon, PlusIcon, WhatsAppIcon } from '../components/VibrantIcons';
-import { Modal, Input, Textarea, Alert } from '../components/UIElements';
-import { RocketIcon } from '../components/VibrantIcons';
-import { useNavigate } from 'react-router-dom';
-
-const RequestEventModal: React.FC<{
-    isOpen: boolean;
-    onClose: () => void;
-    onSubmit: (formData: EventFormData) => Promise<boolean>;
-}> = ({ isOpen, onClose, onSubmit }) => {
-    const [formData, setFormData] = useState<EventFormData>({ name: '', organizer: '', date: '', time: '', location: '', description: '', registrationLink: '' });
-    const [error, setError] = useState('');
-    const [isSubmitting, setIsSubmitting] = useState(false);
-    const [success, setSuccess] = useState(false);
-
-    useEffect(() => {
-        if (!isOpen) {
-           setTimeout(() => {
-             setFormData({ name: '', organizer: '', date: '', time: '', location: '', description: '', registrationLink: '' });
-             setError('');
-             setIsSubmitting(false);
-             setSuccess(false);
-           }, 300)
-        }
-    }, [isOpen]);
-    
-    const handleChange = (field: keyof EventFormData, value: string) => setFormData(prev => ({ ...prev, [field]: value }));
-
-    const handleSubmit = async () => {
-        setError('');
-        if (!formData.name || !formData.organizer || !formData.date || !formData.time || !formData.location || !formData.description) {
-            setError('All fields except the registration link are required.');
-            return;
-        }
-        setIsSubmitting(true);
-        const result = await onSubmit(formData);
-        setIsSubmitting(false);
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 
-        if (result) {
-            setSuccess(true);
-            setTimeout(() => onClose(), 2500);
-        } else {
-            setError('There was an error submitting your request.');
-        }
-    };
-
-    return (
-        <Modal isOpen={isOpen} onClose={onClose} title="Register Your Event" size="xl">
-            {success ? (
-                <div className="text-center p-4">
-                    <h3 className="text-lg font-semibold mt-4 text-slate-200">Request Sent!</h3>
-                    <p className="text-slate-400">Your event has been submitted for admin approval.</p>
-                </div>
-            ) : (
-                <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
-                    {error && <Alert type="error" message={error} onClose={() => setError('')} />}
-                    <p className="text-sm text-slate-400">Fill out the details below to request your event listing.</p>
-                    <Input label="Event Name" value={formData.name} onChange={e => handleChange('name', e.target.value)} required className="futuristic-input"/>
-                    <Input label="Club / Organizer Name" value={formData.organizer} onChange={e => handleChange('organizer', e.target.value)} required className="futuristic-input"/>
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                        <Input label="Date" type="date" value={formData.date} onChange={e => handleChange('date', e.target.value)} required className="futuristic-input"/>
-                        <Input label="Time" type="time" value={formData.time} onChange={e => handleChange('time', e.target.value)} required className="futuristic-input"/>
-                    </div>
-                    <Input label="Location / Venue" value={formData.location} onChange={e => handleChange('location', e.target.value)} required className="futuristic-input"/>
-                    <Textarea label="Event Description" value={formData.description} onChange={e => handleChange('description', e.target.value)} rows={4} required className="futuristic-input"/>
-                    <Input label="External Registration Link (Optional)" value={formData.registrationLink} onChange={e => handleChange('registrationLink', e.target.value)} placeholder="https://forms.gle/..." className="futuristic-input"/>
-                </div>
-            )}
-             {!success && (
-                <div className="mt-6 flex justify-end space-x-3">
-                    <Button variant="ghost" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
-                    <Button variant="primary" onClick={handleSubmit} isLoading={isSubmitting} leftIcon={<RocketIcon/>}>Request to Admin</Button>
-                </div>
-            )}
-        </Modal>
-    );
-};
+const TABS: { value: eventService.EventsTab; label: string }[] = [
+    { value: 'upcoming', label: 'Upcoming' },
+    { value: 'past', label: 'Past' },
+    { value: 'mine', label: 'My Registrations' },
+];
 
+const isEventsTab = (value: string | null): value is eventService.EventsTab => TABS.some(tab => tab.value === value);
 
 const EventsPage: React.FC = () => {
     const { user } = useAuth();
     const navigate = useNavigate();
+    const location = useLocation();
+    // Tab and filters live in the URL so a filtered feed can be shared or bookmarked
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [events, setEvents] = useState<Event[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+
+    const tabParam = searchParams.get('tab');
+    const tab: eventService.EventsTab = isEventsTab(tabParam) ? tabParam : 'upcoming';
+    const filters: eventService.EventFilters = {
+        organizer: searchParams.get('organizer') || '',
+        from: searchParams.get('from') || '',
+        to: searchParams.get('to') || '',
+    };
+
+    const { registrations, registeredIds, isLoading: isLoadingRegistrations, register, unregister } = useEventRegistrations(user, setEvents, setError);
+    // Waitlist entries count as the user's events too
+    const myEventIds = useMemo(() => new Set(registrations.keys()), [registrations]);
 
     const shareText = `Hey! Check out MNIT LIVE, the one-stop platform for MNIT students to exchange rooms, find events, and connect. Join the community here: ${window.location.href}`;
     const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(shareText)}`;
 
     useEffect(() => {
         document.body.classList.add('futuristic-theme');
-        setIsLoading(true);
-        const timer = setTimeout(() => setIsLoading(false), 500);
+        const controller = new AbortController();
+        eventService.getEvents(controller.signal)
+            .then(setEvents)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                console.error("Failed to load events:", err);
+                setError(err.message || 'Could not load events.');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
         return () => {
             document.body.classList.remove('futuristic-theme');
-            clearTimeout(timer);
+            controller.abort();
         };
     }, []);
-    
-    const handleRegisterClick = () => {
+
+    const organizers = useMemo(() => eventService.getOrganizers(events), [events]);
+    const visibleEvents = useMemo(
+        () => eventService.selectEvents(events, tab, filters, myEventIds),
+        [events, tab, filters.organizer, filters.from, filters.to, myEventIds]
+    );
+
+    const updateParams = (changes: Record<string, string>) => {
+        setSearchParams(prev => {
+            const next = new URLSearchParams(prev);
+            Object.entries(changes).forEach(([key, value]) => value ? next.set(key, value) : next.delete(key));
+            return next;
+        }, { replace: true });
+    };
+
+    const goToLogin = () => {
+        const state: LoginRedirectState = { from: { pathname: location.pathname, search: location.search } };
+        navigate('/login', { state });
+    };
+
+    const handleRegister = (event: Event) => user ? register(event) : goToLogin();
+
+    const handleRequestClick = () => {
         if (user) {
             setIsModalOpen(true);
         } else {
-            navigate('/login');
+            goToLogin();
         }
     };
 
@@ -122,67 +108,105 @@ const EventsPage: React.FC = () => {
     };
 
     if (isLoading) {
-        return <LoadingIndicator message="Loading Events Section..." />;
+        return <LoadingIndicator message="Loading events..." />;
     }
 
+    const hasFilters = !!(filters.organizer || filters.from || filters.to);
+    const emptyMessage = tab === 'mine'
+        ? (user ? "You haven't registered for any events yet." : 'Log in to see the events you registered for.')
+        : hasFilters ? 'No events match these filters.' : `No ${tab} events.`;
+
     return (
-        <div className="max-w-5xl mx-auto p-4 text-center">
+        <div className="max-w-7xl mx-auto p-4">
             <RequestEventModal
                 isOpen={isModalOpen}
                 onClose={() => setIsModalOpen(false)}
                 onSubmit={handleRequestSubmit}
             />
+            {user && (
+                <CalendarSyncModal
+                    isOpen={isCalendarOpen}
+                    onClose={() => setIsCalendarOpen(false)}
+                    events={events}
+                    registeredIds={registeredIds}
+                />
+            )}
 
-            <div className="flex flex-col items-center justify-center space-y-12">
-                <div className="my-8 animate-fade-in">
-                    <h1 className="text-4xl md:text-5xl font-extrabold text-white tracking-tight leading-tight futuristic-title">
-                        Features Currently in Development
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+                <div>
+                    <h1 className="text-3xl md:text-4xl font-extrabold text-white tracking-tight futuristic-title flex items-center gap-3">
+                        <CalendarDaysIcon className="w-9 h-9" />
+                        Campus Events
                     </h1>
-                    <p className="mt-4 text-lg text-slate-400 max-w-2xl mx-auto">
-                        Suggest <span className="font-bold text-cyan-400">MNIT LIVE</span> to your friends for faster availability of this feature.
-                    </p>
+                    <p className="mt-2 text-slate-400">Club recruitments, workshops and fests happening around MNIT.</p>
                 </div>
-
-                <div className="w-full max-w-lg p-8 holo-card animate-pop-in" style={{animationDelay: '200ms'}}>
-                     <h2 className="text-2xl font-bold text-cyan-300 flex items-center justify-center gap-3">
-                        <CalendarDaysIcon className="w-8 h-8" />
-                        Got an Event?
-                    </h2>
-                    <p className="mt-3 text-md text-slate-300">
-                        Organizing a club recruitment, workshop, or a fun activity? Get it listed here for everyone to see.
-                    </p>
-                    <Button
-                        variant="primary"
-                        size="lg"
-                        className="mt-6 w-full"
-                        leftIcon={<PlusIcon className="w-6 h-6"/>}
-                        onClick={handleRegisterClick}
+                <div className="flex flex-wrap gap-3">
+                    {user && (
+                        <Button variant="secondary" leftIcon={<CalendarDaysIcon className="w-5 h-5" />} onClick={() => setIsCalendarOpen(true)}>
+                            Calendar
+                        </Button>
+                    )}
+                    <a
+                        href={whatsappUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-semibold rounded-md flex items-center justify-center px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white transition-colors"
                     >
+                        <WhatsAppIcon className="w-5 h-5 mr-2" />
+                        Share
+                    </a>
+                    <Button variant="primary" leftIcon={<PlusIcon className="w-5 h-5" />} onClick={handleRequestClick}>
                         Register Your Event
                     </Button>
                 </div>
+            </div>
 
-                 <div className="w-full max-w-lg p-8 holo-card animate-pop-in" style={{animationDelay: '400ms'}}>
-                    <h2 className="text-2xl font-bold text-cyan-300 flex items-center justify-center gap-3">
-                       <WhatsAppIcon className="w-8 h-8" />
-                       Help Us Grow!
-                    </h2>
-                    <p className="mt-3 text-md text-slate-300">
-                        Love MNIT LIVE? Spread the word and help the community connect.
-                    </p>
-                    <div className="mt-6 flex flex-col sm:flex-row gap-4">
-                        <a 
-                            href={whatsappUrl} 
-                            target="_blank" 
-                            rel="noopener noreferrer" 
-                            className="flex-1 font-semibold rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-black transition-all duration-200 ease-in-out transform flex items-center justify-center shadow-lg hover:scale-[1.03] active:scale-[0.98] px-6 py-3 text-lg bg-green-600 hover:bg-green-700 text-white"
-                        >
-                            <WhatsAppIcon className="w-6 h-6 mr-3" />
-                            Share on WhatsApp
-                        </a>
-                    </div>
-                </div>
+            {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                {TABS.map(t => (
+                    <Button key={t.value} size="sm" variant={tab === t.value ? 'primary' : 'ghost'} onClick={() => updateParams({ tab: t.value === 'upcoming' ? '' : t.value })}>
+                        {t.label}
+                        {t.value === 'mine' && myEventIds.size > 0 && <span className="ml-2 text-xs opacity-80">{myEventIds.size}</span>}
+                    </Button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8 items-end">
+                <Select
+                    label="Organizer"
+                    value={filters.organizer}
+                    onChange={(value) => updateParams({ organizer: value })}
+                    options={[{ value: '', label: 'All organizers' }, ...organizers.map(o => ({ value: o, label: o }))]}
+                />
+                <Input label="From" type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateParams({ from: e.target.value })} />
+                <Input label="To" type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateParams({ to: e.target.value })} />
+                {hasFilters && (
+                    <Button variant="ghost" onClick={() => updateParams({ organizer: '', from: '', to: '' })}>Clear filters</Button>
+                )}
             </div>
+
+            {tab === 'mine' && isLoadingRegistrations ? (
+                <LoadingIndicator message="Loading your registrations..." />
+            ) : visibleEvents.length === 0 ? (
+                <div className="text-center py-12 holo-card">
+                    <p className="text-slate-300">{emptyMessage}</p>
+                    {tab === 'mine' && !user && <Button className="mt-4" onClick={goToLogin}>Log In</Button>}
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {visibleEvents.map((event, index) => (
+                        <EventCard
+                            key={event.id}
+                            event={event}
+                            registration={registrations.get(event.id)}
+                            onRegister={handleRegister}
+                            onUnregister={unregister}
+                            style={{ animationDelay: `${Math.min(index, 8) * 60}ms` }}
+                        />
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
@@ -1,8 +1,8 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { RoomListing } from '../types';
+import React, { useEffect } from 'react';
 import * as listingService from '../services/listingService';
-import { ALL_HOSTELS } from '../constants';
+import { useListingSearch } from '../hooks/useListingSearch';
 import RoomCard from '../components/RoomCard';
+import { Alert, Button } from '../components/UIElements';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingIndicator from '../components/LoadingIndicator';
 import { BuildingIcon, QuestionIcon } from '../components/VibrantIcons';
@@ -10,69 +10,49 @@ import { BuildingIcon, QuestionIcon } from '../components/VibrantIcons';
 
 const HostelRoomsPage: React.FC = () => {
   const { user } = useAuth(); 
-  const [listings, setListings] = useState<RoomListing[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { listings, total, isLoading, isLoadingMore, error, hasMore, loadMore } = useListingSearch({
+    ...listingService.visibleToUser(user),
+    sort: 'newest',
+  });
   
   useEffect(() => {
     document.body.classList.add('futuristic-theme');
     return () => document.body.classList.remove('futuristic-theme');
   }, []);
 
-  useEffect(() => {
-    const fetchAndFilterListings = async () => {
-        setIsLoading(true);
-        try {
-            const allListings = await listingService.getListings();
-
-            // All filtering should ideally happen on the backend via query params,
-            // but for this integration, we'll replicate the logic on the client.
-            let relevantListings = allListings.filter(
-                listing => listing.status === 'Open' && (!user || listing.listedBy.id !== user.id)
-            );
-
-            // Filter based on gender
-            if (user?.gender === 'Male' || user?.gender === 'Female') {
-                relevantListings = relevantListings.filter(listing => {
-                    const hostelInfo = ALL_HOSTELS.find(h => h.value === listing.roomDetails.hostel);
-                    const listingUserGender = listing.listedBy.gender;
-                    // A room is relevant if its designated gender matches the user's,
-                    // or if the lister's gender matches (for co-ed/unspecified hostels)
-                    return hostelInfo?.gender === user.gender || listingUserGender === user.gender;
-                });
-            }
-            
-            setListings(relevantListings);
-        } catch (error) {
-            console.error("Failed to fetch listings:", error);
-            // Optionally set an error state to show in the UI
-        } finally {
-            setIsLoading(false);
-        }
-    };
-    fetchAndFilterListings();
-  }, [user]);
-  
   return (
     <div className="max-w-7xl mx-auto p-4">
       <h1 className="text-3xl font-bold mb-2 text-center flex items-center justify-center gap-2 futuristic-title">
         <BuildingIcon className="w-8 h-8"/> Available Hostel Rooms
       </h1>
-      <p className="text-center text-md text-slate-300 mb-6">Browse all rooms currently listed for exchange or bidding.</p>
+      <p className="text-center text-md text-slate-300 mb-6">
+        Browse all rooms currently listed for exchange or bidding.
+        {!isLoading && total > 0 && <span className="block text-sm text-slate-400 mt-1">Showing {listings.length} of {total} rooms</span>}
+      </p>
+
+      {error && <Alert type="error" message={error} className="mb-4" />}
 
       {isLoading ? (
         <LoadingIndicator message="Loading listings..." />
       ) : listings.length > 0 ? ( 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-8">
-          {listings.map((listing, index) => (
-            <RoomCard 
-              key={listing.id} 
-              room={listing} 
-              currentUserId={user?.id}
-              className="animate-pop-in"
-              style={{ animationDelay: `${index * 80}ms` }}
-            />
-          ))}
-        </div>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-8">
+            {listings.map((listing, index) => (
+              <RoomCard 
+                key={listing.id} 
+                room={listing} 
+                currentUserId={user?.id}
+                className="animate-pop-in"
+                style={{ animationDelay: `${(index % listingService.DEFAULT_SEARCH_PAGE_SIZE) * 80}ms` }}
+              />
+            ))}
+          </div>
+          {hasMore && (
+            <div className="mt-8 text-center">
+              <Button variant="secondary" onClick={loadMore} isLoading={isLoadingMore}>Load more rooms</Button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="text-center py-12 holo-card">
           <QuestionIcon className="mx-auto h-16 w-16" />
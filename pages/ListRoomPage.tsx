@@ -7,6 +7,8 @@ import { PencilIcon, RocketIcon } from '../components/VibrantIcons';
 import { ALL_HOSTELS, BLOCKS, ROOM_TYPES } from '../constants';
 import { useNavigate } from 'react-router-dom';
 import { uploadAllotmentProof, saveListing } from '../services/listingService';
+import { defaultBiddingDeadline, toDateTimeLocalValue, validateBiddingDeadline } from '../services/bidService';
+import { MAX_PDF_BYTES, PreparedProof, ProofFileError, formatBytes, prepareAllotmentProof, releaseProofPreview } from '../services/allotmentProof';
 
 const FileUploadIcon: React.FC<{className?: string}> = ({className}) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-5 h-5 text-slate-400 ${className}`}>
@@ -33,6 +35,9 @@ const ListRoomPage: React.FC = () => {
   const [success, setSuccess] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isConfirmationModalOpen, setIsConfirmationModalOpen] = useState(false);
+  const [proof, setProof] = useState<PreparedProof | null>(null);
+  const [isPreparingProof, setIsPreparingProof] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   useEffect(() => {
     if (user?.currentRoom) {
@@ -40,6 +45,8 @@ const ListRoomPage: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => () => releaseProofPreview(proof), [proof]);
+
   const handleInputChange = <K extends keyof RoomLocation>(field: K, value: RoomLocation[K]) => {
     setFormData(prev => ({ ...prev, roomDetails: { ...prev.roomDetails, [field]: value } }));
   };
@@ -48,11 +55,25 @@ const ListRoomPage: React.FC = () => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFormData(prev => ({ ...prev, roomProofFile: e.target.files![0] }));
-    } else {
-      setFormData(prev => ({ ...prev, roomProofFile: null }));
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again after an error
+    e.target.value = '';
+    setProof(null);
+    setFormData(prev => ({ ...prev, roomProofFile: null }));
+    if (!file) return;
+
+    setError('');
+    setIsPreparingProof(true);
+    try {
+      const prepared = await prepareAllotmentProof(file);
+      setProof(prepared);
+      setFormData(prev => ({ ...prev, roomProofFile: prepared.file }));
+    } catch (err) {
+      console.error('Failed to prepare allotment proof:', err);
+      setError(err instanceof ProofFileError ? err.message : 'Could not read this file. Please try another one.');
+    } finally {
+      setIsPreparingProof(false);
     }
   };
 
@@ -73,6 +94,13 @@ const ListRoomPage: React.FC = () => {
         setError('Description is required.');
         return;
     }
+    if (formData.listingType === 'Bidding') {
+        const deadlineError = validateBiddingDeadline(formData.biddingDeadline);
+        if (deadlineError) {
+            setError(deadlineError);
+            return;
+        }
+    }
     if (!formData.roomProofFile) {
         setError('Room allocation proof (photo/screenshot) is required.');
         return;
@@ -100,7 +128,9 @@ const ListRoomPage: React.FC = () => {
       }
 
       console.log('Uploading allotment proof...');
-      const proofUploadResult = await uploadAllotmentProof(formData.roomProofFile);
+      setUploadProgress(0);
+      const proofUploadResult = await uploadAllotmentProof(formData.roomProofFile, setUploadProgress);
+      setUploadProgress(null);
       console.log('Allotment proof uploaded successfully:', proofUploadResult);
 
       // Step 2: Create listing with proof
@@ -118,9 +148,10 @@ const ListRoomPage: React.FC = () => {
       updateUserRoom(formData.roomDetails);
       setUserHasActiveListing(true);
       
-      setSuccess('Your room has been successfully listed! Redirecting to dashboard...');
+      setSuccess('Your room has been listed! It will appear in search once an admin verifies your allotment proof. Redirecting to dashboard...');
       
       // Clear form
+      setProof(null);
       setFormData(prev => ({
           ...prev,
           description: '',
@@ -141,6 +172,7 @@ const ListRoomPage: React.FC = () => {
       }
     } finally {
       setIsLoading(false);
+      setUploadProgress(null);
     }
   };
   
@@ -235,7 +267,11 @@ const ListRoomPage: React.FC = () => {
             <Select
                 label="Listing Type"
                 value={formData.listingType}
-                onChange={(value) => handleFormChange('listingType', value as ListingType)}
+                onChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    listingType: value as ListingType,
+                    biddingDeadline: value === 'Bidding' ? prev.biddingDeadline || defaultBiddingDeadline() : prev.biddingDeadline,
+                }))}
                 options={[
                     { value: 'Exchange', label: 'Up for Exchange' },
                     { value: 'Bidding', label: 'Up for Bidding' }
@@ -264,6 +300,19 @@ const ListRoomPage: React.FC = () => {
           />
         )}
 
+        {formData.listingType === 'Bidding' && (
+          <div>
+            <Input
+              label="Bidding Closes At"
+              type="datetime-local"
+              value={toDateTimeLocalValue(formData.biddingDeadline)}
+              onChange={(e) => handleFormChange('biddingDeadline', e.target.value ? new Date(e.target.value).toISOString() : '')}
+              required
+            />
+            <p className="text-xs mt-1 text-slate-500 dark:text-slate-400">Bidding closes automatically at this time. You can accept a bid before then.</p>
+          </div>
+        )}
+
         <div>
             <label htmlFor="roomProofFile" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
                 📎 Upload Room Allocation Proof
@@ -277,18 +326,47 @@ const ListRoomPage: React.FC = () => {
                             className="relative cursor-pointer bg-transparent rounded-md font-medium text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-indigo-500 px-1"
                         >
                             <span>Upload a file</span>
-                            <input id="roomProofFile-input" name="roomProofFile" type="file" className="sr-only" onChange={handleFileChange} accept="image/jpeg,image/png,application/pdf" />
+                            <input id="roomProofFile-input" name="roomProofFile" type="file" className="sr-only" onChange={handleFileChange} accept="image/jpeg,image/png,image/webp,application/pdf" disabled={isPreparingProof || isLoading} />
                         </label>
                         <p className="pl-1">or drag and drop</p>
                     </div>
-                    <p className="text-xs text-slate-500 dark:text-slate-500">PNG, JPG, PDF up to 2MB (mock)</p>
-                    {formData.roomProofFile && <p className="text-xs text-green-600 dark:text-green-400 mt-1">Selected: {formData.roomProofFile.name}</p>}
+                    <p className="text-xs text-slate-500 dark:text-slate-500">JPG, PNG or WebP photo, or a PDF up to {formatBytes(MAX_PDF_BYTES)}</p>
+                    {isPreparingProof && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Checking and compressing...</p>}
                 </div>
             </div>
+            {proof && (
+              <div className="mt-3 flex items-center gap-3 p-3 rounded-lg border border-slate-300/50 dark:border-white/15 bg-white/50 dark:bg-black/20">
+                <img src={proof.previewUrl} alt="Allotment proof preview" className="w-20 h-20 object-cover rounded border border-slate-300/50 dark:border-white/10 bg-white" />
+                <div className="text-xs space-y-0.5 min-w-0">
+                  <p className="font-medium text-green-600 dark:text-green-400 truncate">Selected: {proof.file.name}</p>
+                  {proof.kind === 'image' ? (
+                    <p className="text-slate-500 dark:text-slate-400">
+                      {proof.file.size < proof.originalBytes
+                        ? `Compressed from ${formatBytes(proof.originalBytes)} to ${formatBytes(proof.file.size)}`
+                        : formatBytes(proof.file.size)}
+                      {' · '}{proof.width}×{proof.height}, location data removed
+                    </p>
+                  ) : (
+                    <p className="text-slate-500 dark:text-slate-400">PDF · {formatBytes(proof.file.size)} · {proof.pageCount} page{proof.pageCount === 1 ? '' : 's'}</p>
+                  )}
+                </div>
+              </div>
+            )}
+            {uploadProgress !== null && (
+              <div className="mt-3">
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+                  <span>Uploading proof</span>
+                  <span>{Math.round(uploadProgress * 100)}%</span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${Math.round(uploadProgress * 100)}%` }} />
+                </div>
+              </div>
+            )}
              <p className="mt-1 text-xs text-slate-500 dark:text-slate-500">A photo/screenshot of your official room allocation is required.</p>
         </div>
         
-        <Button type="submit" className="w-full !mt-8" isLoading={isLoading} size="lg" leftIcon={<RocketIcon />}>
+        <Button type="submit" className="w-full !mt-8" isLoading={isLoading} disabled={isPreparingProof} size="lg" leftIcon={<RocketIcon />}>
           {isLoading ? 'Submitting...' : 'List My Room'}
         </Button>
       </form>
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button, Input, Alert, Select, AtSymbolIcon, LockClosedIcon, UserCircleIcon } from '../components/UIElements';
 import { KeyIcon, RocketIcon, CheckmarkIcon, PencilIcon, WhatsAppIcon } from '../components/VibrantIcons';
 import { User } from '../types';
+import { LoginRedirectState } from '../components/ProtectedRoute';
 import { sendOtp, verifyOtpAndRegister } from '@/services/tempEmailService';
 
 const LoginPage: React.FC = () => {
@@ -20,14 +21,21 @@ const LoginPage: React.FC = () => {
 
   const { login, loginWithUserData, user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Return to the page that sent us here (see ProtectedRoute), or the dashboard
+  const redirectFrom = (location.state as LoginRedirectState | null)?.from;
+  const returnPath = redirectFrom && redirectFrom.pathname !== '/login'
+    ? `${redirectFrom.pathname}${redirectFrom.search || ''}`
+    : '/dashboard';
 
   const emailRegex = /^20\d{2}u[a-z]{2,3}\d{4}@mnit\.ac\.in$/i;
 
   useEffect(() => {
     if (user) {
-      navigate('/dashboard');
+      navigate(returnPath, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnPath]);
 
   const resetFormState = () => {
     setEmail('');
@@ -61,7 +69,7 @@ const LoginPage: React.FC = () => {
     try {
       // Pass password to login function. The context handles creating a mock user.
       await login(email, password);
-      navigate('/dashboard');
+      navigate(returnPath, { replace: true });
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -138,7 +146,7 @@ const LoginPage: React.FC = () => {
         if (result.data && result.data.user) {
           loginWithUserData(result.data.user);
         }
-        navigate('/dashboard');
+        navigate(returnPath, { replace: true });
       } else {
         setError(result.error || 'Invalid OTP or registration failed. Please check and try again.');
         setOtpInput(''); // Clear the input for retry
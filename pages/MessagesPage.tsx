@@ -1,97 +1,143 @@
 
 
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { User, RoomLocation, DirectMessage } from '../types';
-import { getMessagesForUser, markMessagesAsRead } from '../services/messagingService';
+import { useRealtimeSubscription } from '../contexts/RealtimeContext';
+import { RoomLocation, DirectMessage, DirectConversation } from '../types';
+import { getConversations, getConversationMessages, markMessagesAsRead } from '../services/messagingService';
+import { isAbortError } from '../services/api';
 import LoadingIndicator from '../components/LoadingIndicator';
-import { Button } from '../components/UIElements';
-import SendMessageModal from '../components/SendMessageModal'; // For potential reply functionality
+import { Button, Alert } from '../components/UIElements';
+import SendMessageModal from '../components/SendMessageModal';
 import { EnvelopeIcon, ChatBubbleIcon, MailboxIcon } from '../components/VibrantIcons';
 
 
-interface Conversation {
-  partnerId: string;
-  partnerName: string;
-  listingId: string;
-  listingRoomSummary: string;
-  messages: DirectMessage[];
-  lastMessageTimestamp: string;
-  unreadCount: number;
-}
+const conversationKey = (conv: Pick<DirectConversation, 'partnerId' | 'listingId'>) => `${conv.partnerId}-${conv.listingId}`;
+
+// Merge a fetched page into the messages already on screen, keeping them oldest first
+const mergeMessages = (existing: DirectMessage[], incoming: DirectMessage[]): DirectMessage[] => {
+  const byId = new Map<string, DirectMessage>();
+  existing.forEach(msg => byId.set(msg.id, msg));
+  incoming.forEach(msg => byId.set(msg.id, msg));
+  return Array.from(byId.values()).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
 
 const MessagesPage: React.FC = () => {
   const { user } = useAuth();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
+  const [selectedConversation, setSelectedConversation] = useState<DirectConversation | null>(null);
+  const [threadMessages, setThreadMessages] = useState<DirectMessage[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isThreadLoading, setIsThreadLoading] = useState(false);
+  const [error, setError] = useState('');
 
   // For reply modal
   const [isReplyModalOpen, setIsReplyModalOpen] = useState(false);
   const [replyModalData, setReplyModalData] = useState<{lister: {id: string, fullName: string}, listing: {id: string, roomDetails: any, roomSummary: string}} | null>(null);
 
 
-  const loadConversations = useCallback(() => {
-    if (!user) return;
-    setIsLoading(true);
-    setTimeout(() => { // Simulate async
-      const userMessages = getMessagesForUser(user.id);
-      const groupedMessages: Record<string, Conversation> = {};
-
-      userMessages.forEach(msg => {
-        const partnerId = msg.senderId === user.id ? msg.receiverId : msg.senderId;
-        const partnerName = msg.senderId === user.id ? msg.receiverName : msg.senderName;
-        const conversationKey = `${partnerId}-${msg.listingId}`;
-
-        if (!groupedMessages[conversationKey]) {
-          groupedMessages[conversationKey] = {
-            partnerId,
-            partnerName,
-            listingId: msg.listingId,
-            listingRoomSummary: msg.listingRoomSummary,
-            messages: [],
-            lastMessageTimestamp: '1970-01-01T00:00:00.000Z',
-            unreadCount: 0,
-          };
-        }
-        groupedMessages[conversationKey].messages.push(msg);
-        if (new Date(msg.timestamp) > new Date(groupedMessages[conversationKey].lastMessageTimestamp)) {
-          groupedMessages[conversationKey].lastMessageTimestamp = msg.timestamp;
-        }
-        if (msg.receiverId === user.id && !msg.isReadByReceiver) {
-          groupedMessages[conversationKey].unreadCount++;
-        }
-      });
-      
-      const convArray = Object.values(groupedMessages).sort((a,b) => new Date(b.lastMessageTimestamp).getTime() - new Date(a.lastMessageTimestamp).getTime());
+  const loadConversations = useCallback(async (signal?: AbortSignal) => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    try {
+      const convArray = await getConversations(signal);
       setConversations(convArray);
       // Automatically select the first conversation if none is selected
-      if (!selectedConversation && convArray.length > 0) {
-        handleSelectConversation(convArray[0], true); // Pass a flag to prevent re-reading messages
+      setSelectedConversation(prev => {
+        if (prev) return convArray.find(c => conversationKey(c) === conversationKey(prev)) || prev;
+        return convArray[0] || null;
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to load conversations:", err);
+      setError('Could not load your conversations. Please try again later.');
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  }, [user]);
+
+  // Fetches the latest page of the selected thread and records read receipts for it
+  const refreshThread = useCallback(async (conv: DirectConversation, replace = false, signal?: AbortSignal) => {
+    if (!user) return;
+    try {
+      const page = await getConversationMessages(conv.partnerId, conv.listingId, { signal });
+      setThreadMessages(prev => replace ? page.messages : mergeMessages(prev, page.messages));
+      if (replace) setOlderCursor(page.nextCursor);
+
+      const unreadMessageIds = page.messages.filter(m => m.receiverId === user.id && !m.isReadByReceiver).map(m => m.id);
+      if (unreadMessageIds.length > 0) {
+        await markMessagesAsRead(unreadMessageIds, user.id);
+        setConversations(prev => prev.map(c => conversationKey(c) === conversationKey(conv) ? { ...c, unreadCount: 0 } : c));
       }
-      setIsLoading(false);
-    }, 300);
-  }, [user, selectedConversation]);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to load messages:", err);
+      setError('Could not load this conversation.');
+    }
+  }, [user]);
 
   useEffect(() => {
-    loadConversations();
-    const intervalId = setInterval(loadConversations, 5000); // Periodically check for new messages
-    return () => clearInterval(intervalId);
+    const controller = new AbortController();
+    loadConversations(controller.signal);
+    return () => controller.abort();
   }, [loadConversations]);
 
-  const handleSelectConversation = (conv: Conversation, isInitialLoad = false) => {
-    setSelectedConversation(conv);
-    if (user && conv.unreadCount > 0 && !isInitialLoad) {
-      const unreadMessageIds = conv.messages.filter(m => m.receiverId === user.id && !m.isReadByReceiver).map(m => m.id);
-      if (unreadMessageIds.length > 0) {
-        markMessagesAsRead(unreadMessageIds, user.id);
-        // Refresh conversations to update unread counts everywhere
-        loadConversations();
-      }
+  // A pushed message bumps the conversation summary, which in turn pulls it into the open thread.
+  // Without a socket, conversations are re-fetched every 5s instead.
+  useRealtimeSubscription('dm:message', () => {
+    loadConversations();
+  }, () => loadConversations(), 5000);
+
+  useRealtimeSubscription('dm:read', ({ messageIds, readAt }) => {
+    setThreadMessages(prev => prev.map(m => messageIds.includes(m.id) ? { ...m, isReadByReceiver: true, readAt } : m));
+  });
+
+  const selectedKey = selectedConversation ? conversationKey(selectedConversation) : null;
+  const selectedLastMessageId = selectedConversation?.lastMessage.id;
+
+  // Load the thread when the selection changes...
+  useEffect(() => {
+    if (!selectedConversation) return;
+    // Switching threads cancels a load still in flight for the previous one
+    const controller = new AbortController();
+    setIsThreadLoading(true);
+    setThreadMessages([]);
+    refreshThread(selectedConversation, true, controller.signal).finally(() => {
+      if (!controller.signal.aborted) setIsThreadLoading(false);
+    });
+    return () => controller.abort();
+  }, [selectedKey]);
+
+  // ...and pull in new messages whenever the conversation summary reports a newer one.
+  useEffect(() => {
+    if (!selectedConversation || isThreadLoading) return;
+    if (threadMessages.some(m => m.id === selectedLastMessageId)) return;
+    refreshThread(selectedConversation);
+  }, [selectedLastMessageId]);
+
+  const handleLoadOlder = async () => {
+    if (!selectedConversation || !olderCursor) return;
+    setIsThreadLoading(true);
+    try {
+      const page = await getConversationMessages(selectedConversation.partnerId, selectedConversation.listingId, { before: olderCursor });
+      setThreadMessages(prev => mergeMessages(prev, page.messages));
+      setOlderCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Failed to load older messages:", err);
+      setError('Could not load older messages.');
+    } finally {
+      setIsThreadLoading(false);
     }
   };
 
-  const handleOpenReplyModal = (conv: Conversation) => {
+  const handleSelectConversation = (conv: DirectConversation) => {
+    setSelectedConversation(conv);
+  };
+
+  const handleOpenReplyModal = (conv: DirectConversation) => {
     if (!user) return;
     setReplyModalData({
         lister: { id: conv.partnerId, fullName: conv.partnerName }, 
@@ -117,13 +163,16 @@ const MessagesPage: React.FC = () => {
       {isReplyModalOpen && replyModalData && user && (
         <SendMessageModal
             isOpen={isReplyModalOpen}
-            onClose={() => {setIsReplyModalOpen(false); loadConversations();}}
+            onClose={() => setIsReplyModalOpen(false)}
+            onSent={() => { loadConversations(); if (selectedConversation) refreshThread(selectedConversation); }}
             currentUser={user}
             lister={replyModalData.lister}
             listing={replyModalData.listing}
         />
       )}
 
+      {error && <Alert type="error" message={error} onClose={() => setError('')} className="mb-4" />}
+
       {conversations.length === 0 && !isLoading && (
         <div className="text-center py-12 bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-xl border border-white/20 dark:border-white/10">
            <MailboxIcon className="mx-auto h-16 w-16"/>
@@ -141,10 +190,10 @@ const MessagesPage: React.FC = () => {
           <div className="divide-y divide-slate-200/90 dark:divide-white/10">
             {conversations.map(conv => (
               <div 
-                key={`${conv.partnerId}-${conv.listingId}`} 
+                key={conversationKey(conv)} 
                 onClick={() => handleSelectConversation(conv)}
                 className={`p-4 cursor-pointer transition-colors
-                            ${selectedConversation?.partnerId === conv.partnerId && selectedConversation?.listingId === conv.listingId ? 'bg-indigo-500/20 dark:bg-indigo-500/30' : 'hover:bg-indigo-500/10 dark:hover:bg-indigo-500/20'}`}
+                            ${selectedKey === conversationKey(conv) ? 'bg-indigo-500/20 dark:bg-indigo-500/30' : 'hover:bg-indigo-500/10 dark:hover:bg-indigo-500/20'}`}
               >
                 <div className="flex justify-between items-center">
                   <p className={`font-semibold truncate ${conv.unreadCount > 0 ? 'text-indigo-700 dark:text-indigo-300' : 'text-slate-800 dark:text-slate-200'}`}>{conv.partnerName}</p>
@@ -154,8 +203,8 @@ const MessagesPage: React.FC = () => {
                 </div>
                 <p className="text-xs text-slate-600 dark:text-slate-400 truncate">Room: {conv.listingRoomSummary}</p>
                 <p className="text-sm text-slate-500 dark:text-slate-400 truncate mt-1">
-                  {conv.messages[conv.messages.length-1]?.senderId === user.id ? "You: " : ""}
-                  {conv.messages[conv.messages.length-1]?.message}
+                  {conv.lastMessage.senderId === user.id ? "You: " : ""}
+                  {conv.lastMessage.message}
                 </p>
               </div>
             ))}
@@ -173,13 +222,20 @@ const MessagesPage: React.FC = () => {
                 <p className="text-sm text-slate-700 dark:text-slate-300">Regarding: {selectedConversation.listingRoomSummary}</p>
               </div>
               <div className="flex-grow overflow-y-auto space-y-4 p-2">
-                {selectedConversation.messages.sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()).map(msg => (
+                {olderCursor && (
+                  <div className="text-center">
+                    <Button variant="ghost" size="sm" onClick={handleLoadOlder} isLoading={isThreadLoading}>Load older messages</Button>
+                  </div>
+                )}
+                {isThreadLoading && threadMessages.length === 0 && <LoadingIndicator size="sm" message="Loading conversation..." />}
+                {threadMessages.map(msg => (
                   <div key={msg.id} className={`flex flex-col ${msg.senderId === user.id ? 'items-end' : 'items-start'}`}>
                     <div className={`p-3 rounded-lg max-w-[80%] shadow-md ${msg.senderId === user.id ? 'bg-gradient-to-br from-indigo-500 to-purple-600 text-white' : 'bg-white dark:bg-white/10 backdrop-blur-md text-slate-800 dark:text-slate-200'}`}>
                       <p className="text-sm">{msg.message}</p>
                     </div>
                     <p className={`text-xs mt-1 px-1 text-slate-500 dark:text-slate-400`}>
                       {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {msg.senderId === user.id && msg.isReadByReceiver && <span className="ml-1">· Seen</span>}
                     </p>
                   </div>
                 ))}
@@ -2,15 +2,16 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { MatchRequest, RoomListing, User, RoomLocation } from '../types';
-import { MOCK_ROOM_LISTINGS, MOCK_USERS_DB } from '../constants';
-import { getMessagesForUser } from '../services/messagingService'; // Assuming this is needed for something
+import { MatchRequest, MatchRequestDetails, RoomLocation, SwapCandidate, SwapCycle } from '../types';
+import * as matchRequestService from '../services/matchRequestService';
+import { findSwapCycles, swapCycleKey } from '../services/swapCycles';
+import { isAbortError } from '../services/api';
 import RequestCard from '../components/RequestCard';
+import SwapCycleCard from '../components/SwapCycleCard';
 import LoadingIndicator from '../components/LoadingIndicator';
 import SendMessageModal from '../components/SendMessageModal';
-import { Modal, Button } from '../components/UIElements';
+import { Modal, Button, Alert } from '../components/UIElements';
 import { ClipboardDocumentListIcon, HandshakeIcon, EnvelopeIcon, CheckmarkIcon, QuestionIcon, RocketIcon } from '../components/VibrantIcons';
-import { initializeUserDb, swapUserRooms } from '../services/friendService';
 
 
 const SummaryCard: React.FC<{ title: string; count: number; icon: React.ReactNode }> = ({ title, count, icon }) => (
@@ -25,11 +26,13 @@ const SummaryCard: React.FC<{ title: string; count: number; icon: React.ReactNod
 
 const RoomRequestsPage: React.FC = () => {
     const { user, refreshUser } = useAuth();
-    const [allRequests, setAllRequests] = useState<MatchRequest[]>([]);
+    const [allRequests, setAllRequests] = useState<MatchRequestDetails[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [activeTab, setActiveTab] = useState<'sent' | 'received'>('received');
-    const [listingsMap, setListingsMap] = useState<Map<string, RoomListing>>(new Map());
-    const [usersMap, setUsersMap] = useState<Map<string, Pick<User, 'id'|'fullName'|'rollNumber'|'gender'>>>(new Map());
+    const [error, setError] = useState('');
+    const [busyRequestId, setBusyRequestId] = useState<string | null>(null);
+    const [swapCandidates, setSwapCandidates] = useState<SwapCandidate[]>([]);
+    const [proposingCycleKey, setProposingCycleKey] = useState<string | null>(null);
 
     // State for modals
     const [isCongratsModalOpen, setIsCongratsModalOpen] = useState(false);
@@ -37,109 +40,133 @@ const RoomRequestsPage: React.FC = () => {
     const [isSendMessageModalOpen, setIsSendMessageModalOpen] = useState(false);
     const [messageModalData, setMessageModalData] = useState<{lister: {id: string, fullName: string}, listing: {id: string, roomDetails: RoomLocation, roomSummary: string}} | null>(null);
 
-    // This mock data should be fetched from a service, but for now...
-    const [mockRequests, setMockRequests] = useState<MatchRequest[]>([]);
-
-
-    const loadData = useCallback(() => {
-        setIsLoading(true);
-        // Simulate fetching data
-        setTimeout(() => {
-            initializeUserDb(); // Ensure user DB in localStorage is ready
-            // In a real app, this would be an API call. For the demo, we use a simple mock.
-            const fetchedRequests: MatchRequest[] = [
-                { id: 'req-1', listingId: '1', requesterId: 'user-amit.verma', status: 'Pending', createdAt: new Date(Date.now() - 3600000 * 2).toISOString(), approvals: [] },
-                { id: 'req-2', listingId: '5', requesterId: 'user-rohan.sharma', status: 'Accepted', createdAt: new Date(Date.now() - 3600000 * 5).toISOString(), approvals: ['user-vikram.singh'] },
-                { id: 'req-3', listingId: '4', requesterId: 'user-priya.mehta', status: 'Rejected', createdAt: new Date(Date.now() - 3600000 * 10).toISOString(), approvals: [] },
-                { id: 'req-4', listingId: '2', requesterId: 'user-anjali.desai', status: 'Pending', createdAt: new Date(Date.now() - 3600000 * 1).toISOString(), approvals: [] },
-            ];
-            setMockRequests(fetchedRequests);
-            setAllRequests(fetchedRequests);
-
-            const lMap = new Map<string, RoomListing>();
-            MOCK_ROOM_LISTINGS.forEach(l => lMap.set(l.id, l));
-            setListingsMap(lMap);
-
-            const uMap = new Map<string, Pick<User, 'id'|'fullName'|'rollNumber'|'gender'>>();
-            MOCK_USERS_DB.forEach(u => uMap.set(u.id, {id: u.id, fullName: u.fullName, rollNumber: u.rollNumber, gender: u.gender}));
-            if(user) { 
-                uMap.set(user.id, {id: user.id, fullName: user.fullName, rollNumber: user.rollNumber, gender: user.gender});
-            }
-            setUsersMap(uMap);
-            
-            setIsLoading(false);
-        }, 500);
-    }, [user]);
-
     useEffect(() => {
+        if (!user) return;
+        const controller = new AbortController();
+        const loadData = async () => {
+            setIsLoading(true);
+            try {
+                setAllRequests(await matchRequestService.getMatchRequests(controller.signal));
+            } catch (err: any) {
+                if (isAbortError(err)) return;
+                console.error("Failed to load match requests:", err);
+                setError(err.message || 'Could not load your requests.');
+            } finally {
+                if (!controller.signal.aborted) setIsLoading(false);
+            }
+        };
+        const loadSwapCandidates = async () => {
+            try {
+                setSwapCandidates(await matchRequestService.getSwapCandidates(controller.signal));
+            } catch (err) {
+                // Suggestions are optional; the requests list still works without them
+                if (!isAbortError(err)) console.error("Failed to load swap candidates:", err);
+            }
+        };
         loadData();
-    }, [loadData]);
-
+        loadSwapCandidates();
+        return () => controller.abort();
+    }, [user?.id]);
 
     const { sentRequests, receivedRequests } = useMemo(() => {
         if (!user) return { sentRequests: [], receivedRequests: [] };
-        const sent = allRequests
-            .filter(r => r.requesterId === user.id)
-            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        
-        const myListingIds = MOCK_ROOM_LISTINGS.filter(l => l.listedBy.id === user.id).map(l => l.id);
-        const received = allRequests
-            .filter(r => myListingIds.includes(r.listingId))
-            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-        return { sentRequests: sent, receivedRequests: received };
+        const newestFirst = (a: MatchRequest, b: MatchRequest) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        return {
+            sentRequests: allRequests.filter(r => r.requesterId === user.id).sort(newestFirst),
+            receivedRequests: allRequests.filter(r => r.listerId === user.id).sort(newestFirst),
+        };
     }, [allRequests, user]);
 
-    const approvedCount = useMemo(() => {
-        return allRequests.filter(r => r.status === 'Confirmed' && (r.requesterId === user?.id || listingsMap.get(r.listingId)?.listedBy.id === user?.id)).length;
-    }, [allRequests, user, listingsMap]);
+    // A multi-way swap shows up as two requests for each participant but is one exchange
+    const approvedCount = useMemo(
+        () => new Set(allRequests.filter(r => r.status === 'Confirmed').map(r => r.group?.id ?? r.id)).size,
+        [allRequests]
+    );
+
+    // Cycles the user is part of that nobody has proposed yet
+    const suggestedCycles = useMemo(() => {
+        if (!user || swapCandidates.length === 0) return [];
+        const proposed = new Set(
+            allRequests
+                .filter(r => r.group && (r.status === 'Pending' || r.status === 'Accepted'))
+                .map(r => swapCycleKey(r.group!.listingIds))
+        );
+        return findSwapCycles(swapCandidates, { includeUserId: user.id }).filter(cycle => !proposed.has(cycle.key));
+    }, [swapCandidates, allRequests, user]);
 
-    const handleRequestStatusUpdate = useCallback((requestId: string, newStatus: 'Accepted' | 'Rejected' | 'Withdrawn') => {
+    // Linked requests share their status and approvals, so an update to one leg applies to all of them
+    const replaceRequest = (updated: MatchRequestDetails) => {
         setAllRequests(prev => prev.map(req => {
-            if (req.id === requestId) {
-                return { ...req, status: newStatus as MatchRequest['status'] };
+            if (req.id === updated.id) return updated;
+            if (updated.group && req.group?.id === updated.group.id) {
+                return { ...req, status: updated.status, approvals: updated.approvals, confirmedAt: updated.confirmedAt };
             }
             return req;
         }));
+    };
+
+    const handleProposeCycle = async (cycle: SwapCycle) => {
+        setError('');
+        setProposingCycleKey(cycle.key);
+        try {
+            const created = await matchRequestService.proposeSwapCycle(cycle);
+            setAllRequests(prev => [...prev.filter(req => !created.some(c => c.id === req.id)), ...created]);
+        } catch (err: any) {
+            console.error("Failed to propose swap cycle:", err);
+            setError(err.message || 'Could not propose this swap. One of the listings may have closed.');
+        } finally {
+            setProposingCycleKey(null);
+        }
+    };
+
+    const handleRequestStatusUpdate = useCallback(async (requestId: string, newStatus: 'Accepted' | 'Rejected' | 'Withdrawn') => {
+        const actions = {
+            Accepted: matchRequestService.acceptMatchRequest,
+            Rejected: matchRequestService.rejectMatchRequest,
+            Withdrawn: matchRequestService.withdrawMatchRequest,
+        };
+        setError('');
+        setBusyRequestId(requestId);
+        try {
+            replaceRequest(await actions[newStatus](requestId));
+        } catch (err: any) {
+            console.error(`Failed to mark request ${requestId} as ${newStatus}:`, err);
+            setError(err.message || 'Could not update the request. Please try again.');
+        } finally {
+            setBusyRequestId(null);
+        }
     }, []);
-    
+
     const handleApproveDeal = async (requestId: string) => {
         if (!user) return;
-        const requestIndex = allRequests.findIndex(r => r.id === requestId);
-        if (requestIndex === -1) return;
-    
-        const updatedRequests = [...allRequests];
-        const request = { ...updatedRequests[requestIndex] };
-    
-        // Add current user's approval if not already there
-        if (!request.approvals.includes(user.id)) {
-            request.approvals.push(user.id);
-        }
-    
-        const listerId = listingsMap.get(request.listingId)?.listedBy.id;
-    
-        // Check for mutual approval
-        if (listerId && request.approvals.includes(request.requesterId) && request.approvals.includes(listerId)) {
-            request.status = 'Confirmed';
-            
-            // Perform the room swap
-            const swappedUsers = await swapUserRooms(request.requesterId, listerId);
-            
-            if (swappedUsers) {
-                // Trigger UI updates
+        setError('');
+        setBusyRequestId(requestId);
+        try {
+            const { request, swapped, currentRoom } = await matchRequestService.confirmMatchRequest(requestId);
+            replaceRequest(request);
+
+            if (swapped) {
+                // The server has already moved everyone and closed their listings
                 refreshUser();
-                setCongratsMessage(`Congratulations! You have successfully exchanged rooms with ${user.id === swappedUsers.user1.id ? swappedUsers.user2.fullName : swappedUsers.user1.fullName}. Your new room is ${user.id === swappedUsers.user1.id ? swappedUsers.user1.currentRoom?.roomNumber : swappedUsers.user2.currentRoom?.roomNumber}.`);
+                const partner = request.requesterId === user.id ? request.lister : request.requester;
+                const newRoom = currentRoom ? ` Your new room is ${currentRoom.hostel} ${currentRoom.block}/${currentRoom.roomNumber}.` : '';
+                const exchange = request.group && request.group.listingIds.length > 2
+                    ? `completed a ${request.group.listingIds.length}-way room swap`
+                    : `successfully exchanged rooms with ${partner.fullName}`;
+                setCongratsMessage(`Congratulations! You have ${exchange}.${newRoom}`);
                 setIsCongratsModalOpen(true);
             }
+        } catch (err: any) {
+            console.error(`Failed to confirm request ${requestId}:`, err);
+            setError(err.message || 'Could not confirm the exchange. Please try again.');
+        } finally {
+            setBusyRequestId(null);
         }
-    
-        updatedRequests[requestIndex] = request;
-        setAllRequests(updatedRequests);
     };
 
     const handleOpenMessageModal = (partner: {id: string, fullName: string}, listing: {id: string, roomSummary: string}) => {
         if (!user) return;
-        const listingDetails = listingsMap.get(listing.id);
+        const listingDetails = allRequests.find(r => r.listingId === listing.id)?.listing;
         if(!listingDetails) return;
 
         setMessageModalData({ 
@@ -157,7 +184,7 @@ const RoomRequestsPage: React.FC = () => {
     if (isLoading) return <LoadingIndicator message="Loading your requests..." />;
     if (!user) return <p>Please log in to see your requests.</p>;
 
-    const renderRequestList = (requests: MatchRequest[], type: 'sent' | 'received') => {
+    const renderRequestList = (requests: MatchRequestDetails[], type: 'sent' | 'received') => {
         if (requests.length === 0) {
             return (
                 <div className="text-center py-12">
@@ -171,28 +198,21 @@ const RoomRequestsPage: React.FC = () => {
         }
         return (
             <div className="space-y-4 p-1">
-                {requests.map(req => {
-                    const listingDetails = listingsMap.get(req.listingId);
-                    const requesterDetails = usersMap.get(req.requesterId);
-                    const listerDetails = listingDetails ? usersMap.get(listingDetails.listedBy.id) : undefined;
-                    
-                    if (!listingDetails || !requesterDetails || !listerDetails) return null;
-
-                    return (
-                        <RequestCard 
-                            key={req.id}
-                            request={req}
-                            type={type}
-                            currentUserId={user.id}
-                            listingDetails={listingDetails}
-                            requesterDetails={requesterDetails}
-                            listerDetails={listerDetails}
-                            onUpdateStatus={handleRequestStatusUpdate}
-                            onApproveDeal={handleApproveDeal}
-                            onMessage={handleOpenMessageModal}
-                        />
-                    );
-                })}
+                {requests.map(req => (
+                    <RequestCard 
+                        key={req.id}
+                        request={req}
+                        type={type}
+                        currentUserId={user.id}
+                        listingDetails={req.listing}
+                        requesterDetails={req.requester}
+                        listerDetails={req.lister}
+                        isBusy={busyRequestId === req.id}
+                        onUpdateStatus={handleRequestStatusUpdate}
+                        onApproveDeal={handleApproveDeal}
+                        onMessage={handleOpenMessageModal}
+                    />
+                ))}
             </div>
         );
     };
@@ -231,6 +251,8 @@ const RoomRequestsPage: React.FC = () => {
                 <SummaryCard title="Approved Exchanges" count={approvedCount} icon={<CheckmarkIcon />} />
             </div>
 
+            {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+
             <div className="bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-xl border border-white/20 dark:border-white/10">
                 <div className="flex border-b border-slate-200/90 dark:border-white/10 p-2">
                     <button onClick={() => setActiveTab('received')} className={`flex-1 p-3 font-semibold rounded-md transition-colors ${activeTab === 'received' ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-200' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200/50 dark:hover:bg-black/20'}`}>
@@ -245,6 +267,28 @@ const RoomRequestsPage: React.FC = () => {
                     {activeTab === 'sent' && renderRequestList(sentRequests, 'sent')}
                 </div>
             </div>
+
+            {suggestedCycles.length > 0 && (
+                <div className="mt-8 bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-xl border border-white/20 dark:border-white/10 p-4 sm:p-6">
+                    <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <HandshakeIcon className="w-6 h-6" /> Swap Chains For You
+                    </h2>
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 mb-4">
+                        Open listings where everyone, including you, would move into a room they asked for.
+                    </p>
+                    <div className="space-y-4">
+                        {suggestedCycles.map(cycle => (
+                            <SwapCycleCard
+                                key={cycle.key}
+                                cycle={cycle}
+                                currentUserId={user.id}
+                                isProposing={proposingCycleKey === cycle.key}
+                                onPropose={handleProposeCycle}
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
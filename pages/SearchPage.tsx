@@ -1,142 +1,125 @@
 
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { RoomListing, ListingType, RoomType, User, RoomLocation } from '../types'; // Added User, RoomLocation
-import { MOCK_ROOM_LISTINGS, ALL_HOSTELS, BLOCKS, ROOM_TYPES, getHostelGender } from '../constants';
+import { useSearchParams } from 'react-router-dom';
+import { ListingType, RoomType, RoomListing, ListingCompatibility, ListingSearchFilters, ListingSortOrder, SavedSearch } from '../types';
+import { ALL_HOSTELS, BLOCKS, FLOORS, ROOM_TYPES, getHostelGender } from '../constants';
 import RoomCard from '../components/RoomCard';
+import BidsModal from '../components/BidsModal';
 import { Input, Select, Button, Alert } from '../components/UIElements'; // Added Alert
 import { useAuth } from '../contexts/AuthContext';
 import LoadingIndicator from '../components/LoadingIndicator';
-import { SearchIcon as VibrantSearchIcon, QuestionIcon, HandshakeIcon } from '../components/VibrantIcons';
+import { SearchIcon as VibrantSearchIcon, QuestionIcon } from '../components/VibrantIcons';
+import * as matchRequestService from '../services/matchRequestService';
+import { scoreListing } from '../services/compatibilityScoring';
+import { isAbortError } from '../services/api';
+import * as listingService from '../services/listingService';
+import { filtersFromSearchParams, filtersToSearchParams, filtersToListingSearch } from '../services/savedSearchService';
+import { useListingSearch } from '../hooks/useListingSearch';
+import { useListingInterest } from '../hooks/useListingInterest';
+import { useSavedSearches } from '../contexts/SavedSearchContext';
+import SavedSearchesPanel from '../components/SavedSearchesPanel';
 
+type SearchSort = 'bestMatch' | ListingSortOrder;
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 const SearchPage: React.FC = () => {
   const { user } = useAuth(); 
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [filters, setFilters] = useState<{
-    hostel: string;
-    block: string;
-    listingType: ListingType | '';
-    roomType: RoomType | '';
-  }>({
-    hostel: '',
-    block: '',
-    listingType: '',
-    roomType: '',
-  });
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The URL is the source of truth for filters, so they survive navigation and can be shared
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const { markSeen } = useSavedSearches();
 
-  const [displayListings, setDisplayListings] = useState<RoomListing[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [userInterests, setUserInterests] = useState<Record<string, boolean>>({});
   const [actionError, setActionError] = useState<string>(''); // For errors on actions like bidding
+  const [requestedListingIds, setRequestedListingIds] = useState<Set<string>>(new Set());
+  const [actionSuccess, setActionSuccess] = useState<string>('');
+  const [sortBy, setSortBy] = useState<SearchSort>('bestMatch');
+
+  // Wait for a pause in typing before searching on the text
+  const [debouncedQuery, setDebouncedQuery] = useState(filters.query);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(filters.query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filters.query]);
+
+  const {
+    listings: displayListings, total, isLoading, isLoadingMore, error: searchError, hasMore, loadMore, updateListings,
+  } = useListingSearch({
+    ...listingService.visibleToUser(user),
+    ...filtersToListingSearch({ ...filters, query: debouncedQuery }),
+    // Best match is scored on the device, so it re-ranks the pages loaded so far
+    sort: sortBy === 'bestMatch' ? 'newest' : sortBy,
+  });
 
   useEffect(() => {
-    setIsLoading(true);
-    let relevantListings = MOCK_ROOM_LISTINGS;
-    if (user?.gender === 'Male' || user?.gender === 'Female') {
-      relevantListings = MOCK_ROOM_LISTINGS.filter(listing => {
-        const hostelGender = getHostelGender(listing.roomDetails.hostel);
-        const listingUserGender = listing.listedBy.gender;
-         // Allow if hostel gender matches user gender OR if hostel gender is unknown and lister gender matches user gender
-        return (hostelGender === user.gender) || (hostelGender === 'Unknown' && listingUserGender === user.gender);
+    if (!user) return;
+    const controller = new AbortController();
+    matchRequestService.getMatchRequests(controller.signal)
+      .then(requests => {
+        const open = requests.filter(r => r.requesterId === user.id && (r.status === 'Pending' || r.status === 'Accepted'));
+        setRequestedListingIds(new Set(open.map(r => r.listingId)));
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error("Failed to load sent match requests:", error);
       });
+    return () => controller.abort();
+  }, [user?.id]);
+
+  const handleRequestExchange = async (listingId: string) => {
+    setActionError('');
+    setActionSuccess('');
+    try {
+      await matchRequestService.createMatchRequest(listingId);
+      setRequestedListingIds(prev => new Set(prev).add(listingId));
+      setActionSuccess('Exchange request sent! Track it on the Room Requests page.');
+    } catch (error: any) {
+      console.error("Failed to send match request:", error);
+      setActionError(error.message || 'Could not send the exchange request.');
     }
-    
-    setDisplayListings(relevantListings);
-    setTimeout(() => setIsLoading(false), 300); 
-  }, [user]);
+  };
 
-  const handleFilterChange = (filterName: keyof typeof filters, value: string) => {
-    setFilters(prev => ({ ...prev, [filterName]: value }));
+  const handleFilterChange = (filterName: keyof ListingSearchFilters, value: string) => {
+    // Replace rather than push, so Back leaves the page instead of undoing keystrokes
+    setSearchParams(filtersToSearchParams({ ...filters, [filterName]: value }), { replace: true });
     setActionError(''); // Clear error on filter change
   };
-  
-  const handleExpressInterest = (listingId: string, currentInterestStatus: boolean) => {
-    setActionError(''); // Clear previous errors
-    if (!user) {
-      setActionError("You must be logged in to express interest.");
-      return;
-    }
 
-    const targetListing = displayListings.find(l => l.id === listingId);
-    if (!targetListing) {
-      setActionError("Listing not found.");
-      return;
-    }
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    setSearchParams(filtersToSearchParams(search.filters));
+    setActionError('');
+    markSeen(search.id);
+  };
+  
+  const [biddingListingId, setBiddingListingId] = useState<string | null>(null);
+  const biddingListing = displayListings.find(listing => listing.id === biddingListingId) || null;
 
-    // Gender compatibility check for bidding/expressing interest
-    const listingHostelGender = getHostelGender(targetListing.roomDetails.hostel);
-    const listingOwnerGender = targetListing.listedBy.gender;
-
-    let isCompatible = false;
-    if (user.gender === 'Male' || user.gender === 'Female') {
-        if (listingHostelGender === user.gender) {
-            isCompatible = true;
-        } else if (listingHostelGender === 'Unknown' && listingOwnerGender === user.gender) {
-            isCompatible = true;
-        }
-    } else if (user.gender === 'Other') { // Or any other logic for 'Other' gender if needed
-        isCompatible = true; // Or false, depending on rules for 'Other'
-    }
+  const handleListingUpdate = (listingId: string, changes: Partial<RoomListing>) => {
+    updateListings(prev => prev.map(listing => listing.id === listingId ? { ...listing, ...changes } : listing));
+  };
 
+  const handleExpressInterest = useListingInterest(user, displayListings, updateListings, message => {
+    setActionSuccess('');
+    setActionError(message);
+  });
 
-    if (!isCompatible) {
-      setActionError(`You cannot express interest in this room due to gender restrictions. (Your gender: ${user.gender}, Hostel/Lister policy).`);
-      console.warn(`Attempted to bid on incompatible listing: User ${user.id} (${user.gender}) on Listing ${listingId} (Hostel: ${listingHostelGender}, Lister: ${listingOwnerGender})`);
-      return;
-    }
+  const compatibilityById = useMemo(() => {
+    if (!user) return new Map<string, ListingCompatibility>();
+    return new Map(displayListings.map(listing => [listing.id, scoreListing(user, listing)]));
+  }, [displayListings, user]);
 
-    setDisplayListings(prevListings =>
-      prevListings.map(listing => {
-        if (listing.id === listingId) {
-          const newInterestCount = currentInterestStatus 
-            ? (listing.interestCount || 0) - 1 
-            : (listing.interestCount || 0) + 1;
-          return { ...listing, interestCount: Math.max(0, newInterestCount) };
-        }
-        return listing;
-      })
+  const sortedListings = useMemo(() => {
+    // Server order already holds for the other sorts
+    if (sortBy !== 'bestMatch' || !user) return displayListings;
+    return [...displayListings].sort((a, b) =>
+      (compatibilityById.get(b.id)?.score ?? 0) - (compatibilityById.get(a.id)?.score ?? 0)
+      || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      || a.id.localeCompare(b.id)
     );
-    setUserInterests(prev => ({...prev, [listingId]: !currentInterestStatus}));
-  };
-
-  const filteredListings = useMemo(() => {
-    return displayListings.filter(listing => {
-      if (user && listing.listedBy.id === user.id) return false; 
-      if (listing.status !== 'Open') return false; 
-
-      // This primary display filtering should already ensure compatibility. The check in handleExpressInterest is a safeguard.
-      if (user?.gender === 'Male' || user?.gender === 'Female') {
-        const hostelGender = getHostelGender(listing.roomDetails.hostel);
-        const listingUserGender = listing.listedBy.gender;
-        if (!((hostelGender === user.gender) || (hostelGender === 'Unknown' && listingUserGender === user.gender))) {
-            return false;
-        }
-      }
-
-      const matchesHostel = filters.hostel ? listing.roomDetails.hostel === filters.hostel : true;
-      const matchesBlock = filters.block ? listing.roomDetails.block === filters.block : true;
-      const matchesListingType = filters.listingType ? listing.listingType === filters.listingType : true;
-      const matchesRoomType = filters.roomType ? listing.roomDetails.type === filters.roomType : true;
-      
-      const searchLower = searchTerm.toLowerCase();
-      const matchesSearchTerm = searchTerm ? (
-        listing.roomDetails.hostel.toLowerCase().includes(searchLower) ||
-        listing.roomDetails.block.toLowerCase().includes(searchLower) ||
-        listing.roomDetails.roomNumber.toLowerCase().includes(searchLower) ||
-        listing.description.toLowerCase().includes(searchLower) ||
-        (listing.desiredTradeConditions && listing.desiredTradeConditions.toLowerCase().includes(searchLower)) ||
-        listing.listedBy.fullName.toLowerCase().includes(searchLower) ||
-        listing.listedBy.rollNumber.toLowerCase().includes(searchLower)
-      ) : true;
-
-      return matchesHostel && matchesBlock && matchesListingType && matchesRoomType && matchesSearchTerm;
-    });
-  }, [displayListings, filters, searchTerm, user]);
+  }, [displayListings, compatibilityById, sortBy, user]);
 
   const resetFilters = () => {
-    setSearchTerm('');
-    setFilters({ hostel: '', block: '', listingType: '', roomType: '' });
+    setSearchParams(new URLSearchParams());
     setActionError('');
   };
   
@@ -166,8 +149,8 @@ const SearchPage: React.FC = () => {
           <Input
             label="📝 Search by keyword"
             placeholder="e.g., HL-1, Single, Priya..."
-            value={searchTerm}
-            onChange={(e) => {setSearchTerm(e.target.value); setActionError('');}}
+            value={filters.query}
+            onChange={(e) => handleFilterChange('query', e.target.value)}
             className="lg:col-span-1"
           />
           <Select
@@ -184,6 +167,12 @@ const SearchPage: React.FC = () => {
             onChange={(value) => handleFilterChange('block', value)}
             options={[{ value: '', label: 'All Blocks' }, ...BLOCKS.map(b => ({ value: b, label: b }))]}
           />
+          <Select
+            label="🪜 Filter by Floor"
+            value={filters.floor}
+            onChange={(value) => handleFilterChange('floor', value)}
+            options={[{ value: '', label: 'All Floors' }, ...FLOORS.filter(f => f !== 'Any').map(f => ({ value: f, label: f }))]}
+          />
           <Select
             label="🏷️ Filter by Listing Type"
             value={filters.listingType}
@@ -200,28 +189,58 @@ const SearchPage: React.FC = () => {
             onChange={(value) => handleFilterChange('roomType', value as RoomType | '')}
             options={[ {value: '', label: 'All Room Types'}, ...ROOM_TYPES.map(rt => ({ value: rt, label: rt }))]}
           />
+          {user && (
+            <Select
+              label="↕️ Sort by"
+              value={sortBy}
+              onChange={(value) => setSortBy(value as SearchSort)}
+              options={[
+                { value: 'bestMatch', label: 'Best match for my preferences' },
+                { value: 'newest', label: 'Newest first' },
+                { value: 'mostInterest', label: 'Most interest' },
+                { value: 'oldest', label: 'Oldest first' }
+              ]}
+            />
+          )}
           <Button onClick={resetFilters} variant="secondary" className="h-10 w-full md:w-auto">🔄 Reset Filters</Button>
         </div>
       </div>
 
+      {user && <SavedSearchesPanel currentFilters={filters} onApply={handleApplySavedSearch} onError={setActionError} />}
+
       {actionError && <Alert type="error" message={actionError} onClose={() => setActionError('')} className="mb-4" />}
+      {/* Cleared by the next search, so there is nothing to dismiss */}
+      {searchError && <Alert type="error" message={searchError} className="mb-4" />}
+      {actionSuccess && <Alert type="success" message={actionSuccess} onClose={() => setActionSuccess('')} className="mb-4" />}
  
       {isLoading ? (
         <LoadingIndicator message="Loading listings..." />
-      ) : filteredListings.length > 0 ? ( 
+      ) : sortedListings.length > 0 ? ( 
+        <>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">Showing {sortedListings.length} of {total} rooms</p>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-8">
-          {filteredListings.map((listing, index) => (
+          {sortedListings.map((listing, index) => (
             <RoomCard 
               key={listing.id} 
               room={listing} 
               currentUserId={user?.id}
               onExpressInterest={handleExpressInterest}
-              currentUserInterested={!!userInterests[listing.id]}
+              currentUserInterested={!!listing.interestedByMe}
+              onViewBids={(bidListing) => setBiddingListingId(bidListing.id)}
+              onRequestExchange={handleRequestExchange}
+              exchangeRequested={requestedListingIds.has(listing.id)}
+              compatibility={compatibilityById.get(listing.id)}
               className="animate-pop-in"
-              style={{ animationDelay: `${index * 80}ms` }}
+              style={{ animationDelay: `${(index % listingService.DEFAULT_SEARCH_PAGE_SIZE) * 80}ms` }}
             />
           ))}
         </div>
+        {hasMore && (
+          <div className="mt-8 text-center">
+            <Button variant="secondary" onClick={loadMore} isLoading={isLoadingMore}>Load more rooms</Button>
+          </div>
+        )}
+        </>
       ) : (
         <div className="text-center py-12 bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-lg border border-white/20 dark:border-white/10">
           <QuestionIcon className="mx-auto h-16 w-16" />
@@ -229,6 +248,13 @@ const SearchPage: React.FC = () => {
           <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">Try adjusting your search or filter criteria. Listings are filtered based on your gender.</p>
         </div>
       )}
+
+      <BidsModal
+        listing={biddingListing}
+        currentUser={user}
+        onClose={() => setBiddingListingId(null)}
+        onListingUpdate={handleListingUpdate}
+      />
     </div>
   );
 };
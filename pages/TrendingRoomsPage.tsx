@@ -1,107 +1,45 @@
 
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { RoomListing, User, RoomLocation } from '../types'; // Added User, RoomLocation
-import { MOCK_ROOM_LISTINGS, getHostelGender } from '../constants';
+import React, { useState } from 'react';
+import { RoomListing } from '../types';
+import * as listingService from '../services/listingService';
+import { useListingSearch } from '../hooks/useListingSearch';
+import { useListingInterest } from '../hooks/useListingInterest';
 import RoomCard from '../components/RoomCard';
+import BidsModal from '../components/BidsModal';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingIndicator from '../components/LoadingIndicator';
-import { Alert } from '../components/UIElements'; // Added Alert
+import { Alert, Button, Select } from '../components/UIElements'; // Added Alert
 import { FireIcon } from '../components/VibrantIcons';
 
+const TRENDING_WINDOWS = [
+  { hours: 24, label: 'today', option: 'Last 24 hours' },
+  { hours: 24 * 7, label: 'this week', option: 'Last 7 days' },
+  { hours: 24 * 30, label: 'this month', option: 'Last 30 days' },
+];
 
 const TrendingRoomsPage: React.FC = () => {
   const { user } = useAuth();
-  const [listings, setListings] = useState<RoomListing[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [userInterests, setUserInterests] = useState<Record<string, boolean>>({});
+  const [windowHours, setWindowHours] = useState(TRENDING_WINDOWS[1].hours);
+  const { listings, total, isLoading, isLoadingMore, error, hasMore, loadMore, updateListings } = useListingSearch({
+    ...listingService.visibleToUser(user),
+    listingType: 'Bidding',
+    // Ranked by interest expressed recently, so rooms that were popular months ago drop off
+    sort: 'trending',
+    trendingWindowHours: windowHours,
+  });
+  const trendingWindow = TRENDING_WINDOWS.find(window => window.hours === windowHours) || TRENDING_WINDOWS[1];
   const [actionError, setActionError] = useState<string>(''); // For errors on actions like bidding
 
-  useEffect(() => {
-    setIsLoading(true);
-    setTimeout(() => {
-        let relevantListings = MOCK_ROOM_LISTINGS.filter(
-            listing => listing.listingType === 'Bidding' && 
-                       listing.status === 'Open' &&
-                       (!user || listing.listedBy.id !== user.id)
-          );
+  const [biddingListingId, setBiddingListingId] = useState<string | null>(null);
+  const biddingListing = listings.find(listing => listing.id === biddingListingId) || null;
 
-        if (user?.gender === 'Male' || user?.gender === 'Female') {
-            relevantListings = relevantListings.filter(listing => {
-                const hostelGender = getHostelGender(listing.roomDetails.hostel);
-                const listingUserGender = listing.listedBy.gender;
-                 // Allow if hostel gender matches user gender OR if hostel gender is unknown and lister gender matches user gender
-                return (hostelGender === user.gender) || (hostelGender === 'Unknown' && listingUserGender === user.gender);
-            });
-        }
-        
-        relevantListings.sort((a, b) => (b.interestCount || 0) - (a.interestCount || 0));
-        setListings(relevantListings);
-        setIsLoading(false);
-    }, 500);
-  }, [user]);
-
-  const handleExpressInterest = (listingId: string, currentInterestStatus: boolean) => {
-    setActionError(''); // Clear previous errors
-    if (!user) {
-      setActionError("You must be logged in to express interest.");
-      return;
-    }
-
-    const targetListing = listings.find(l => l.id === listingId);
-    if (!targetListing) {
-      setActionError("Listing not found.");
-      return;
-    }
-    
-    // Gender compatibility check for bidding/expressing interest
-    const listingHostelGender = getHostelGender(targetListing.roomDetails.hostel);
-    const listingOwnerGender = targetListing.listedBy.gender;
-
-    let isCompatible = false;
-    if (user.gender === 'Male' || user.gender === 'Female') {
-        if (listingHostelGender === user.gender) {
-            isCompatible = true;
-        } else if (listingHostelGender === 'Unknown' && listingOwnerGender === user.gender) {
-            isCompatible = true;
-        }
-    } else if (user.gender === 'Other') {
-        isCompatible = true; 
-    }
-
-    if (!isCompatible) {
-      setActionError(`You cannot express interest in this room due to gender restrictions. (Your gender: ${user.gender}, Hostel/Lister policy).`);
-      console.warn(`Attempted to bid on incompatible listing: User ${user.id} (${user.gender}) on Listing ${listingId} (Hostel: ${listingHostelGender}, Lister: ${listingOwnerGender})`);
-      return;
-    }
-
-    setListings(prevListings =>
-      prevListings.map(listing => {
-        if (listing.id === listingId) {
-          const newInterestCount = currentInterestStatus 
-            ? (listing.interestCount || 0) - 1 
-            : (listing.interestCount || 0) + 1;
-          return { ...listing, interestCount: Math.max(0, newInterestCount) };
-        }
-        return listing;
-      }).sort((a, b) => (b.interestCount || 0) - (a.interestCount || 0)) 
-    );
-    setUserInterests(prev => ({...prev, [listingId]: !currentInterestStatus}));
+  const handleListingUpdate = (listingId: string, changes: Partial<RoomListing>) => {
+    updateListings(prev => prev.map(listing => listing.id === listingId ? { ...listing, ...changes } : listing));
   };
-  
-  const trendingRooms = useMemo(() => {
-    // This filtering is the primary defense. The check in handleExpressInterest is a safeguard.
-    if (!user) return listings;
-    if (user.gender !== 'Male' && user.gender !== 'Female') return listings; // 'Other' gender sees all for now on trending
-
-    return listings.filter(listing => {
-        const hostelGender = getHostelGender(listing.roomDetails.hostel);
-        const listingUserGender = listing.listedBy.gender;
-        return (hostelGender === user.gender) || (hostelGender === 'Unknown' && listingUserGender === user.gender);
-    });
-  }, [listings, user]);
-
 
+  const handleExpressInterest = useListingInterest(user, listings, updateListings, setActionError);
+  
   if (isLoading) {
     return <LoadingIndicator message="Fetching trending rooms..." />;
   }
@@ -114,25 +52,44 @@ const TrendingRoomsPage: React.FC = () => {
             Trending Rooms
         </h1>
         <p className="text-lg text-slate-700 dark:text-slate-300">Discover the most sought-after rooms based on student interest!</p>
+        {total > 0 && <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{total} rooms open for bidding</p>}
+        <div className="max-w-xs mx-auto mt-4">
+          <Select
+            label="Trending over"
+            value={String(windowHours)}
+            onChange={(value) => setWindowHours(Number(value))}
+            options={TRENDING_WINDOWS.map(window => ({ value: String(window.hours), label: window.option }))}
+          />
+        </div>
       </div>
 
       {actionError && <Alert type="error" message={actionError} onClose={() => setActionError('')} className="mb-4" />}
+      {error && <Alert type="error" message={error} className="mb-4" />}
 
-      {trendingRooms.length > 0 ? (
+      {listings.length > 0 ? (
+        <>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-8">
-          {trendingRooms.map((listing, index) => (
+          {listings.map((listing, index) => (
             <RoomCard
               key={listing.id}
               room={listing}
               rank={index + 1}
               currentUserId={user?.id}
               onExpressInterest={handleExpressInterest}
-              currentUserInterested={!!userInterests[listing.id]}
+              currentUserInterested={!!listing.interestedByMe}
+              onViewBids={(bidListing) => setBiddingListingId(bidListing.id)}
+              trendingWindowLabel={trendingWindow.label}
               className="animate-pop-in"
-              style={{ animationDelay: `${index * 80}ms` }}
+              style={{ animationDelay: `${(index % listingService.DEFAULT_SEARCH_PAGE_SIZE) * 80}ms` }}
             />
           ))}
         </div>
+        {hasMore && (
+          <div className="mt-8 text-center">
+            <Button variant="secondary" onClick={loadMore} isLoading={isLoadingMore}>Load more rooms</Button>
+          </div>
+        )}
+        </>
       ) : (
         <div className="text-center py-12 bg-white/80 dark:bg-black/30 backdrop-blur-md rounded-xl shadow-lg border border-white/20 dark:border-white/10">
           <FireIcon className="mx-auto h-16 w-16 text-slate-400" />
@@ -140,6 +97,13 @@ const TrendingRoomsPage: React.FC = () => {
           <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">There are currently no rooms listed for bidding, or none have significant interest yet.</p> 
         </div>
       )}
+
+      <BidsModal
+        listing={biddingListing}
+        currentUser={user}
+        onClose={() => setBiddingListingId(null)}
+        onListingUpdate={handleListingUpdate}
+      />
     </div>
   );
 };
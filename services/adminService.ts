@@ -0,0 +1,92 @@
+import {
+    AccountStatus, Event, EventStatus, ListingSearchPage, ListingSearchParams, ProofReviewItem, ReportedChatMessage, RoomListing, User,
+} from '../types';
+import { api } from './api';
+import { endpoints } from './endpoints';
+
+const ADMIN_LISTINGS_PAGE_SIZE = 20;
+
+// === ALLOTMENT PROOFS ===
+
+export const getVerificationQueue = async (signal?: AbortSignal): Promise<ProofReviewItem[]> => {
+    return api.call(endpoints.admin.verificationQueue, { options: { signal } });
+};
+
+export const approveAllotmentProof = async (listingId: string): Promise<RoomListing> => {
+    return api.call(endpoints.admin.approveProof, { params: { listingId } });
+};
+
+export const rejectAllotmentProof = async (listingId: string, reason: string): Promise<RoomListing> => {
+    return api.call(endpoints.admin.rejectProof, { params: { listingId }, body: { reason: reason.trim() } });
+};
+
+// === EVENTS ===
+
+export const getEventRequests = async (status: EventStatus | undefined, signal?: AbortSignal): Promise<Event[]> => {
+    return api.call(endpoints.admin.events, { query: { status }, options: { signal } });
+};
+
+export const approveEvent = async (eventId: string): Promise<Event> => {
+    return api.call(endpoints.admin.approveEvent, { params: { eventId } });
+};
+
+export const rejectEvent = async (eventId: string, reason: string): Promise<Event> => {
+    return api.call(endpoints.admin.rejectEvent, { params: { eventId }, body: { reason: reason.trim() } });
+};
+
+// === LISTINGS ===
+
+export const searchAllListings = async (params: ListingSearchParams = {}, signal?: AbortSignal): Promise<ListingSearchPage> => {
+    return api.call(endpoints.admin.listings, {
+        query: { page: 1, pageSize: ADMIN_LISTINGS_PAGE_SIZE, sort: 'newest', ...params },
+        options: { signal },
+    });
+};
+
+export const takeDownListing = async (listingId: string, reason: string): Promise<RoomListing> => {
+    return api.call(endpoints.admin.takeDownListing, { params: { listingId }, body: { reason: reason.trim() } });
+};
+
+// === USERS ===
+
+export const searchUsers = async (text: string, status: AccountStatus | undefined, signal?: AbortSignal): Promise<User[]> => {
+    return api.call(endpoints.admin.users, { query: { text: text.trim(), status }, options: { signal } });
+};
+
+/**
+ * Suspends a student until the given time. They can still sign in and read, but the server
+ * refuses anything they try to post, list or request.
+ */
+export const suspendUser = async (userId: string, reason: string, until: string): Promise<User> => {
+    return api.call(endpoints.admin.suspendUser, { params: { userId }, body: { reason: reason.trim(), until } });
+};
+
+export const banUser = async (userId: string, reason: string): Promise<User> => {
+    return api.call(endpoints.admin.banUser, { params: { userId }, body: { reason: reason.trim() } });
+};
+
+export const reinstateUser = async (userId: string): Promise<User> => {
+    return api.call(endpoints.admin.reinstateUser, { params: { userId } });
+};
+
+// === CHAT MODERATION ===
+
+export const getChatReports = async (signal?: AbortSignal): Promise<ReportedChatMessage[]> => {
+    return api.call(endpoints.admin.chatReports, { options: { signal } });
+};
+
+export const dismissChatReports = async (messageId: string): Promise<void> => {
+    return api.call(endpoints.admin.dismissChatReports, { params: { messageId } });
+};
+
+export const removeChatMessage = async (messageId: string): Promise<void> => {
+    return api.call(endpoints.admin.removeChatMessage, { params: { messageId } });
+};
+
+// The account's current restriction, treating a suspension that has run out as lifted
+export const effectiveAccountStatus = (user: Pick<User, 'moderation'>, now = Date.now()): AccountStatus => {
+    const moderation = user.moderation;
+    if (!moderation) return 'active';
+    if (moderation.status === 'suspended' && moderation.until && new Date(moderation.until).getTime() <= now) return 'active';
+    return moderation.status;
+};
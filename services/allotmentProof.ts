@@ -0,0 +1,185 @@
+/// <reference types="vite/client" />
+// Prepares an allotment proof on the device before it is uploaded. Photos are decoded and
+// re-encoded through a canvas, which both shrinks them and drops EXIF metadata such as the GPS
+// position a phone camera records. PDFs are uploaded as they are, with a rendered first page
+// for the preview.
+
+export const MAX_IMAGE_INPUT_BYTES = 20 * 1024 * 1024;
+export const MAX_PDF_BYTES = 2 * 1024 * 1024;
+// Re-encoding aims for this size; screenshots of allotment emails stay readable well below it
+export const TARGET_IMAGE_BYTES = 400 * 1024;
+export const MAX_IMAGE_DIMENSION = 1600;
+const MIN_IMAGE_DIMENSION = 800;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+const PDF_THUMBNAIL_WIDTH = 320;
+
+export type ProofKind = 'image' | 'pdf';
+
+export interface PreparedProof {
+  file: File; // what to upload
+  kind: ProofKind;
+  previewUrl: string; // object URL for images, rendered first page for PDFs; revoke with releaseProofPreview
+  originalBytes: number;
+  width?: number;
+  height?: number;
+  pageCount?: number;
+}
+
+/**
+ * The chosen file can't be used as a proof. The message is meant for the student.
+ */
+export class ProofFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProofFileError';
+  }
+}
+
+type SniffedType = 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf' | 'heic' | 'unknown';
+
+// Checks the file's leading bytes, since the reported MIME type comes from the extension
+const sniffType = async (file: File): Promise<SniffedType> => {
+  const bytes = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === '%PDF') return 'application/pdf';
+  if (ascii(4, 8) === 'ftyp' && /^(heic|heix|hevc|mif1)$/.test(ascii(8, 12))) return 'heic';
+  return 'unknown';
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new ProofFileError('Could not process this image. Please try another file.')), type, quality);
+  });
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    // Applies the EXIF rotation, which would otherwise be lost along with the rest of the metadata
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ProofFileError('This image could not be opened. It may be damaged; please try another file.');
+  }
+};
+
+const renameTo = (name: string, extension: string) => `${name.replace(/\.[^.]+$/, '') || 'allotment-proof'}.${extension}`;
+
+const prepareImage = async (file: File): Promise<PreparedProof> => {
+  if (file.size > MAX_IMAGE_INPUT_BYTES) {
+    throw new ProofFileError(`This photo is ${formatBytes(file.size)}. Please choose one under ${formatBytes(MAX_IMAGE_INPUT_BYTES)}.`);
+  }
+  const bitmap = await decodeImage(file);
+  try {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new ProofFileError('Your browser could not process this image.');
+
+    // Draws at the given size and returns the best JPEG that fits the target, or the smallest one
+    const encodeAt = async (longestSide: number) => {
+      const scale = longestSide / Math.max(bitmap.width, bitmap.height);
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      // JPEG has no transparency; keep transparent screenshots readable on white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+      let blob = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITIES[0]);
+      for (const quality of JPEG_QUALITIES.slice(1)) {
+        if (blob.size <= TARGET_IMAGE_BYTES) break;
+        blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+      }
+      return { blob, width: canvas.width, height: canvas.height };
+    };
+
+    // Lower the quality first, then the size, until the image fits the target
+    let longestSide = Math.min(MAX_IMAGE_DIMENSION, Math.max(bitmap.width, bitmap.height));
+    let smallest = await encodeAt(longestSide);
+    while (smallest.blob.size > TARGET_IMAGE_BYTES && longestSide > MIN_IMAGE_DIMENSION) {
+      longestSide = Math.max(MIN_IMAGE_DIMENSION, Math.round(longestSide * 0.8));
+      smallest = await encodeAt(longestSide);
+    }
+
+    const prepared = new File([smallest.blob], renameTo(file.name, 'jpg'), { type: 'image/jpeg', lastModified: Date.now() });
+    return {
+      file: prepared,
+      kind: 'image',
+      previewUrl: URL.createObjectURL(prepared),
+      originalBytes: file.size,
+      width: smallest.width,
+      height: smallest.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const renderPdfThumbnail = async (file: File): Promise<{ previewUrl: string; pageCount: number }> => {
+  // Loaded on first use; most proofs are screenshots
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch {
+    throw new ProofFileError('This PDF could not be opened. It may be damaged or password protected.');
+  }
+  try {
+    const page = await pdf.getPage(1);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: PDF_THUMBNAIL_WIDTH / baseViewport.width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new ProofFileError('Your browser could not preview this PDF.');
+    await page.render({ canvasContext: context, viewport }).promise;
+    return { previewUrl: canvas.toDataURL('image/jpeg', 0.8), pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const preparePdf = async (file: File): Promise<PreparedProof> => {
+  if (file.size > MAX_PDF_BYTES) {
+    throw new ProofFileError(`This PDF is ${formatBytes(file.size)}. Please upload one under ${formatBytes(MAX_PDF_BYTES)}, or a screenshot of the allotment instead.`);
+  }
+  const { previewUrl, pageCount } = await renderPdfThumbnail(file);
+  const prepared = new File([file], renameTo(file.name, 'pdf'), { type: 'application/pdf', lastModified: file.lastModified });
+  return { file: prepared, kind: 'pdf', previewUrl, originalBytes: file.size, pageCount };
+};
+
+/**
+ * Checks a chosen proof and gets it ready to upload. Throws ProofFileError with a message for
+ * the student when the file isn't a supported image or PDF, or is too large.
+ */
+export const prepareAllotmentProof = async (file: File): Promise<PreparedProof> => {
+  const type = await sniffType(file);
+  switch (type) {
+    case 'image/jpeg':
+    case 'image/png':
+    case 'image/webp':
+      return prepareImage(file);
+    case 'application/pdf':
+      return preparePdf(file);
+    case 'heic':
+      throw new ProofFileError('iPhone HEIC photos aren\'t supported. Please take a screenshot of the photo or share it as JPEG.');
+    default:
+      throw new ProofFileError('Please upload a JPEG, PNG or WebP image, or a PDF.');
+  }
+};
+
+export const releaseProofPreview = (proof: PreparedProof | null) => {
+  if (proof?.previewUrl.startsWith('blob:')) URL.revokeObjectURL(proof.previewUrl);
+};
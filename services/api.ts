@@ -1,5 +1,6 @@
-// In a real app, this would be an environment variable.
-const API_BASE_URL = 'https://server.mnit.live/api';
+import { Schema, SchemaMismatch } from './apiSchema';
+import type { Endpoint } from './endpoints';
+import { apiUrl } from './config';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -7,7 +8,7 @@ interface ApiResponse<T = any> {
   data?: T;
 }
 
-class ApiError extends Error {
+export class ApiError extends Error {
   public readonly statusCode: number;
 
   constructor(message: string, statusCode: number) {
@@ -17,7 +18,140 @@ class ApiError extends Error {
   }
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
+/**
+ * The server answered successfully but the payload does not match the endpoint's schema.
+ * Raised instead of handing a malformed object to the UI.
+ */
+export class ApiResponseShapeError extends ApiError {
+  public readonly endpoint: string;
+  public readonly path: string;
+  public readonly expected: string;
+  public readonly received: string;
+
+  constructor(endpoint: string, statusCode: number, mismatch: SchemaMismatch) {
+    super(`Unexpected response from ${endpoint}: ${mismatch.message}`, statusCode);
+    this.name = 'ApiResponseShapeError';
+    this.endpoint = endpoint;
+    this.path = mismatch.path;
+    this.expected = mismatch.expected;
+    this.received = mismatch.received;
+  }
+}
+
+/**
+ * No HTTP response arrived within the request's time limit. The status code is 0,
+ * like a network failure, so it is retried under the same rules.
+ */
+export class ApiTimeoutError extends ApiError {
+  public readonly endpoint: string;
+  public readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`${endpoint} timed out after ${timeoutMs / 1000}s. Please check your connection and try again.`, 0);
+    this.name = 'ApiTimeoutError';
+    this.endpoint = endpoint;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export interface RetryPolicy {
+  retries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestOptions extends RequestInit {
+  // Per attempt; defaults to DEFAULT_TIMEOUT_MS
+  timeoutMs?: number;
+  // Idempotent verbs (GET, PUT, DELETE) retry with the default policy. POST and PATCH only
+  // retry when the caller opts in, since repeating them may apply a change twice.
+  retry?: Partial<RetryPolicy> | false;
+  // Fraction of the body sent so far, from 0 to 1. Sends through XMLHttpRequest, as fetch can't report it.
+  onUploadProgress?: (fraction: number) => void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const NO_RETRY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, retries: 0 };
+
+const resolveRetryPolicy = (method: string, retry: RequestOptions['retry']): RetryPolicy => {
+  if (retry === false) return NO_RETRY;
+  if (retry) return { ...DEFAULT_RETRY_POLICY, ...retry };
+  return IDEMPOTENT_METHODS.includes(method) ? DEFAULT_RETRY_POLICY : NO_RETRY;
+};
+
+/**
+ * True when the request was cancelled through its AbortSignal, e.g. because the page unmounted.
+ * Callers should ignore these rather than show an error.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+/**
+ * Only server errors (5xx), timeouts and network failures are worth repeating. Client errors
+ * (4xx), authentication errors and malformed 2xx responses won't fix themselves.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ApiError) return error.statusCode === 0 || error.statusCode >= 500;
+  return error instanceof TypeError; // fetch rejects with a TypeError when the network fails
+};
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason ?? new DOMException('The request was aborted.', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+// Params and body are required exactly when the endpoint declares them
+type EndpointArgs<TParams, TBody> =
+  ([TParams] extends [void] ? { params?: undefined } : { params: TParams }) &
+  ([TBody] extends [void] ? { body?: undefined } : { body: TBody }) &
+  { query?: QueryParams; options?: RequestOptions };
+
+type EndpointCallArgs<TParams, TBody> = [TParams, TBody] extends [void, void]
+  ? [args?: EndpointArgs<TParams, TBody>]
+  : [args: EndpointArgs<TParams, TBody>];
+
+const buildQueryString = (query: QueryParams = {}): string => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params.append(key, String(value));
+  });
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+const validate = <T>(data: unknown, response: Response, schema: Schema<T>, label: string): T => {
+  try {
+    return schema(data);
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      console.error(`❌ ${label} returned an unexpected shape:`, error.message, data);
+      throw new ApiResponseShapeError(label, response.status, error);
+    }
+    throw error;
+  }
+};
+
+async function handleResponse<T>(response: Response, schema?: Schema<T>, label = ''): Promise<T> {
   const contentType = response.headers.get('content-type');
 
   if (contentType && contentType.includes('application/json')) {
@@ -25,7 +159,8 @@ async function handleResponse<T>(response: Response): Promise<T> {
     
     if (response.ok && jsonResponse.success) {
       // Return the data directly if it exists, otherwise return the whole response
-      return (jsonResponse.data !== undefined ? jsonResponse.data : jsonResponse) as T;
+      const data = jsonResponse.data !== undefined ? jsonResponse.data : jsonResponse;
+      return schema ? validate(data, response, schema, label) : data as T;
     } else {
       // Handle error response
       throw new ApiError(
@@ -37,7 +172,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
 
   if (response.ok) {
     // Handle 204 No Content or non-JSON success responses
-    return Promise.resolve({} as T);
+    return schema ? validate({}, response, schema, label) : {} as T;
   }
 
   // Handle non-JSON error responses
@@ -47,12 +182,95 @@ async function handleResponse<T>(response: Response): Promise<T> {
   );
 }
 
-async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
+// Responses that may not carry a body, which the Response constructor rejects otherwise
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * A fetch stand-in built on XMLHttpRequest so uploads can report progress. Resolves to a
+ * Response so the result goes through the same handling as any other call.
+ */
+const fetchWithUploadProgress = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (fraction: number) => void
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    xhr.withCredentials = init.credentials === 'include';
+    Object.entries((init.headers || {}) as Record<string, string>).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable && event.total > 0) onUploadProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      const headers = new Headers();
+      xhr.getAllResponseHeaders().trim().split(/[\r\n]+/).forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+      });
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+      resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers }));
+    };
+    // Same errors fetch would raise, so retry and abort handling don't need to tell them apart
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(init.signal?.reason ?? new DOMException('The request was aborted.', 'AbortError'));
+
+    if (init.signal?.aborted) {
+      xhr.abort();
+      return;
+    }
+    init.signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+
+async function attemptRequest<T>(
+  endpoint: string,
+  init: RequestInit,
+  schema: Schema<T> | undefined,
+  label: string,
+  timeoutMs: number,
+  signal?: AbortSignal | null,
+  onUploadProgress?: (fraction: number) => void
+): Promise<T> {
+  // One controller per attempt, aborted by either the timeout or the caller's signal
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onCallerAbort();
+  } else {
+    signal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  try {
+    const attemptInit = { ...init, signal: controller.signal };
+    const response = onUploadProgress
+      ? await fetchWithUploadProgress(apiUrl(endpoint), attemptInit, onUploadProgress)
+      : await fetch(apiUrl(endpoint), attemptInit);
+    return await handleResponse<T>(response, schema, label);
+  } catch (error) {
+    if (timedOut) throw new ApiTimeoutError(label, timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+async function request<T>(endpoint: string, options: RequestOptions = {}, schema?: Schema<T>): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retry, signal, onUploadProgress, ...init } = options;
+
+  // Multipart bodies need the browser to set Content-Type itself so it includes the boundary
+  const isMultipart = init.body instanceof FormData;
 
   const defaultOptions: RequestInit = {
     headers: {
-      'Content-Type': 'application/json',
+      ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
       'Accept': 'application/json',
     },
     // This is crucial for sending/receiving cookies (like JWT)
@@ -61,30 +279,66 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
 
   const config: RequestInit = {
     ...defaultOptions,
-    ...options,
+    ...init,
     headers: {
       ...defaultOptions.headers,
-      ...options.headers,
+      ...init.headers,
     },
   };
 
-  const response = await fetch(url, config);
-  return handleResponse<T>(response);
+  const method = (config.method || 'GET').toUpperCase();
+  const label = `${method} ${endpoint.split('?')[0]}`;
+  const policy = resolveRetryPolicy(method, retry);
+  let delay = policy.initialDelayMs;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest<T>(endpoint, config, schema, label, timeoutMs, signal, onUploadProgress);
+    } catch (error) {
+      if (attempt >= policy.retries || signal?.aborted || !isRetryableError(error)) {
+        throw error;
+      }
+      console.warn(`🔄 Retrying ${label} in ${delay}ms (attempt ${attempt + 1}/${policy.retries})...`);
+      await wait(delay, signal);
+      delay = Math.min(delay * 2, policy.maxDelayMs); // Exponential backoff
+    }
+  }
 }
 
 export const api = {
-  get: <T>(endpoint: string, options?: RequestInit) =>
+  get: <T>(endpoint: string, options?: RequestOptions) =>
     request<T>(endpoint, { ...options, method: 'GET' }),
 
-  post: <T>(endpoint: string, body?: any, options?: RequestInit) =>
+  post: <T>(endpoint: string, body?: any, options?: RequestOptions) =>
     request<T>(endpoint, { ...options, method: 'POST', body: JSON.stringify(body) }),
 
-  patch: <T>(endpoint: string, body?: any, options?: RequestInit) =>
+  patch: <T>(endpoint: string, body?: any, options?: RequestOptions) =>
     request<T>(endpoint, { ...options, method: 'PATCH', body: JSON.stringify(body) }),
 
-  put: <T>(endpoint: string, body?: any, options?: RequestInit) =>
+  put: <T>(endpoint: string, body?: any, options?: RequestOptions) =>
     request<T>(endpoint, { ...options, method: 'PUT', body: JSON.stringify(body) }),
 
-  delete: <T>(endpoint: string, options?: RequestInit) =>
+  delete: <T>(endpoint: string, options?: RequestOptions) =>
     request<T>(endpoint, { ...options, method: 'DELETE' }),
+
+  /**
+   * Calls an endpoint from the registry in `endpoints.ts` and validates the response
+   * against its schema, throwing `ApiResponseShapeError` on a mismatch.
+   */
+  call: <TResponse, TParams, TBody>(
+    endpoint: Endpoint<TResponse, TParams, TBody>,
+    ...[args]: EndpointCallArgs<TParams, TBody>
+  ): Promise<TResponse> => {
+    const { params, body, query, options } = (args || {}) as EndpointArgs<TParams, TBody>;
+    const path = endpoint.path(params as TParams) + buildQueryString(query);
+    return request<TResponse>(
+      path,
+      {
+        ...options,
+        method: endpoint.method,
+        body: body instanceof FormData ? body : body === undefined ? undefined : JSON.stringify(body),
+      },
+      endpoint.response
+    );
+  },
 };
\ No newline at end of file
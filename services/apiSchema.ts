@@ -0,0 +1,112 @@
+// Minimal runtime schemas for validating API responses.
+// Each schema checks an unknown value and returns it typed, or throws a SchemaMismatch
+// that says where in the payload the shape diverged.
+
+export class SchemaMismatch extends Error {
+  public readonly path: string;
+  public readonly expected: string;
+  public readonly received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`Expected ${expected} at ${path}, got ${received}`);
+    this.name = 'SchemaMismatch';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+// Resolves the type a schema produces, e.g. Infer<typeof courseSchema>
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Schema<T> =>
+  (value, path = '$') => {
+    if (!check(value)) throw new SchemaMismatch(path, expected, value);
+    return value as T;
+  };
+
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('number', value => typeof value === 'number' && !Number.isNaN(value));
+
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+// Accepts anything; for payloads the client passes through without reading
+export const unknown = (): Schema<unknown> => value => value;
+
+// Passes the value through unchecked. Used for request bodies, which the compiler
+// already checks at the call site
+export const typed = <T>(): Schema<T> => value => value as T;
+
+// Ignores the payload entirely, for endpoints that only signal success
+export const empty = (): Schema<void> => () => undefined;
+
+export const literal = <T extends string | number | boolean>(...allowed: T[]): Schema<T> =>
+  primitive(allowed.map(option => JSON.stringify(option)).join(' | '), value => allowed.includes(value as T));
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path = '$') => (value === undefined ? undefined : schema(value, path));
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path = '$') => (value === null ? null : schema(value, path));
+
+// Treats a missing field as `fallback`, for fields older backend versions omit
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> =>
+  (value, path = '$') => (value === undefined || value === null ? fallback : schema(value, path));
+
+export const array = <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path = '$') => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, 'array', value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+
+type Shape = Record<string, Schema<any>>;
+type ShapeType<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/**
+ * Validates the listed fields and keeps any others untouched, so the server can add
+ * fields without breaking older clients.
+ */
+export const object = <S extends Shape>(shape: S): Schema<ShapeType<S>> =>
+  (value, path = '$') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, 'object', value);
+    }
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as ShapeType<S>;
+  };
+
+/**
+ * Picks a variant by a discriminant field, e.g. chat messages by `type`.
+ */
+export const discriminated = <K extends string, V extends Record<string, Schema<any>>>(
+  key: K,
+  variants: V
+): Schema<Infer<V[keyof V]>> =>
+  (value, path = '$') => {
+    if (typeof value !== 'object' || value === null) throw new SchemaMismatch(path, 'object', value);
+    const tag = (value as Record<string, unknown>)[key];
+    const variant = typeof tag === 'string' ? variants[tag] : undefined;
+    if (!variant) {
+      throw new SchemaMismatch(`${path}.${key}`, Object.keys(variants).map(option => JSON.stringify(option)).join(' | '), tag);
+    }
+    return variant(value, path);
+  };
@@ -0,0 +1,406 @@
+import { Course, AttendanceMutation, AttendanceSyncResult } from '../types';
+import { isRetryableError } from './api';
+import * as attendanceService from './attendanceService';
+import { isSameSession, resolveSession } from './timetable';
+
+// Durable queue for attendance changes. Every add/delete/mark is written to IndexedDB first
+// and replayed against the API in the order it was made, so marks taken in a lecture hall
+// with no signal are sent once the device is back online instead of being rolled back.
+
+type QueuedMutation = AttendanceMutation & {
+    seq: number;
+    userId: string;
+    queuedAt: string;
+};
+
+type NewQueuedMutation = Omit<QueuedMutation, 'seq'>;
+
+interface QueueStore {
+    getAll: () => Promise<QueuedMutation[]>; // ordered by seq
+    add: (entry: NewQueuedMutation) => Promise<void>;
+    put: (entry: QueuedMutation) => Promise<void>;
+    remove: (seqs: number[]) => Promise<void>;
+}
+
+const DB_NAME = 'mnit-live-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'attendanceMutations';
+const RETRY_INTERVAL_MS = 30000;
+
+const LOCAL_ID_PREFIX = 'temp-';
+
+export const isLocalCourseId = (courseId: string) => courseId.startsWith(LOCAL_ID_PREFIX);
+
+export const createLocalCourseId = () => `${LOCAL_ID_PREFIX}${Date.now()}`;
+
+
+// === STORAGE ===
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const createIndexedDbStore = (db: IDBDatabase): QueueStore => {
+    const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        const done = new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+        const result = request ? await promisify(request) : undefined;
+        await done;
+        return result;
+    };
+
+    return {
+        getAll: async () => (await run('readonly', store => store.getAll() as IDBRequest<QueuedMutation[]>)) || [],
+        add: async entry => { await run('readwrite', store => store.add(entry)); },
+        put: async entry => { await run('readwrite', store => store.put(entry)); },
+        remove: async seqs => {
+            if (seqs.length === 0) return;
+            await run('readwrite', store => { seqs.forEach(seq => store.delete(seq)); });
+        },
+    };
+};
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes); survives until reload only
+const createMemoryStore = (): QueueStore => {
+    let entries: QueuedMutation[] = [];
+    let nextSeq = 1;
+    return {
+        getAll: async () => [...entries],
+        add: async entry => { entries.push({ ...entry, seq: nextSeq++ } as QueuedMutation); },
+        put: async entry => { entries = entries.map(e => e.seq === entry.seq ? entry : e); },
+        remove: async seqs => { entries = entries.filter(e => !seqs.includes(e.seq)); },
+    };
+};
+
+let storePromise: Promise<QueueStore> | null = null;
+
+const getStore = (): Promise<QueueStore> => {
+    if (!storePromise) {
+        storePromise = (typeof indexedDB === 'undefined' ? Promise.reject(new Error('IndexedDB is not available')) : openDatabase())
+            .then(createIndexedDbStore)
+            .catch(error => {
+                console.warn('⚠️ Offline attendance queue falling back to memory:', error);
+                return createMemoryStore();
+            });
+    }
+    return storePromise;
+};
+
+// Marks queued by an older version of the app carry only a date. They are sent that way, and
+// the server records them as it did then, for the day's first class.
+const upgradeEntry = (entry: QueuedMutation): QueuedMutation =>
+    entry.kind === 'markAttendance' && typeof entry.session !== 'object' ? { ...entry, session: {}, type: entry.type || 'lecture' } : entry;
+
+const getEntriesForUser = async (userId: string): Promise<QueuedMutation[]> => {
+    const store = await getStore();
+    return (await store.getAll()).filter(entry => entry.userId === userId).map(upgradeEntry);
+};
+
+const toMutation = ({ seq, userId, queuedAt, ...mutation }: QueuedMutation): AttendanceMutation => mutation as AttendanceMutation;
+
+
+// === LAST KNOWN COURSES ===
+
+// The course list as the server last sent it, so the page can still open (and queue marks)
+// without a connection. Queued changes are layered on top with applyPendingMutations, as online.
+export interface CourseSnapshot {
+    courses: Course[];
+    savedAt: string;
+}
+
+const snapshotKey = (userId: string) => `mnit-live-attendance-courses:${userId}`;
+
+export const saveCourseSnapshot = (userId: string, courses: Course[]): void => {
+    try {
+        localStorage.setItem(snapshotKey(userId), JSON.stringify({ courses, savedAt: new Date().toISOString() }));
+    } catch (error) {
+        console.warn('⚠️ Could not save courses for offline use:', error);
+    }
+};
+
+export const getCourseSnapshot = (userId: string): CourseSnapshot | null => {
+    try {
+        const saved = localStorage.getItem(snapshotKey(userId));
+        return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+        console.warn('⚠️ Could not read courses saved for offline use:', error);
+        return null;
+    }
+};
+
+// Folds what replayed changes got back from the server into the snapshot
+const updateCourseSnapshot = (userId: string, result: AttendanceSyncResult) => {
+    const snapshot = getCourseSnapshot(userId);
+    if (!snapshot || (result.syncedCourses.length === 0 && result.deletedCourseIds.length === 0)) return;
+    const synced = new Map(result.syncedCourses.map(course => [course.id, course]));
+    const courses = snapshot.courses
+        .filter(course => !result.deletedCourseIds.includes(course.id))
+        .map(course => synced.get(course.id) || course);
+    result.syncedCourses.forEach(course => {
+        if (!courses.some(c => c.id === course.id)) courses.push(course);
+    });
+    saveCourseSnapshot(userId, courses);
+};
+
+
+// === LISTENERS ===
+
+type SyncListener = (result: AttendanceSyncResult) => void;
+const listeners = new Set<SyncListener>();
+
+/**
+ * Notifies `listener` after every replay attempt, including ones that could not reach the server,
+ * and as soon as a course created offline has been given its server id.
+ */
+export const subscribeToAttendanceSync = (listener: SyncListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+
+// === QUEUE ===
+
+let inFlightSeq: number | null = null;
+// Local 'temp-' id -> id the server assigned. The page keeps using the local id until the flush
+// that created the course reports back, so changes it queues in the meantime are re-pointed here.
+const serverCourseIds = new Map<string, string>();
+let activeFlush: Promise<AttendanceSyncResult> | null = null;
+let flushAgain = false;
+
+/**
+ * Stores a change and starts sending it. Superseded entries are dropped on the way in:
+ * a later mark for the same class replaces an earlier one, and deleting a course
+ * cancels everything still queued for it (or the whole thing if it was never created).
+ */
+export const enqueueAttendanceMutation = async (userId: string, change: AttendanceMutation): Promise<void> => {
+    const store = await getStore();
+    const mutation = { ...change, courseId: serverCourseIds.get(change.courseId) || change.courseId };
+    const queued = await getEntriesForUser(userId);
+    const { courseId } = mutation;
+
+    let superseded: QueuedMutation[] = [];
+    let skipNewEntry = false;
+
+    if (mutation.kind === 'markAttendance') {
+        superseded = queued.filter(entry =>
+            entry.kind === 'markAttendance' && entry.courseId === courseId && entry.date === mutation.date &&
+            isSameSession(entry.session, mutation.session) && entry.seq !== inFlightSeq
+        );
+    } else if (mutation.kind === 'setSchedule' || mutation.kind === 'setThreshold') {
+        // Both replace a setting as a whole, so only the latest one matters
+        superseded = queued.filter(entry => entry.kind === mutation.kind && entry.courseId === courseId && entry.seq !== inFlightSeq);
+    } else if (mutation.kind === 'deleteCourse') {
+        const pendingAdd = queued.find(entry => entry.kind === 'addCourse' && entry.courseId === courseId);
+        if (pendingAdd && pendingAdd.seq !== inFlightSeq) {
+            // The server never saw this course, so there is nothing to delete
+            superseded = queued.filter(entry => entry.courseId === courseId);
+            skipNewEntry = true;
+        } else {
+            superseded = queued.filter(entry => entry.courseId === courseId && entry.kind !== 'addCourse' && entry.seq !== inFlightSeq);
+        }
+    }
+
+    await store.remove(superseded.map(entry => entry.seq));
+    if (!skipNewEntry) {
+        await store.add({ ...mutation, userId, queuedAt: new Date().toISOString() });
+    }
+
+    flushAttendanceQueue(userId).catch(error => console.error('❌ Attendance sync failed:', error));
+};
+
+export const getPendingAttendanceMutations = async (userId: string): Promise<AttendanceMutation[]> => {
+    return (await getEntriesForUser(userId)).map(toMutation);
+};
+
+const replay = async (entry: QueuedMutation, result: AttendanceSyncResult, store: QueueStore, userId: string) => {
+    switch (entry.kind) {
+        case 'addCourse': {
+            const created = await attendanceService.addCourse(entry.name, entry.color);
+            serverCourseIds.set(entry.courseId, created.id);
+            result.replacedCourseIds[entry.courseId] = created.id;
+            result.syncedCourses.push(created);
+            // Point the changes queued behind it at the id the server just assigned
+            const dependents = (await getEntriesForUser(userId)).filter(other => other.seq !== entry.seq && other.courseId === entry.courseId);
+            for (const dependent of dependents) {
+                await store.put({ ...dependent, courseId: created.id });
+            }
+            // Tell the page now rather than after the whole flush, so it stops using the local id
+            const pending = (await getEntriesForUser(userId)).filter(other => other.seq !== entry.seq).map(toMutation);
+            const replaced: AttendanceSyncResult = {
+                syncedCourses: [created], replacedCourseIds: { [entry.courseId]: created.id }, deletedCourseIds: [], rejected: [], pending,
+            };
+            listeners.forEach(listener => listener(replaced));
+            break;
+        }
+        case 'deleteCourse':
+            try {
+                // A course whose creation was rejected only ever existed on this device
+                if (!isLocalCourseId(entry.courseId)) await attendanceService.deleteCourse(entry.courseId);
+            } catch (error: any) {
+                // Already gone, which is what we wanted
+                if (error?.statusCode !== 404) throw error;
+            }
+            result.deletedCourseIds.push(entry.courseId);
+            result.syncedCourses = result.syncedCourses.filter(course => course.id !== entry.courseId);
+            break;
+        case 'markAttendance': {
+            if (isLocalCourseId(entry.courseId)) {
+                throw new Error('The course this was marked for could not be created.');
+            }
+            const updated = await attendanceService.markAttendance(entry.courseId, entry.date, entry.session, entry.type, entry.status);
+            result.syncedCourses = [...result.syncedCourses.filter(course => course.id !== updated.id), updated];
+            break;
+        }
+        case 'setSchedule': {
+            if (isLocalCourseId(entry.courseId)) {
+                throw new Error('The course this timetable belongs to could not be created.');
+            }
+            const updated = await attendanceService.setCourseSchedule(entry.courseId, entry.schedule);
+            result.syncedCourses = [...result.syncedCourses.filter(course => course.id !== updated.id), updated];
+            break;
+        }
+        case 'setThreshold': {
+            if (isLocalCourseId(entry.courseId)) {
+                throw new Error('The course this threshold belongs to could not be created.');
+            }
+            const updated = await attendanceService.setAttendanceThreshold(entry.courseId, entry.threshold);
+            result.syncedCourses = [...result.syncedCourses.filter(course => course.id !== updated.id), updated];
+            break;
+        }
+    }
+};
+
+const runFlush = async (userId: string): Promise<AttendanceSyncResult> => {
+    const store = await getStore();
+    const result: AttendanceSyncResult = { syncedCourses: [], replacedCourseIds: {}, deletedCourseIds: [], rejected: [], pending: [] };
+
+    // Re-read the queue after every entry so changes made while syncing are picked up in order
+    while (typeof navigator === 'undefined' || navigator.onLine) {
+        const [queued] = await getEntriesForUser(userId);
+        if (!queued) break;
+        // Covers changes queued for a course while the call that created it was still in flight
+        const entry = { ...queued, courseId: serverCourseIds.get(queued.courseId) || queued.courseId };
+
+        inFlightSeq = entry.seq;
+        try {
+            await replay(entry, result, store, userId);
+        } catch (error: any) {
+            if (isRetryableError(error)) {
+                // Still offline or the server is down; keep it and everything after it for later
+                console.warn('📴 Attendance sync paused, will retry:', error?.message || error);
+                break;
+            }
+            console.error('❌ Server rejected queued attendance change:', toMutation(entry), error);
+            result.rejected.push({ mutation: toMutation(entry), message: error?.message || 'The server rejected this change.' });
+        } finally {
+            inFlightSeq = null;
+        }
+        await store.remove([entry.seq]);
+    }
+
+    result.pending = await getPendingAttendanceMutations(userId);
+    updateCourseSnapshot(userId, result);
+    listeners.forEach(listener => listener(result));
+    return result;
+};
+
+/**
+ * Replays queued changes for `userId` in order. Only one replay runs at a time; calls made
+ * while one is running are folded into a follow-up run.
+ */
+export const flushAttendanceQueue = (userId: string): Promise<AttendanceSyncResult> => {
+    if (activeFlush) {
+        flushAgain = true;
+        return activeFlush;
+    }
+    activeFlush = (async () => {
+        try {
+            let result = await runFlush(userId);
+            while (flushAgain) {
+                flushAgain = false;
+                result = await runFlush(userId);
+            }
+            return result;
+        } finally {
+            activeFlush = null;
+        }
+    })();
+    return activeFlush;
+};
+
+/**
+ * Keeps replaying the user's queue while they are signed in: immediately, whenever the browser
+ * reports it is back online, and periodically in case that event never fires (captive Wi-Fi).
+ */
+export const watchAttendanceQueue = (userId: string): (() => void) => {
+    const flush = () => {
+        flushAttendanceQueue(userId).catch(error => console.error('❌ Attendance sync failed:', error));
+    };
+    flush();
+    window.addEventListener('online', flush);
+    const intervalId = setInterval(async () => {
+        if ((await getEntriesForUser(userId)).length > 0) flush();
+    }, RETRY_INTERVAL_MS);
+    return () => {
+        window.removeEventListener('online', flush);
+        clearInterval(intervalId);
+    };
+};
+
+/**
+ * Layers changes that have not reached the server yet over a list of courses, so the page
+ * shows what the user did even after a reload.
+ */
+export const applyPendingMutations = (courses: Course[], pending: AttendanceMutation[]): Course[] => {
+    let result = [...courses];
+    pending.forEach(mutation => {
+        switch (mutation.kind) {
+            case 'addCourse':
+                if (!result.some(course => course.id === mutation.courseId)) {
+                    result.push({ id: mutation.courseId, name: mutation.name, color: mutation.color, attendance: [] });
+                }
+                break;
+            case 'deleteCourse':
+                result = result.filter(course => course.id !== mutation.courseId);
+                break;
+            case 'markAttendance':
+                result = result.map(course => {
+                    if (course.id !== mutation.courseId) return course;
+                    const { date, type, status } = mutation;
+                    const session = resolveSession(course.schedule, date, mutation.session);
+                    const attendance = course.attendance.filter(record => record.date !== date || !isSameSession(record.session, session));
+                    if (status !== 'clear') attendance.push({ date, session, type, present: status === 'attended' });
+                    return { ...course, attendance };
+                });
+                break;
+            case 'setSchedule':
+                result = result.map(course =>
+                    course.id === mutation.courseId ? { ...course, schedule: mutation.schedule || undefined } : course
+                );
+                break;
+            case 'setThreshold':
+                result = result.map(course => course.id === mutation.courseId ? { ...course, threshold: mutation.threshold } : course);
+                break;
+        }
+    });
+    return result;
+};
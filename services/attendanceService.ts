@@ -1,135 +1,56 @@
-import { Course } from '../types';
+import { Course, CourseSchedule, Holiday, SessionRef, SessionType, AttendanceMarkStatus, AttendanceStats, AttendanceCalendarData, AttendanceWeekSummary } from '../types';
 import { api } from './api'; // Use the existing authenticated API client
+import { endpoints, BackendCourse } from './endpoints';
+import * as timetable from './timetable';
 
-// Backend-compatible Course interface
-interface BackendCourse {
-    _id: string;
-    name: string;
-    color: string;
-    userId: string;
-    attendedDays: number;
-    missedDays: number;
-    attendanceHistory: Array<{
-        date: string;
-        present: boolean;
-        _id: string;
-    }>;
-    createdAt: string;
-    updatedAt: string;
-}
-
-// Transform backend course to frontend course format
+// Transform backend course to frontend course format.
+// The response schema has already checked the shape, so only naming each record's class remains.
 const transformCourse = (backendCourse: BackendCourse): Course => {
-    // Safely handle attendanceHistory - it might be undefined or null
-    const attendanceHistory = backendCourse.attendanceHistory || [];
-    
-    const attendedDays = attendanceHistory
-        .filter(entry => entry && entry.present === true)
-        .map(entry => entry.date)
-        .filter(date => date); // Remove any undefined dates
-    
-    const missedDays = attendanceHistory
-        .filter(entry => entry && entry.present === false)
-        .map(entry => entry.date)
-        .filter(date => date); // Remove any undefined dates
+    const schedule = backendCourse.schedule || undefined;
+    const attendance = backendCourse.attendanceHistory
+        .map(({ date, slotId, extra, type, present }) => ({
+            date,
+            session: timetable.resolveSession(schedule, date, { slotId, extra }),
+            type,
+            present,
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
 
     return {
-        id: backendCourse._id || `temp-${Date.now()}`,
-        name: backendCourse.name || 'Unnamed Course',
+        id: backendCourse._id,
+        name: backendCourse.name,
         color: backendCourse.color || '#8B5CF6',
-        attendedDays,
-        missedDays
+        attendance,
+        schedule,
+        threshold: backendCourse.threshold
     };
 };
 
-// Utility function for retry logic
-const retryRequest = async <T>(
-    requestFn: () => Promise<T>, 
-    maxRetries: number = 2,
-    delay: number = 1000
-): Promise<T> => {
-    let lastError: any;
-    
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-            return await requestFn();
-        } catch (error: any) {
-            lastError = error;
-            
-            // Don't retry on client errors (4xx) or authentication errors
-            if (error.statusCode >= 400 && error.statusCode < 500) {
-                throw error;
-            }
-            
-            // Only retry on server errors (5xx) or network errors
-            if (attempt < maxRetries && (error.statusCode >= 500 || !error.statusCode)) {
-                console.warn(`🔄 Retrying request in ${delay}ms (attempt ${attempt + 1}/${maxRetries})...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2; // Exponential backoff
-            }
-        }
-    }
-    
-    throw lastError;
-};
+// Retries, timeouts and cancellation are handled by the API client (see RequestOptions in api.ts).
 
 /**
  * Fetches all courses for the authenticated user
  */
-export const getCourses = async (): Promise<Course[]> => {
-    return retryRequest(async () => {
-        console.log('🌐 API Call: GET /attendance/courses');
-        const response = await api.get<BackendCourse[]>('/attendance/courses');
-        
-        // Validate that the response is an array
-        if (!Array.isArray(response)) {
-            console.error('❌ Expected array of courses, got:', typeof response, response);
-            throw new Error('Invalid response format: expected array of courses');
-        }
-        
-        // Filter out any invalid course objects before transformation
-        const validBackendCourses = response.filter(course => {
-            if (!course || typeof course !== 'object') {
-                console.warn('⚠️ Filtering out invalid course (not object):', course);
-                return false;
-            }
-            if (!course._id) {
-                console.warn('⚠️ Filtering out course without _id:', course);
-                return false;
-            }
-            if (!course.name) {
-                console.warn('⚠️ Filtering out course without name:', course);
-                return false;
-            }
-            return true;
-        });
-        
-        if (validBackendCourses.length !== response.length) {
-            console.warn(`⚠️ Filtered out ${response.length - validBackendCourses.length} invalid courses`);
-        }
-        
-        // Transform each valid course from backend format to frontend format
-        return validBackendCourses.map(transformCourse);
-    });
+export const getCourses = async (signal?: AbortSignal): Promise<Course[]> => {
+    console.log('🌐 API Call: GET /attendance/courses');
+    const backendCourses = await api.call(endpoints.attendance.listCourses, { options: { signal } });
+    return backendCourses.map(transformCourse);
 };
 
 /**
- * Creates a new course
+ * Creates a new course. Not retried automatically, since a repeated POST could create it twice.
  */
 export const addCourse = async (name: string, color: string): Promise<Course> => {
     if (!name.trim()) {
         throw new Error('Course name cannot be empty');
     }
     
-    return retryRequest(async () => {
-        console.log('🌐 API Call: POST /attendance/courses', { name: name.trim(), color });
-        const backendCourse = await api.post<BackendCourse>('/attendance/courses', { 
-            name: name.trim(), 
-            color 
-        });
-        
-        return transformCourse(backendCourse);
+    console.log('🌐 API Call: POST /attendance/courses', { name: name.trim(), color });
+    const backendCourse = await api.call(endpoints.attendance.addCourse, {
+        body: { name: name.trim(), color }
     });
+    
+    return transformCourse(backendCourse);
 };
 
 /**
@@ -140,19 +61,19 @@ export const deleteCourse = async (courseId: string): Promise<void> => {
         throw new Error('Course ID is required');
     }
     
-    return retryRequest(async () => {
-        console.log('🌐 API Call: DELETE /attendance/courses/' + courseId);
-        await api.delete(`/attendance/courses/${courseId}`);
-    });
+    console.log('🌐 API Call: DELETE /attendance/courses/' + courseId);
+    await api.call(endpoints.attendance.deleteCourse, { params: { courseId } });
 };
 
 /**
- * Marks attendance for a course on a specific date
+ * Marks attendance for one class of a course on a specific date
  */
 export const markAttendance = async (
     courseId: string, 
     dateString: string, 
-    status: 'attended' | 'missed' | 'clear'
+    session: SessionRef,
+    type: SessionType,
+    status: AttendanceMarkStatus
 ): Promise<Course> => {
     if (!courseId) {
         throw new Error('Course ID is required');
@@ -160,46 +81,113 @@ export const markAttendance = async (
     if (!dateString) {
         throw new Error('Date is required');
     }
+    if (session.extra !== undefined && (!Number.isInteger(session.extra) || session.extra < 1)) {
+        throw new Error('Invalid class number');
+    }
     if (!['attended', 'missed', 'clear'].includes(status)) {
         throw new Error('Invalid attendance status');
     }
     
-    return retryRequest(async () => {
-        console.log('🌐 API Call: PATCH /attendance/courses/' + courseId + '/mark', { 
-            date: dateString, 
-            status: status
-        });
-        
-        if (status === 'clear') {
-            // For clear status, we might need to send a DELETE request to remove the attendance record
-            // Or your backend might handle this in the PATCH endpoint
-            // Let's try sending present: null or undefined to indicate removal
-            console.log('🗑️ Clearing attendance for date:', dateString);
-        }
-        
-        const requestBody: any = { date: dateString };
-        
-        if (status === 'attended') {
-            requestBody.present = true;
-        } else if (status === 'missed') {
-            requestBody.present = false;
-        }
-        // For 'clear', we don't send present property, letting backend handle removal
-        
-        const backendCourse = await api.patch<BackendCourse>(`/attendance/courses/${courseId}/mark`, requestBody);
-        
-        return transformCourse(backendCourse);
+    console.log('🌐 API Call: PATCH /attendance/courses/' + courseId + '/mark', { 
+        date: dateString, 
+        session,
+        type,
+        status: status
     });
+    
+    if (status === 'clear') {
+        // For clear status, we might need to send a DELETE request to remove the attendance record
+        // Or your backend might handle this in the PATCH endpoint
+        // Let's try sending present: null or undefined to indicate removal
+        console.log('🗑️ Clearing attendance for class:', dateString, session);
+    }
+    
+    const requestBody: { date: string; slotId?: string; extra?: number; type: SessionType; present?: boolean } = {
+        date: dateString,
+        slotId: session.slotId,
+        extra: session.extra,
+        type
+    };
+    
+    if (status === 'attended') {
+        requestBody.present = true;
+    } else if (status === 'missed') {
+        requestBody.present = false;
+    }
+    // For 'clear', we don't send present property, letting backend handle removal
+    
+    // Marking sets the state for a class rather than toggling it, so repeating it is safe
+    const backendCourse = await api.call(endpoints.attendance.mark, {
+        params: { courseId },
+        body: requestBody,
+        options: { retry: {} }
+    });
+    
+    return transformCourse(backendCourse);
 };
 
 /**
- * Gets attendance statistics
+ * Replaces a course's weekly timetable and semester dates, or removes them when `schedule` is null
+ */
+export const setCourseSchedule = async (courseId: string, schedule: CourseSchedule | null): Promise<Course> => {
+    if (!courseId) {
+        throw new Error('Course ID is required');
+    }
+
+    console.log('🌐 API Call: PUT /attendance/courses/' + courseId + '/schedule', { schedule });
+    // The whole timetable is replaced, so repeating the call is safe
+    const backendCourse = await api.call(endpoints.attendance.setSchedule, {
+        params: { courseId },
+        body: { schedule },
+        options: { retry: {} }
+    });
+
+    return transformCourse(backendCourse);
+};
+
+/**
+ * Sets the attendance percentage a course requires
  */
-export const getStats = async (): Promise<any> => {
-    return retryRequest(async () => {
-        console.log('🌐 API Call: GET /attendance/stats');
-        return api.get<any>('/attendance/stats');
+export const setAttendanceThreshold = async (courseId: string, threshold: number): Promise<Course> => {
+    if (!courseId) {
+        throw new Error('Course ID is required');
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+        throw new Error('Threshold must be a whole percentage between 1 and 100');
+    }
+
+    console.log('🌐 API Call: PUT /attendance/courses/' + courseId + '/threshold', { threshold });
+    const backendCourse = await api.call(endpoints.attendance.setThreshold, {
+        params: { courseId },
+        body: { threshold },
+        options: { retry: {} }
     });
+
+    return transformCourse(backendCourse);
+};
+
+/**
+ * Gets the user's holiday list; scheduled classes on these dates are not counted
+ */
+export const getHolidays = async (signal?: AbortSignal): Promise<Holiday[]> => {
+    console.log('🌐 API Call: GET /attendance/holidays');
+    return api.call(endpoints.attendance.holidays, { options: { signal } });
+};
+
+/**
+ * Replaces the user's holiday list
+ */
+export const saveHolidays = async (holidays: Holiday[]): Promise<Holiday[]> => {
+    console.log('🌐 API Call: PUT /attendance/holidays', { count: holidays.length });
+    return api.call(endpoints.attendance.saveHolidays, { body: { holidays }, options: { retry: {} } });
+};
+
+/**
+ * Gets attendance statistics
+ */
+export const getStats = async (signal?: AbortSignal): Promise<AttendanceStats> => {
+    console.log('🌐 API Call: GET /attendance/stats');
+    return api.call(endpoints.attendance.stats, { options: { signal } });
 };
 
 /**
@@ -208,30 +196,17 @@ export const getStats = async (): Promise<any> => {
 export const getCalendarData = async (
     startDate?: string, 
     endDate?: string, 
-    courseId?: string
-): Promise<any> => {
-    const params = new URLSearchParams();
-    if (startDate) params.append('startDate', startDate);
-    if (endDate) params.append('endDate', endDate);
-    if (courseId) params.append('courseId', courseId);
-    
-    const queryString = params.toString();
-    const endpoint = queryString ? `/attendance/calendar?${queryString}` : '/attendance/calendar';
-    
-    return retryRequest(async () => {
-        console.log('🌐 API Call: GET ' + endpoint);
-        return api.get<any>(endpoint);
-    });
+    courseId?: string,
+    signal?: AbortSignal
+): Promise<AttendanceCalendarData> => {
+    console.log('🌐 API Call: GET /attendance/calendar', { startDate, endDate, courseId });
+    return api.call(endpoints.attendance.calendar, { query: { startDate, endDate, courseId }, options: { signal } });
 };
 
 /**
  * Gets week summary for attendance
  */
-export const getWeekSummary = async (date?: string): Promise<any> => {
-    const endpoint = date ? `/attendance/week-summary?date=${date}` : '/attendance/week-summary';
-    
-    return retryRequest(async () => {
-        console.log('🌐 API Call: GET ' + endpoint);
-        return api.get<any>(endpoint);
-    });
+export const getWeekSummary = async (date?: string, signal?: AbortSignal): Promise<AttendanceWeekSummary> => {
+    console.log('🌐 API Call: GET /attendance/week-summary', { date });
+    return api.call(endpoints.attendance.weekSummary, { query: { date }, options: { signal } });
 };
@@ -0,0 +1,88 @@
+import { Bid, BidAcceptance, BidStatus, RoomListing } from '../types';
+import { api } from './api';
+import { endpoints } from './endpoints';
+
+export const MIN_BIDDING_HOURS = 1;
+export const MAX_BIDDING_DAYS = 14;
+export const DEFAULT_BIDDING_DAYS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const LIVE_BID_STATUSES: BidStatus[] = ['Active', 'Shortlisted'];
+
+export const isLiveBid = (bid: Bid): boolean => LIVE_BID_STATUSES.includes(bid.status);
+
+export const defaultBiddingDeadline = (now = new Date()): string =>
+    new Date(now.getTime() + DEFAULT_BIDDING_DAYS * 24 * HOUR_MS).toISOString();
+
+/**
+ * Why a deadline can't be used, or null if it can. The server enforces the same window.
+ */
+export const validateBiddingDeadline = (deadline: string | undefined, now = new Date()): string | null => {
+    if (!deadline) return 'Please choose when bidding closes.';
+    const closesAt = new Date(deadline).getTime();
+    if (Number.isNaN(closesAt)) return 'Please choose a valid bidding deadline.';
+    if (closesAt < now.getTime() + MIN_BIDDING_HOURS * HOUR_MS) return `Bidding must stay open for at least ${MIN_BIDDING_HOURS} hour.`;
+    if (closesAt > now.getTime() + MAX_BIDDING_DAYS * 24 * HOUR_MS) return `Bidding can stay open for at most ${MAX_BIDDING_DAYS} days.`;
+    return null;
+};
+
+/**
+ * Whether a bidding listing still takes bids. The server closes listings at the deadline, but a
+ * page left open shouldn't offer to bid on one that has already passed it.
+ */
+export const isBiddingOpen = (listing: RoomListing, now = Date.now()): boolean => {
+    if (listing.listingType !== 'Bidding' || listing.status !== 'Open') return false;
+    return !listing.biddingDeadline || new Date(listing.biddingDeadline).getTime() > now;
+};
+
+// e.g. "2d 4h left", "35m left", "Bidding closed"
+export const formatTimeLeft = (deadline: string, now = Date.now()): string => {
+    const remainingMs = new Date(deadline).getTime() - now;
+    if (remainingMs <= 0) return 'Bidding closed';
+    const minutes = Math.floor(remainingMs / 60000);
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    if (days > 0) return `${days}d ${hours}h left`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m left`;
+    return `${Math.max(1, minutes)}m left`;
+};
+
+// Value for an <input type="datetime-local">, which works in local time without a zone
+export const toDateTimeLocalValue = (iso: string | undefined): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) return '';
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+
+// === API ===
+
+export const getBids = async (listingId: string, signal?: AbortSignal): Promise<Bid[]> => {
+    return api.call(endpoints.bids.list, { params: { listingId }, options: { signal } });
+};
+
+export const placeBid = async (listingId: string, offer: string): Promise<Bid> => {
+    return api.call(endpoints.bids.place, { params: { listingId }, body: { offer } });
+};
+
+export const withdrawBid = async (bidId: string): Promise<Bid> => {
+    return api.call(endpoints.bids.withdraw, { params: { bidId } });
+};
+
+export const shortlistBid = async (bidId: string): Promise<Bid> => {
+    return api.call(endpoints.bids.shortlist, { params: { bidId } });
+};
+
+export const rejectBid = async (bidId: string): Promise<Bid> => {
+    return api.call(endpoints.bids.reject, { params: { bidId } });
+};
+
+/**
+ * Accepts a bid on the caller's listing. The server closes bidding and returns the match
+ * request it opened with the bidder, which then goes through the usual confirmation.
+ */
+export const acceptBid = async (bidId: string): Promise<BidAcceptance> => {
+    return api.call(endpoints.bids.accept, { params: { bidId } });
+};
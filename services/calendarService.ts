@@ -0,0 +1,95 @@
+import { CalendarSubscription, Course, Event, Holiday } from '../types';
+import { api } from './api';
+import { apiUrl } from './config';
+import { endpoints } from './endpoints';
+import { buildCalendar, calendarUid, campusDateTimeToIso, CalendarItem, eventToCalendarItem, exportSequence } from './icalendar';
+import { isPastEvent } from './eventService';
+import { isLocalCourseId } from './attendanceQueue';
+import { parseDateKey, sessionTypeLabel, toDateKey, weekdayOf } from './timetable';
+
+/**
+ * The per-user feed that calendar apps poll. It carries the student's registered events and
+ * their class timetable, built by the server with the same UIDs as the files exported here, so
+ * a subscribed calendar and an earlier download don't show the same item twice.
+ */
+export const calendarFeedUrl = (token: string): string => apiUrl(`/calendar/feeds/${encodeURIComponent(token)}.ics`);
+
+// Opens the subscribe prompt of the phone's calendar app instead of downloading the file once
+export const webcalUrl = (feedUrl: string): string => feedUrl.replace(/^https?:\/\//, 'webcal://');
+
+export const googleCalendarSubscribeUrl = (feedUrl: string): string =>
+    `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(webcalUrl(feedUrl))}`;
+
+const eventPageUrl = (eventId: string): string =>
+    `${window.location.origin}${window.location.pathname}#/events/${encodeURIComponent(eventId)}`;
+
+// Cancelled events are still exported, marked cancelled, so an earlier import of them is removed
+export const isExportableEvent = (event: Event, now = Date.now()): boolean =>
+    event.status === 'approved' && !isPastEvent(event, now);
+
+/**
+ * An .ics file of the events the user is registered for that haven't happened yet, including
+ * cancelled ones under the same UID so calendar apps drop them.
+ */
+export const buildRegisteredEventsCalendar = (events: Event[], registeredIds: Set<string>, now = new Date()): string => {
+    const items = events
+        .filter(event => registeredIds.has(event.id) && isExportableEvent(event, now.getTime()))
+        .map(event => eventToCalendarItem(event, { url: eventPageUrl(event.id), now }));
+    return buildCalendar(items, 'MNIT LIVE Events', now);
+};
+
+/**
+ * An .ics file for one event. Pass `cancelled` after unregistering so importing it removes the
+ * entry added earlier.
+ */
+export const buildEventCalendar = (event: Event, cancelled = false, now = new Date()): string =>
+    buildCalendar([eventToCalendarItem(event, { url: eventPageUrl(event.id), cancelled, now })], event.name, now);
+
+/**
+ * An .ics file with one weekly repeating entry per timetable slot, for the semester, skipping
+ * holidays. Courses that haven't reached the server yet are left out, since their IDs (and so
+ * the entries' UIDs) will change.
+ */
+export const buildTimetableCalendar = (courses: Course[], holidays: Holiday[], now = new Date()): string => {
+    const items = courses.flatMap(course => {
+        const { schedule } = course;
+        if (!schedule || isLocalCourseId(course.id)) return [];
+        return schedule.slots.flatMap((slot): CalendarItem[] => {
+            // The first date on or after the start of term that falls on the slot's weekday
+            const first = parseDateKey(schedule.startDate);
+            while (weekdayOf(toDateKey(first)) !== slot.day) first.setDate(first.getDate() + 1);
+            const firstDate = toDateKey(first);
+            if (firstDate > schedule.endDate) return [];
+            return [{
+                uid: calendarUid('class', `${course.id}-${slot.id}`),
+                title: slot.type && slot.type !== 'lecture' ? `${course.name} ${sessionTypeLabel(slot.type)}` : course.name,
+                start: campusDateTimeToIso(firstDate, slot.start),
+                end: campusDateTimeToIso(firstDate, slot.end),
+                location: slot.room,
+                sequence: exportSequence(now),
+                recurrence: {
+                    weekdays: [slot.day],
+                    until: schedule.endDate,
+                    exceptDates: holidays
+                        .map(holiday => holiday.date)
+                        .filter(date => date >= firstDate && date <= schedule.endDate && weekdayOf(date) === slot.day),
+                },
+            }];
+        });
+    });
+    return buildCalendar(items, 'MNIT LIVE Timetable', now);
+};
+
+export const calendarFileName = (name: string): string =>
+    `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'calendar'}-${exportSequence()}.ics`;
+
+
+// === API ===
+
+export const getCalendarSubscription = async (signal?: AbortSignal): Promise<CalendarSubscription> => {
+    return api.call(endpoints.calendar.subscription, { options: { signal } });
+};
+
+export const resetCalendarSubscription = async (): Promise<CalendarSubscription> => {
+    return api.call(endpoints.calendar.rotateSubscription);
+};
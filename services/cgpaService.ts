@@ -1,15 +1,17 @@
 import { CgpaData } from '../types';
-import { api } from './api';
+import { api, isAbortError } from './api';
+import { endpoints } from './endpoints';
 
-export const getCgpaData = async (): Promise<CgpaData> => {
+export const getCgpaData = async (signal?: AbortSignal): Promise<CgpaData> => {
     try {
-        const data = await api.get<CgpaData>('/cgpa');
+        const data = await api.call(endpoints.cgpa.get, { options: { signal } });
         // Ensure there's always at least one semester card for the UI
-        if (!data || !data.semesters || data.semesters.length === 0) {
+        if (data.semesters.length === 0) {
             return { semesters: [{ id: `sem-new`, sgpa: '', credits: '' }] };
         }
         return data;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Failed to get CGPA data, returning default.", error);
         // Default data if the call fails (e.g., 404 for a new user)
         return {
@@ -24,5 +26,5 @@ export const saveCgpaData = async (data: CgpaData): Promise<CgpaData> => {
         ...data,
         semesters: data.semesters.filter(sem => sem.sgpa.trim() !== '' && sem.credits.trim() !== ''),
     };
-    return api.post<CgpaData>('/cgpa', filteredData);
+    return api.call(endpoints.cgpa.save, { body: filteredData });
 };
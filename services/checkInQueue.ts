@@ -0,0 +1,241 @@
+import { EventCheckIn, EventCheckInRoster } from '../types';
+import { isRetryableError } from './api';
+import * as eventService from './eventService';
+import { verifyTicket } from './eventTickets';
+
+// Offline state for the check-in scanner. The roster (guest list, check-ins so far and the key
+// that verifies tickets) is saved to IndexedDB when the organizer opens the scanner online, and
+// every scan is stored there before it is sent, so a venue with no signal can still check people
+// in and upload the scans once a connection is back.
+
+export interface CheckInScanner {
+  roster: EventCheckInRoster;
+  pending: EventCheckIn[]; // scanned on this device, not yet accepted by the server
+  rejected: { checkIn: EventCheckIn; reason: string }[]; // scans the server refused
+  lastSyncedAt?: string; // ISO date string
+}
+
+export type ScanResult =
+  | { kind: 'admitted'; name: string; checkIn: EventCheckIn }
+  | { kind: 'duplicate'; name: string; checkedInAt: string }
+  // Validly signed, but not on the downloaded guest list: registered after it was downloaded,
+  // or has since cancelled. The organizer decides; the server has the final say when syncing.
+  | { kind: 'unlisted'; name: string; checkIn: EventCheckIn }
+  | { kind: 'rejected'; reason: string };
+
+const DB_NAME = 'mnit-live-check-in';
+const DB_VERSION = 1;
+const STORE_NAME = 'scanners';
+const RETRY_INTERVAL_MS = 30000;
+
+interface ScannerStore {
+  get: (eventId: string) => Promise<CheckInScanner | undefined>;
+  // Reads and writes the record in one transaction, so concurrent scans and syncs can't overwrite
+  // each other. `change` must not await; throwing from it leaves the record as it was.
+  update: (eventId: string, change: (saved: CheckInScanner | undefined) => CheckInScanner) => Promise<CheckInScanner>;
+}
+
+
+// === STORAGE ===
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Records are keyed by the roster's event ID
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStore = (db: IDBDatabase): ScannerStore => ({
+  get: eventId => promisify(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(eventId)),
+  update: (eventId, change) => new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    let updated: CheckInScanner;
+    const request = store.get(eventId);
+    request.onsuccess = () => {
+      try {
+        updated = change(request.result);
+        store.put(updated, eventId);
+      } catch (error) {
+        reject(error);
+        transaction.abort();
+      }
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }),
+});
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes); survives until reload only
+const createMemoryStore = (): ScannerStore => {
+  const scanners = new Map<string, CheckInScanner>();
+  return {
+    get: async eventId => scanners.get(eventId),
+    update: async (eventId, change) => {
+      const updated = change(scanners.get(eventId));
+      scanners.set(eventId, updated);
+      return updated;
+    },
+  };
+};
+
+let storePromise: Promise<ScannerStore> | null = null;
+
+const getStore = (): Promise<ScannerStore> => {
+  if (!storePromise) {
+    storePromise = (typeof indexedDB === 'undefined' ? Promise.reject(new Error('IndexedDB is not available')) : openDatabase())
+      .then(createIndexedDbStore)
+      .catch(error => {
+        console.warn('⚠️ Check-in scanner falling back to memory:', error);
+        return createMemoryStore();
+      });
+  }
+  return storePromise;
+};
+
+export const getSavedScanner = async (eventId: string): Promise<CheckInScanner | undefined> => {
+  return (await getStore()).get(eventId);
+};
+
+
+// === ROSTER ===
+
+/**
+ * Downloads the latest roster and saves it, keeping scans that haven't been sent yet.
+ */
+export const downloadRoster = async (eventId: string, signal?: AbortSignal): Promise<CheckInScanner> => {
+  const roster = await eventService.getCheckInRoster(eventId, signal);
+  const store = await getStore();
+  return store.update(eventId, saved => ({
+    roster,
+    pending: saved?.pending || [],
+    rejected: saved?.rejected || [],
+    lastSyncedAt: saved?.lastSyncedAt,
+  }));
+};
+
+export const findCheckIn = (scanner: CheckInScanner, userId: string): EventCheckIn | undefined =>
+  scanner.roster.checkedIn.find(checkIn => checkIn.userId === userId)
+  || scanner.pending.find(checkIn => checkIn.userId === userId);
+
+export const countCheckedIn = (scanner: CheckInScanner): number =>
+  new Set([...scanner.roster.checkedIn, ...scanner.pending].map(checkIn => checkIn.userId)).size;
+
+
+// === SCANNING ===
+
+const addPending = async (eventId: string, checkIn: EventCheckIn): Promise<CheckInScanner> => {
+  const store = await getStore();
+  return store.update(eventId, saved => {
+    if (!saved) throw new Error('Download the guest list before checking people in.');
+    // Already in, e.g. "Admit anyway" pressed twice
+    if (findCheckIn(saved, checkIn.userId)) return saved;
+    return { ...saved, pending: [...saved.pending, checkIn] };
+  });
+};
+
+/**
+ * Checks a scanned ticket against the saved roster, with no network needed. Admitted tickets are
+ * saved straight away and sent on the next sync. Unlisted ones are only saved by `admitAnyway`.
+ */
+export const scanTicket = async (eventId: string, ticket: string, now = new Date()): Promise<{ result: ScanResult; scanner: CheckInScanner }> => {
+  const scanner = await getSavedScanner(eventId);
+  if (!scanner) throw new Error('Download the guest list before checking people in.');
+
+  const check = await verifyTicket(ticket, scanner.roster.publicKey);
+  if (!check.valid) return { result: { kind: 'rejected', reason: check.reason }, scanner };
+  const { claims } = check;
+  if (claims.eid !== eventId) {
+    return { result: { kind: 'rejected', reason: `${claims.name}'s ticket is for a different event.` }, scanner };
+  }
+
+  const existing = findCheckIn(scanner, claims.sub);
+  if (existing) return { result: { kind: 'duplicate', name: claims.name, checkedInAt: existing.checkedInAt }, scanner };
+
+  const checkIn: EventCheckIn = { userId: claims.sub, ticketId: claims.jti, checkedInAt: now.toISOString() };
+  const attendee = scanner.roster.attendees.find(a => a.userId === claims.sub);
+  if (!attendee) return { result: { kind: 'unlisted', name: claims.name, checkIn }, scanner };
+  if (attendee.ticketId !== claims.jti) {
+    return { result: { kind: 'rejected', reason: `${claims.name} registered again, so this older ticket no longer works.` }, scanner };
+  }
+
+  return { result: { kind: 'admitted', name: attendee.name, checkIn }, scanner: await addPending(eventId, checkIn) };
+};
+
+export const admitAnyway = (eventId: string, checkIn: EventCheckIn): Promise<CheckInScanner> => addPending(eventId, checkIn);
+
+
+// === SYNC ===
+
+const activeSyncs = new Map<string, Promise<CheckInScanner | undefined>>();
+
+const runSync = async (eventId: string): Promise<CheckInScanner | undefined> => {
+  const store = await getStore();
+  const saved = await store.get(eventId);
+  if (!saved || saved.pending.length === 0) return saved;
+
+  const sent = saved.pending;
+  const result = await eventService.syncCheckIns(eventId, sent);
+
+  const sentTickets = new Set(sent.map(checkIn => checkIn.ticketId));
+  const reasons = new Map(result.rejected.map(rejection => [rejection.ticketId, rejection.reason]));
+  // Scans made while the request was in flight are still pending
+  return store.update(eventId, (latest = saved) => ({
+    ...latest,
+    roster: { ...latest.roster, checkedIn: result.checkedIn },
+    pending: latest.pending.filter(checkIn => !sentTickets.has(checkIn.ticketId)),
+    rejected: [
+      ...latest.rejected,
+      ...sent.filter(checkIn => reasons.has(checkIn.ticketId)).map(checkIn => ({ checkIn, reason: reasons.get(checkIn.ticketId)! })),
+    ],
+    lastSyncedAt: new Date().toISOString(),
+  }));
+};
+
+/**
+ * Sends scans that haven't reached the server yet. Network failures leave them queued for the
+ * next attempt and resolve with the saved state; anything else is thrown.
+ */
+export const syncCheckIns = (eventId: string): Promise<CheckInScanner | undefined> => {
+  let sync = activeSyncs.get(eventId);
+  if (!sync) {
+    sync = runSync(eventId)
+      .catch(async error => {
+        if (!isRetryableError(error)) throw error;
+        console.warn('📴 Check-in sync paused, will retry:', error?.message || error);
+        return getSavedScanner(eventId);
+      })
+      .finally(() => activeSyncs.delete(eventId));
+    activeSyncs.set(eventId, sync);
+  }
+  return sync;
+};
+
+/**
+ * Keeps sending scans while the scanner is open: whenever the browser reports it is back online,
+ * and periodically in case that event never fires (captive Wi-Fi).
+ */
+export const watchCheckInQueue = (eventId: string, onSynced: (scanner: CheckInScanner) => void, onError: (error: Error) => void): (() => void) => {
+  const sync = () => {
+    syncCheckIns(eventId)
+      .then(scanner => { if (scanner) onSynced(scanner); })
+      .catch(onError);
+  };
+  window.addEventListener('online', sync);
+  const intervalId = setInterval(sync, RETRY_INTERVAL_MS);
+  return () => {
+    window.removeEventListener('online', sync);
+    clearInterval(intervalId);
+  };
+};
@@ -0,0 +1,161 @@
+import { User, RoomListing, CompatibilityFactor, ListingCompatibility, SuggestedRoom } from '../types';
+import { getFloorOfRoom, getHostelGender } from '../constants';
+
+// Ranks listings against a user's exchange preferences on the device. Every point is tied to a
+// factor with a readable explanation, so the same inputs always give the same order and the
+// user can see why a room placed where it did.
+
+const WEIGHTS = {
+    hostel: 35,
+    roomType: 25,
+    block: 15,
+    floor: 15,
+    notes: 10,
+};
+
+const NOTE_STOPWORDS = new Set([
+    'room', 'rooms', 'looking', 'want', 'wants', 'would', 'like', 'prefer', 'preferably', 'with', 'from',
+    'that', 'this', 'have', 'near', 'into', 'than', 'some', 'something', 'please', 'anything', 'also',
+]);
+
+type ScoringUser = Pick<User, 'id' | 'gender' | 'preferences'>;
+
+export interface RankedListing {
+    listing: RoomListing;
+    compatibility: ListingCompatibility;
+}
+
+// Distinctive words from the free-text notes, e.g. "quieter room, not road-facing" -> quieter, road-facing
+const noteKeywords = (notes: string | undefined): string[] => {
+    if (!notes) return [];
+    const words = notes.toLowerCase().match(/[a-z][a-z-]{3,}/g) || [];
+    return [...new Set(words.filter(word => !NOTE_STOPWORDS.has(word)))];
+};
+
+const preferenceFactor = (
+    key: CompatibilityFactor['key'],
+    label: string,
+    maxPoints: number,
+    wanted: string[],
+    actual: string | undefined,
+    describe: (actual: string) => string
+): CompatibilityFactor => {
+    if (wanted.length === 0) {
+        return { key, label, points: maxPoints, maxPoints, explanation: `No ${label.toLowerCase()} preference, so any ${label.toLowerCase()} fits` };
+    }
+    if (!actual) {
+        return { key, label, points: 0, maxPoints, explanation: `The listing doesn't say which ${label.toLowerCase()} it is` };
+    }
+    const matched = wanted.includes(actual);
+    return {
+        key,
+        label,
+        points: matched ? maxPoints : 0,
+        maxPoints,
+        explanation: matched
+            ? `${describe(actual)} is one of your preferred options`
+            : `${describe(actual)} isn't in your preferences (${wanted.join(', ')})`,
+    };
+};
+
+/**
+ * Scores one listing for a user out of 100. Rooms in a hostel the user can't live in are
+ * marked ineligible and score 0 regardless of the other factors.
+ */
+export const scoreListing = (user: ScoringUser, listing: RoomListing): ListingCompatibility => {
+    const { preferences } = user;
+    const room = listing.roomDetails;
+
+    const hostelGender = getHostelGender(room.hostel);
+    const eligible = user.gender === 'Other'
+        || (hostelGender === 'Unknown' ? listing.listedBy.gender === user.gender : hostelGender === user.gender);
+    const genderFactor: CompatibilityFactor = {
+        key: 'gender',
+        label: 'Eligibility',
+        points: 0,
+        maxPoints: 0,
+        explanation: eligible
+            ? `You can be allotted a room in ${room.hostel}`
+            : `${room.hostel} is a ${hostelGender === 'Unknown' ? listing.listedBy.gender.toLowerCase() : hostelGender.toLowerCase()} hostel`,
+    };
+
+    const keywords = noteKeywords(preferences.notes);
+    const listingText = [listing.description, listing.desiredTradeConditions, room.hostel, room.block, room.type]
+        .filter(Boolean).join(' ').toLowerCase();
+    const matchedKeywords = keywords.filter(word => listingText.includes(word));
+    // Matching three keywords is enough for full points; long notes shouldn't be penalised
+    const keywordTarget = Math.min(3, keywords.length);
+    const notesFactor: CompatibilityFactor = {
+        key: 'notes',
+        label: 'Notes',
+        points: keywordTarget === 0 ? WEIGHTS.notes : Math.round(WEIGHTS.notes * Math.min(1, matchedKeywords.length / keywordTarget)),
+        maxPoints: WEIGHTS.notes,
+        explanation: keywordTarget === 0
+            ? 'No notes to match against'
+            : matchedKeywords.length > 0
+                ? `The listing mentions ${matchedKeywords.map(word => `"${word}"`).join(', ')} from your notes`
+                : 'The listing mentions nothing from your notes',
+    };
+
+    const roomTypePreference = preferences.roomType && preferences.roomType !== 'Any' ? [preferences.roomType] : [];
+    const floorPreference = preferences.floor && preferences.floor !== 'Any' ? [preferences.floor] : [];
+
+    const factors: CompatibilityFactor[] = [
+        genderFactor,
+        preferenceFactor('hostel', 'Hostel', WEIGHTS.hostel, preferences.hostels, room.hostel, hostel => hostel),
+        preferenceFactor('roomType', 'Room type', WEIGHTS.roomType, roomTypePreference, room.type, type => `A ${type.toLowerCase()} room`),
+        preferenceFactor('block', 'Block', WEIGHTS.block, preferences.blocks, room.block, block => `Block ${block}`),
+        preferenceFactor('floor', 'Floor', WEIGHTS.floor, floorPreference, getFloorOfRoom(room.roomNumber), floor => `The ${floor.toLowerCase()} floor`),
+        notesFactor,
+    ];
+
+    return {
+        listingId: listing.id,
+        eligible,
+        score: eligible ? factors.reduce((sum, factor) => sum + factor.points, 0) : 0,
+        factors,
+    };
+};
+
+/**
+ * Open listings the user could move into, best match first. Ties go to the newer listing,
+ * then to the listing id, so the order never depends on the order the server returned.
+ */
+export const rankListings = (user: ScoringUser, listings: RoomListing[]): RankedListing[] => {
+    return listings
+        .filter(listing => listing.status === 'Open' && listing.listedBy.id !== user.id)
+        .map(listing => ({ listing, compatibility: scoreListing(user, listing) }))
+        .filter(ranked => ranked.compatibility.eligible)
+        .sort((a, b) =>
+            b.compatibility.score - a.compatibility.score
+            || new Date(b.listing.createdAt).getTime() - new Date(a.listing.createdAt).getTime()
+            || a.listing.id.localeCompare(b.listing.id)
+        );
+};
+
+/**
+ * The top ranked listings in the shape the AI suggestions use, with the matched factors as the reasoning.
+ */
+export const suggestRoomsLocally = (user: ScoringUser, listings: RoomListing[], limit = 3): SuggestedRoom[] => {
+    return rankListings(user, listings).slice(0, limit).map(({ listing, compatibility }) => {
+        const strengths = compatibility.factors.filter(factor => factor.maxPoints > 0 && factor.points === factor.maxPoints);
+        return {
+            id: listing.id,
+            hostel: listing.roomDetails.hostel,
+            block: listing.roomDetails.block,
+            roomNumber: listing.roomDetails.roomNumber,
+            type: listing.roomDetails.type,
+            reasoning: strengths.length > 0
+                ? `${compatibility.score}% match. ${strengths.map(factor => factor.explanation).join('. ')}.`
+                : `${compatibility.score}% match.`,
+            listedBy: {
+                id: listing.listedBy.id,
+                fullName: listing.listedBy.fullName,
+                rollNumber: listing.listedBy.rollNumber,
+                gender: listing.listedBy.gender,
+            },
+            source: 'local',
+            compatibility,
+        };
+    });
+};
@@ -0,0 +1,45 @@
+// Resolves which backend the frontend talks to. Every service builds its URLs from here.
+//
+// The profile comes from API_PROFILE in a .env file, or from the Vite mode
+// (`vite --mode staging` loads .env.staging). API_BASE_URL overrides the profile's URL,
+// e.g. to point the dev profile at a backend on another port.
+
+export type ApiProfile = 'production' | 'staging' | 'dev' | 'local-mock';
+
+interface ApiProfileConfig {
+  apiBaseUrl: string;
+}
+
+const PROFILES: Record<ApiProfile, ApiProfileConfig> = {
+  production: { apiBaseUrl: 'https://server.mnit.live/api' },
+  staging: { apiBaseUrl: 'https://staging.server.mnit.live/api' },
+  // A backend running from the server repo with `npm run dev`
+  dev: { apiBaseUrl: 'http://localhost:5000/api' },
+  // A mock server answering with canned fixtures, for UI work without a database
+  'local-mock': { apiBaseUrl: 'http://localhost:4010/api' },
+};
+
+const isApiProfile = (value: string | undefined): value is ApiProfile =>
+  !!value && Object.prototype.hasOwnProperty.call(PROFILES, value);
+
+const resolveProfile = (): ApiProfile => {
+  const requested = process.env.API_PROFILE;
+  if (isApiProfile(requested)) return requested;
+  if (requested) {
+    console.warn(`Unknown API_PROFILE "${requested}", falling back to production. Expected one of: ${Object.keys(PROFILES).join(', ')}`);
+  }
+  return 'production';
+};
+
+export const API_PROFILE: ApiProfile = resolveProfile();
+
+export const API_BASE_URL = (process.env.API_BASE_URL || PROFILES[API_PROFILE].apiBaseUrl).replace(/\/+$/, '');
+
+/**
+ * Absolute URL for a backend path, e.g. apiUrl('/listings') for the active profile.
+ */
+export const apiUrl = (path: string): string => `${API_BASE_URL}${path.startsWith('/') ? path : `/${path}`}`;
+
+if (API_PROFILE !== 'production') {
+  console.info(`🔧 Using the ${API_PROFILE} API at ${API_BASE_URL}`);
+}
@@ -0,0 +1,854 @@
+import {
+  User, RoomLocation, ExchangePreferences, RoomListing, RoomListingFormData, ListingSearchPage, ListingInterest,
+  ListingInterestSummary, SuggestedRoom, CgpaData,
+  AttendanceStats, AttendanceCalendarData, AttendanceWeekSummary, Event, EventFormData,
+  DirectMessage, DirectConversation, DirectMessagePage, CommonChatMessage, TextMessage, ImageMessage, PollMessage, Poll,
+  ChatHistoryPage, MatchRequestDetails, MatchRequestConfirmation, SwapCandidate, SavedSearch, ListingSearchFilters,
+  Bid, BidAcceptance, ListingEdit, ListingWithdrawReason, ProofReviewItem, UserModeration, ReportedChatMessage,
+  CalendarSubscription, CourseSchedule, Holiday, SessionType, EventRegistration, EventCheckIn, EventCheckInRoster, EventCheckInSyncResult,
+} from '../types';
+import {
+  Schema, Infer, string, number, boolean, literal, optional, nullable, withDefault, array, object,
+  discriminated, typed, empty,
+} from './apiSchema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+/**
+ * One backend route: how to build its path, what it accepts and what it must return.
+ * `response` is checked at runtime by `api.call`; `request` only carries the body type.
+ */
+export interface Endpoint<TResponse, TParams = void, TBody = void> {
+  method: HttpMethod;
+  path: (params: TParams) => string;
+  request?: Schema<TBody>;
+  response: Schema<TResponse>;
+}
+
+const endpoint = <TResponse, TParams = void, TBody = void>(definition: Endpoint<TResponse, TParams, TBody>) => definition;
+
+const id = encodeURIComponent;
+
+
+// === RESPONSE SCHEMAS ===
+// Annotated with the app types so the compiler flags a schema that drifts from types.ts.
+
+const roomTypeSchema = literal('Single', 'Double Shared', 'Triple Shared', 'Any');
+const genderSchema = literal('Male', 'Female', 'Other');
+
+const roomLocationSchema: Schema<RoomLocation> = object({
+  hostel: string(),
+  block: string(),
+  roomNumber: string(),
+  type: roomTypeSchema,
+});
+
+const exchangePreferencesSchema: Schema<ExchangePreferences> = object({
+  hostels: withDefault(array(string()), []),
+  blocks: withDefault(array(string()), []),
+  floor: optional(string()),
+  roomType: optional(roomTypeSchema),
+  notes: optional(string()),
+});
+
+const userModerationSchema: Schema<UserModeration> = object({
+  status: literal('active', 'suspended', 'banned'),
+  reason: optional(string()),
+  until: optional(string()),
+  updatedAt: optional(string()),
+});
+
+const userSchema: Schema<User> = object({
+  id: string(),
+  email: string(),
+  fullName: string(),
+  rollNumber: withDefault(string(), ''),
+  gender: genderSchema,
+  currentRoom: withDefault(nullable(roomLocationSchema), null),
+  preferences: withDefault(exchangePreferencesSchema, { hostels: [], blocks: [] }),
+  phoneNumber: withDefault(string(), ''),
+  whatsappNumber: withDefault(string(), ''),
+  hasActiveListing: optional(boolean()),
+  friends: optional(array(string())),
+  role: optional(literal('student', 'admin')),
+  moderation: optional(userModerationSchema),
+});
+
+const roomListingSchema: Schema<RoomListing> = object({
+  id: string(),
+  listedBy: object({
+    id: string(),
+    fullName: string(),
+    rollNumber: string(),
+    gender: genderSchema,
+    whatsappNumber: withDefault(string(), ''),
+  }),
+  roomDetails: roomLocationSchema,
+  listingType: literal('Exchange', 'Bidding'),
+  description: string(),
+  desiredTradeConditions: optional(string()),
+  status: literal('Pending Verification', 'Open', 'Matched', 'Expired', 'Withdrawn'),
+  createdAt: string(),
+  updatedAt: optional(string()),
+  expiresAt: optional(string()),
+  renewedAt: optional(string()),
+  closure: optional(object({
+    reason: literal('Swapped', 'BidAccepted', 'Expired', 'BiddingEnded', 'FoundElsewhere', 'NoLongerNeeded', 'TakenDown', 'Other'),
+    note: optional(string()),
+    closedAt: string(),
+  })),
+  verification: optional(object({
+    status: literal('Pending', 'Approved', 'Rejected'),
+    reason: optional(string()),
+    reviewedAt: optional(string()),
+  })),
+  interestCount: optional(number()),
+  interestedByMe: optional(boolean()),
+  recentInterestCount: optional(number()),
+  biddingDeadline: optional(string()),
+  bidCount: optional(number()),
+});
+
+const listingInterestSchema: Schema<ListingInterest> = object({
+  user: object({
+    id: string(),
+    fullName: string(),
+    rollNumber: string(),
+    gender: genderSchema,
+    whatsappNumber: withDefault(string(), ''),
+  }),
+  createdAt: string(),
+});
+
+const listingInterestSummarySchema: Schema<ListingInterestSummary> = object({
+  listingId: string(),
+  interestCount: number(),
+  interested: boolean(),
+});
+
+const proofReviewItemSchema: Schema<ProofReviewItem> = object({
+  listing: roomListingSchema,
+  lister: object({
+    id: string(),
+    fullName: string(),
+    rollNumber: withDefault(string(), ''),
+    email: string(),
+    currentRoom: withDefault(nullable(roomLocationSchema), null),
+  }),
+  proof: string(),
+  proofType: optional(literal('gmail', 'email', 'document')),
+  submittedAt: string(),
+});
+
+const listingEditSchema: Schema<ListingEdit> = object({
+  id: string(),
+  listingId: string(),
+  editedAt: string(),
+  editedBy: object({ id: string(), fullName: string() }),
+  changes: withDefault(array(object({ field: string(), from: nullable(string()), to: nullable(string()) })), []),
+});
+
+const listingSearchPageSchema: Schema<ListingSearchPage> = object({
+  listings: array(roomListingSchema),
+  total: number(),
+  page: number(),
+  pageSize: number(),
+});
+
+const suggestedRoomSchema: Schema<SuggestedRoom> = object({
+  id: string(),
+  hostel: string(),
+  block: string(),
+  roomNumber: string(),
+  type: roomTypeSchema,
+  reasoning: string(),
+  listedBy: object({ id: string(), fullName: string(), rollNumber: string(), gender: genderSchema }),
+});
+
+const cgpaDataSchema: Schema<CgpaData> = object({
+  semesters: withDefault(array(object({ id: string(), sgpa: string(), credits: string() })), []),
+});
+
+const sessionTypeSchema = literal('lecture', 'lab', 'tutorial');
+
+const courseScheduleSchema: Schema<CourseSchedule> = object({
+  slots: array(object({
+    id: string(),
+    day: literal('MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'),
+    start: string(),
+    end: string(),
+    room: optional(string()),
+    type: optional(sessionTypeSchema),
+  })),
+  startDate: string(),
+  endDate: string(),
+  weights: optional(object({
+    lecture: optional(number()),
+    lab: optional(number()),
+    tutorial: optional(number()),
+  })),
+});
+
+const holidaySchema: Schema<Holiday> = object({
+  date: string(),
+  name: string(),
+});
+
+const backendCourseSchema = object({
+  _id: string(),
+  name: string(),
+  color: string(),
+  userId: optional(string()),
+  attendanceHistory: withDefault(array(object({
+    date: string(),
+    present: boolean(),
+    // Neither is set on records from before classes were marked one by one
+    slotId: optional(string()),
+    extra: optional(number()),
+    type: withDefault(sessionTypeSchema, 'lecture'),
+    _id: optional(string()),
+  })), []),
+  schedule: optional(nullable(courseScheduleSchema)),
+  threshold: optional(number()),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+});
+
+// Wire format of a course; attendanceService turns it into the app's `Course`
+export type BackendCourse = Infer<typeof backendCourseSchema>;
+
+const attendanceStatsSchema: Schema<AttendanceStats> = object({
+  totalCourses: number(),
+  totalClasses: number(),
+  totalAttended: number(),
+  overallAttendanceRate: number(),
+  courseStats: array(object({
+    courseId: string(),
+    courseName: string(),
+    color: string(),
+    total: number(),
+    attended: number(),
+    attendanceRate: number(),
+  })),
+});
+
+const attendanceCalendarSchema: Schema<AttendanceCalendarData> = object({
+  startDate: string(),
+  endDate: string(),
+  entries: array(object({
+    date: string(),
+    courseId: string(),
+    courseName: string(),
+    color: string(),
+    present: boolean(),
+  })),
+});
+
+const attendanceWeekSummarySchema: Schema<AttendanceWeekSummary> = object({
+  weekStart: string(),
+  weekEnd: string(),
+  days: array(object({ date: string(), attended: number(), missed: number() })),
+  totalAttended: number(),
+  totalMissed: number(),
+});
+
+const eventSchema: Schema<Event> = object({
+  id: string(),
+  name: string(),
+  organizer: string(),
+  dateTime: string(),
+  location: string(),
+  description: string(),
+  registrationLink: optional(string()),
+  registeredUsers: withDefault(array(string()), []),
+  capacity: optional(number()),
+  waitlist: withDefault(array(string()), []),
+  status: literal('pending', 'approved', 'rejected'),
+  submittedBy: optional(string()),
+  submittedAt: optional(string()),
+  reviewNote: optional(string()),
+  updatedAt: optional(string()),
+  cancelledAt: optional(string()),
+});
+
+const directMessageSchema: Schema<DirectMessage> = object({
+  id: string(),
+  listingId: string(),
+  listingRoomSummary: string(),
+  senderId: string(),
+  senderName: string(),
+  receiverId: string(),
+  receiverName: string(),
+  message: string(),
+  timestamp: string(),
+  isReadByReceiver: boolean(),
+  readAt: optional(string()),
+});
+
+const directConversationSchema: Schema<DirectConversation> = object({
+  partnerId: string(),
+  partnerName: string(),
+  listingId: string(),
+  listingRoomSummary: string(),
+  lastMessage: directMessageSchema,
+  unreadCount: withDefault(number(), 0),
+});
+
+const directMessagePageSchema: Schema<DirectMessagePage> = object({
+  messages: array(directMessageSchema),
+  nextCursor: withDefault(nullable(string()), null),
+});
+
+const pollSchema: Schema<Poll> = object({
+  id: string(),
+  question: string(),
+  options: array(object({ text: string(), voters: withDefault(array(string()), []) })),
+});
+
+const chatSenderSchema = object({ id: string(), name: string() });
+
+const commonChatMessageSchema: Schema<CommonChatMessage> = discriminated('type', {
+  text: object({ id: string(), type: literal('text'), sender: chatSenderSchema, timestamp: string(), content: string() }),
+  image: object({ id: string(), type: literal('image'), sender: chatSenderSchema, timestamp: string(), imageUrl: string() }),
+  poll: object({ id: string(), type: literal('poll'), sender: chatSenderSchema, timestamp: string(), poll: pollSchema }),
+});
+
+const chatHistoryPageSchema: Schema<ChatHistoryPage> = object({
+  messages: array(commonChatMessageSchema),
+  nextCursor: withDefault(nullable(string()), null),
+  retentionDays: optional(number()),
+});
+
+const eventRegistrationSchema: Schema<EventRegistration> = object({
+  eventId: string(),
+  status: literal('registered', 'waitlisted'),
+  waitlistPosition: optional(number()),
+  ticket: optional(string()),
+});
+
+const eventCheckInSchema: Schema<EventCheckIn> = object({
+  userId: string(),
+  ticketId: string(),
+  checkedInAt: string(),
+});
+
+const eventCheckInRosterSchema: Schema<EventCheckInRoster> = object({
+  eventId: string(),
+  eventName: string(),
+  publicKey: typed<JsonWebKey>(),
+  attendees: array(object({ userId: string(), name: string(), ticketId: string() })),
+  checkedIn: withDefault(array(eventCheckInSchema), []),
+  fetchedAt: string(),
+});
+
+const eventCheckInSyncResultSchema: Schema<EventCheckInSyncResult> = object({
+  checkedIn: array(eventCheckInSchema),
+  rejected: withDefault(array(object({ ticketId: string(), reason: string() })), []),
+});
+
+const calendarSubscriptionSchema: Schema<CalendarSubscription> = object({
+  token: string(),
+  createdAt: string(),
+});
+
+const reportedChatMessageSchema: Schema<ReportedChatMessage> = object({
+  message: commonChatMessageSchema,
+  reports: array(object({ reporter: chatSenderSchema, reason: string(), createdAt: string() })),
+  senderModeration: optional(userModerationSchema),
+});
+
+
+const savedSearchSchema: Schema<SavedSearch> = object({
+  id: string(),
+  name: string(),
+  filters: object({
+    query: withDefault(string(), ''),
+    hostel: withDefault(string(), ''),
+    block: withDefault(string(), ''),
+    floor: withDefault(string(), ''),
+    listingType: withDefault(literal('', 'Exchange', 'Bidding'), ''),
+    roomType: withDefault(literal('', 'Single', 'Double Shared', 'Triple Shared', 'Any'), ''),
+  }),
+  alertsEnabled: withDefault(boolean(), true),
+  createdAt: string(),
+  lastSeenAt: string(),
+});
+
+const matchRequestPartySchema = object({ id: string(), fullName: string(), rollNumber: withDefault(string(), ''), gender: genderSchema });
+
+const matchRequestSchema: Schema<MatchRequestDetails> = object({
+  id: string(),
+  listingId: string(),
+  requesterId: string(),
+  listerId: string(),
+  status: literal('Pending', 'Accepted', 'Rejected', 'Withdrawn', 'Confirmed'),
+  createdAt: string(),
+  updatedAt: optional(string()),
+  approvals: withDefault(array(string()), []),
+  confirmedAt: optional(string()),
+  group: optional(object({ id: string(), listingIds: array(string()) })),
+  bidId: optional(string()),
+  listing: roomListingSchema,
+  requester: matchRequestPartySchema,
+  lister: matchRequestPartySchema,
+});
+
+const swapCandidateSchema: Schema<SwapCandidate> = object({
+  userId: string(),
+  gender: genderSchema,
+  preferences: withDefault(exchangePreferencesSchema, { hostels: [], blocks: [] }),
+  listing: roomListingSchema,
+});
+
+const matchRequestConfirmationSchema: Schema<MatchRequestConfirmation> = object({
+  request: matchRequestSchema,
+  swapped: boolean(),
+  currentRoom: withDefault(nullable(roomLocationSchema), null),
+});
+
+const bidSchema: Schema<Bid> = object({
+  id: string(),
+  listingId: string(),
+  bidder: matchRequestPartySchema,
+  offer: string(),
+  status: literal('Active', 'Shortlisted', 'Accepted', 'Rejected', 'Withdrawn', 'Expired'),
+  createdAt: string(),
+  updatedAt: optional(string()),
+  matchRequestId: optional(string()),
+});
+
+const bidAcceptanceSchema: Schema<BidAcceptance> = object({
+  bid: bidSchema,
+  matchRequest: matchRequestSchema,
+});
+
+
+// === ENDPOINT REGISTRY ===
+
+export const endpoints = {
+  auth: {
+    login: endpoint({
+      method: 'POST',
+      path: () => '/auth/login',
+      request: typed<{ email: string; password: string }>(),
+      response: object({ user: userSchema }),
+    }),
+    register: endpoint({
+      method: 'POST',
+      path: () => '/auth/register',
+      request: typed<{ email: string; password: string; fullName: string; gender: User['gender']; whatsappNumber: string }>(),
+      response: object({ user: optional(userSchema), autoLogin: withDefault(boolean(), false) }),
+    }),
+    logout: endpoint({ method: 'POST', path: () => '/auth/logout', response: empty() }),
+  },
+
+  user: {
+    me: endpoint({ method: 'GET', path: () => '/user/me', response: userSchema }),
+    stats: endpoint({ method: 'GET', path: () => '/user/stats', response: object({ totalUsers: number() }) }),
+    updatePreferences: endpoint({
+      method: 'PATCH',
+      path: () => '/user/preferences',
+      request: typed<ExchangePreferences>(),
+      response: userSchema,
+    }),
+    updateDetails: endpoint({
+      method: 'PATCH',
+      path: () => '/user/details',
+      request: typed<Partial<Pick<User, 'fullName' | 'rollNumber' | 'phoneNumber' | 'whatsappNumber' | 'gender'>>>(),
+      response: userSchema,
+    }),
+  },
+
+  attendance: {
+    listCourses: endpoint({ method: 'GET', path: () => '/attendance/courses', response: array(backendCourseSchema) }),
+    addCourse: endpoint({
+      method: 'POST',
+      path: () => '/attendance/courses',
+      request: typed<{ name: string; color: string }>(),
+      response: backendCourseSchema,
+    }),
+    deleteCourse: endpoint({
+      method: 'DELETE',
+      path: (params: { courseId: string }) => `/attendance/courses/${id(params.courseId)}`,
+      response: empty(),
+    }),
+    // Omitting `present` clears the record for that class
+    mark: endpoint({
+      method: 'PATCH',
+      path: (params: { courseId: string }) => `/attendance/courses/${id(params.courseId)}/mark`,
+      request: typed<{ date: string; slotId?: string; extra?: number; type: SessionType; present?: boolean }>(),
+      response: backendCourseSchema,
+    }),
+    // Replaces the whole timetable; null removes it
+    setSchedule: endpoint({
+      method: 'PUT',
+      path: (params: { courseId: string }) => `/attendance/courses/${id(params.courseId)}/schedule`,
+      request: typed<{ schedule: CourseSchedule | null }>(),
+      response: backendCourseSchema,
+    }),
+    setThreshold: endpoint({
+      method: 'PUT',
+      path: (params: { courseId: string }) => `/attendance/courses/${id(params.courseId)}/threshold`,
+      request: typed<{ threshold: number }>(),
+      response: backendCourseSchema,
+    }),
+    holidays: endpoint({ method: 'GET', path: () => '/attendance/holidays', response: array(holidaySchema) }),
+    saveHolidays: endpoint({
+      method: 'PUT',
+      path: () => '/attendance/holidays',
+      request: typed<{ holidays: Holiday[] }>(),
+      response: array(holidaySchema),
+    }),
+    stats: endpoint({ method: 'GET', path: () => '/attendance/stats', response: attendanceStatsSchema }),
+    calendar: endpoint({ method: 'GET', path: () => '/attendance/calendar', response: attendanceCalendarSchema }),
+    weekSummary: endpoint({ method: 'GET', path: () => '/attendance/week-summary', response: attendanceWeekSummarySchema }),
+  },
+
+  cgpa: {
+    get: endpoint({ method: 'GET', path: () => '/cgpa', response: cgpaDataSchema }),
+    save: endpoint({ method: 'POST', path: () => '/cgpa', request: typed<CgpaData>(), response: cgpaDataSchema }),
+  },
+
+  chat: {
+    listMessages: endpoint({ method: 'GET', path: () => '/chat/messages', response: chatHistoryPageSchema }),
+    postMessage: endpoint({
+      method: 'POST',
+      path: () => '/chat/messages',
+      request: typed<Omit<TextMessage, 'id' | 'timestamp'> | Omit<ImageMessage, 'id' | 'timestamp'> | Omit<PollMessage, 'id' | 'timestamp'>>(),
+      response: commonChatMessageSchema,
+    }),
+    vote: endpoint({
+      method: 'POST',
+      path: (params: { messageId: string }) => `/chat/messages/${id(params.messageId)}/vote`,
+      request: typed<{ optionIndex: number }>(),
+      response: pollSchema,
+    }),
+    report: endpoint({
+      method: 'POST',
+      path: (params: { messageId: string }) => `/chat/messages/${id(params.messageId)}/report`,
+      request: typed<{ reason: string }>(),
+      response: empty(),
+    }),
+  },
+
+  events: {
+    list: endpoint({ method: 'GET', path: () => '/events', response: array(eventSchema) }),
+    // Approved events, plus the caller's own requests in any status
+    get: endpoint({
+      method: 'GET',
+      path: (params: { eventId: string }) => `/events/${id(params.eventId)}`,
+      response: eventSchema,
+    }),
+    registrations: endpoint({ method: 'GET', path: () => '/events/registrations', response: array(eventRegistrationSchema) }),
+    // Takes a place, or joins the waitlist when the event is full
+    register: endpoint({
+      method: 'POST',
+      path: (params: { eventId: string }) => `/events/${id(params.eventId)}/register`,
+      response: eventRegistrationSchema,
+    }),
+    // Also leaves the waitlist; a freed place goes to the first person waiting
+    unregister: endpoint({
+      method: 'DELETE',
+      path: (params: { eventId: string }) => `/events/${id(params.eventId)}/register`,
+      response: empty(),
+    }),
+    // Organizer (the submitter) or admin only
+    checkInRoster: endpoint({
+      method: 'GET',
+      path: (params: { eventId: string }) => `/events/${id(params.eventId)}/check-in/roster`,
+      response: eventCheckInRosterSchema,
+    }),
+    // Accepts scans made offline; the earliest check-in for a ticket wins
+    syncCheckIns: endpoint({
+      method: 'POST',
+      path: (params: { eventId: string }) => `/events/${id(params.eventId)}/check-ins`,
+      request: typed<{ checkIns: EventCheckIn[] }>(),
+      response: eventCheckInSyncResultSchema,
+    }),
+    request: endpoint({ method: 'POST', path: () => '/events/request', request: typed<EventFormData>(), response: eventSchema }),
+  },
+
+  // The feed itself is served at calendarFeedUrl(token) and read by calendar apps, not by this client
+  calendar: {
+    subscription: endpoint({ method: 'GET', path: () => '/calendar/subscription', response: calendarSubscriptionSchema }),
+    // Issues a new token; the old feed URL stops working
+    rotateSubscription: endpoint({ method: 'POST', path: () => '/calendar/subscription/rotate', response: calendarSubscriptionSchema }),
+  },
+
+  listings: {
+    uploadProof: endpoint({
+      method: 'POST',
+      path: () => '/listings/upload-proof',
+      request: typed<FormData>(),
+      response: object({ allotmentProof: string(), filename: string(), size: number() }),
+    }),
+    list: endpoint({ method: 'GET', path: () => '/listings', response: array(roomListingSchema) }),
+    // Every listing the current user has made, in any status, newest first
+    mine: endpoint({ method: 'GET', path: () => '/listings/mine', response: array(roomListingSchema) }),
+    // Filtered, sorted and paginated on the server; takes ListingSearchParams as the query
+    search: endpoint({ method: 'GET', path: () => '/listings/search', response: listingSearchPageSchema }),
+    create: endpoint({
+      method: 'POST',
+      path: () => '/listings',
+      request: typed<RoomListingFormData>(),
+      response: roomListingSchema,
+    }),
+    // Records a ListingEdit with whatever fields changed
+    update: endpoint({
+      method: 'PUT',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}`,
+      request: typed<RoomListingFormData>(),
+      response: roomListingSchema,
+    }),
+    withdraw: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/withdraw`,
+      request: typed<{ reason: ListingWithdrawReason; note?: string }>(),
+      response: roomListingSchema,
+    }),
+    // Replaces a rejected proof and puts the listing back in the verification queue
+    resubmitProof: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/proof`,
+      request: typed<{ allotmentProof: string; allotmentProofType?: RoomListingFormData['allotmentProofType'] }>(),
+      response: roomListingSchema,
+    }),
+    // Pushes expiresAt back by the full period; also reopens a listing that has expired
+    renew: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/renew`,
+      response: roomListingSchema,
+    }),
+    history: endpoint({
+      method: 'GET',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/history`,
+      response: array(listingEditSchema),
+    }),
+    expressInterest: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/interest`,
+      response: listingInterestSummarySchema,
+    }),
+    withdrawInterest: endpoint({
+      method: 'DELETE',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/interest`,
+      response: listingInterestSummarySchema,
+    }),
+    // Lister only; most recent first
+    interests: endpoint({
+      method: 'GET',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/interests`,
+      response: array(listingInterestSchema),
+    }),
+  },
+
+  matchRequests: {
+    // Requests the user sent plus those received on their listings
+    list: endpoint({ method: 'GET', path: () => '/match-requests', response: array(matchRequestSchema) }),
+    create: endpoint({
+      method: 'POST',
+      path: () => '/match-requests',
+      request: typed<{ listingId: string }>(),
+      response: matchRequestSchema,
+    }),
+    // Open exchange listings with their listers' preferences, for finding multi-way swaps
+    swapCandidates: endpoint({ method: 'GET', path: () => '/match-requests/swap-candidates', response: array(swapCandidateSchema) }),
+    // Creates one linked request per leg of the cycle; returns the legs the caller takes part in
+    proposeCycle: endpoint({
+      method: 'POST',
+      path: () => '/match-requests/cycles',
+      request: typed<{ listingIds: string[] }>(),
+      response: array(matchRequestSchema),
+    }),
+    accept: endpoint({
+      method: 'POST',
+      path: (params: { requestId: string }) => `/match-requests/${id(params.requestId)}/accept`,
+      response: matchRequestSchema,
+    }),
+    reject: endpoint({
+      method: 'POST',
+      path: (params: { requestId: string }) => `/match-requests/${id(params.requestId)}/reject`,
+      response: matchRequestSchema,
+    }),
+    withdraw: endpoint({
+      method: 'POST',
+      path: (params: { requestId: string }) => `/match-requests/${id(params.requestId)}/withdraw`,
+      response: matchRequestSchema,
+    }),
+    // The last approval swaps every participant's room and marks their listings Matched in one transaction
+    confirm: endpoint({
+      method: 'POST',
+      path: (params: { requestId: string }) => `/match-requests/${id(params.requestId)}/confirm`,
+      response: matchRequestConfirmationSchema,
+    }),
+  },
+  bids: {
+    // Full history for the listing, newest first
+    list: endpoint({
+      method: 'GET',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/bids`,
+      response: array(bidSchema),
+    }),
+    place: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/listings/${id(params.listingId)}/bids`,
+      request: typed<{ offer: string }>(),
+      response: bidSchema,
+    }),
+    withdraw: endpoint({
+      method: 'POST',
+      path: (params: { bidId: string }) => `/bids/${id(params.bidId)}/withdraw`,
+      response: bidSchema,
+    }),
+    shortlist: endpoint({
+      method: 'POST',
+      path: (params: { bidId: string }) => `/bids/${id(params.bidId)}/shortlist`,
+      response: bidSchema,
+    }),
+    reject: endpoint({
+      method: 'POST',
+      path: (params: { bidId: string }) => `/bids/${id(params.bidId)}/reject`,
+      response: bidSchema,
+    }),
+    // Closes bidding, rejects the other live bids and opens an accepted match request with the bidder
+    accept: endpoint({
+      method: 'POST',
+      path: (params: { bidId: string }) => `/bids/${id(params.bidId)}/accept`,
+      response: bidAcceptanceSchema,
+    }),
+  },
+
+
+  // Admin only; the server rejects these for any other role
+  admin: {
+    // Pending allotment proofs, oldest first
+    verificationQueue: endpoint({ method: 'GET', path: () => '/admin/verifications', response: array(proofReviewItemSchema) }),
+    // Opens the listing and notifies the lister
+    approveProof: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/admin/verifications/${id(params.listingId)}/approve`,
+      response: roomListingSchema,
+    }),
+    rejectProof: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/admin/verifications/${id(params.listingId)}/reject`,
+      request: typed<{ reason: string }>(),
+      response: roomListingSchema,
+    }),
+
+    // Event requests; `status` in the query filters, newest first
+    events: endpoint({ method: 'GET', path: () => '/admin/events', response: array(eventSchema) }),
+    // Publishes the event to the events feed
+    approveEvent: endpoint({
+      method: 'POST',
+      path: (params: { eventId: string }) => `/admin/events/${id(params.eventId)}/approve`,
+      response: eventSchema,
+    }),
+    rejectEvent: endpoint({
+      method: 'POST',
+      path: (params: { eventId: string }) => `/admin/events/${id(params.eventId)}/reject`,
+      request: typed<{ reason: string }>(),
+      response: eventSchema,
+    }),
+
+    // Listings in every status, filtered like /listings/search
+    listings: endpoint({ method: 'GET', path: () => '/admin/listings', response: listingSearchPageSchema }),
+    // Withdraws the listing with reason 'TakenDown' and notifies the lister
+    takeDownListing: endpoint({
+      method: 'POST',
+      path: (params: { listingId: string }) => `/admin/listings/${id(params.listingId)}/takedown`,
+      request: typed<{ reason: string }>(),
+      response: roomListingSchema,
+    }),
+
+    // Searches by name, email or roll number; `status` in the query filters by AccountStatus
+    users: endpoint({ method: 'GET', path: () => '/admin/users', response: array(userSchema) }),
+    suspendUser: endpoint({
+      method: 'POST',
+      path: (params: { userId: string }) => `/admin/users/${id(params.userId)}/suspend`,
+      request: typed<{ reason: string; until: string }>(),
+      response: userSchema,
+    }),
+    // Also takes down the user's open listing and signs them out everywhere
+    banUser: endpoint({
+      method: 'POST',
+      path: (params: { userId: string }) => `/admin/users/${id(params.userId)}/ban`,
+      request: typed<{ reason: string }>(),
+      response: userSchema,
+    }),
+    reinstateUser: endpoint({
+      method: 'POST',
+      path: (params: { userId: string }) => `/admin/users/${id(params.userId)}/reinstate`,
+      response: userSchema,
+    }),
+
+    // Reported campus chat messages that no moderator has acted on, most reported first
+    chatReports: endpoint({ method: 'GET', path: () => '/admin/chat/reports', response: array(reportedChatMessageSchema) }),
+    // Keeps the message and clears its reports
+    dismissChatReports: endpoint({
+      method: 'POST',
+      path: (params: { messageId: string }) => `/admin/chat/reports/${id(params.messageId)}/dismiss`,
+      response: empty(),
+    }),
+    // Deletes the message for everyone and clears its reports
+    removeChatMessage: endpoint({
+      method: 'DELETE',
+      path: (params: { messageId: string }) => `/admin/chat/messages/${id(params.messageId)}`,
+      response: empty(),
+    }),
+  },
+
+  savedSearches: {
+    list: endpoint({ method: 'GET', path: () => '/saved-searches', response: array(savedSearchSchema) }),
+    create: endpoint({
+      method: 'POST',
+      path: () => '/saved-searches',
+      request: typed<{ name: string; filters: ListingSearchFilters; alertsEnabled: boolean }>(),
+      response: savedSearchSchema,
+    }),
+    update: endpoint({
+      method: 'PATCH',
+      path: (params: { savedSearchId: string }) => `/saved-searches/${id(params.savedSearchId)}`,
+      request: typed<Partial<Pick<SavedSearch, 'name' | 'alertsEnabled' | 'lastSeenAt'>>>(),
+      response: savedSearchSchema,
+    }),
+    delete: endpoint({
+      method: 'DELETE',
+      path: (params: { savedSearchId: string }) => `/saved-searches/${id(params.savedSearchId)}`,
+      response: empty(),
+    }),
+  },
+
+  messages: {
+    list: endpoint({ method: 'GET', path: () => '/messages', response: array(directMessageSchema) }),
+    send: endpoint({
+      method: 'POST',
+      path: () => '/messages',
+      request: typed<Pick<DirectMessage, 'listingId' | 'listingRoomSummary' | 'receiverId' | 'message'>>(),
+      response: directMessageSchema,
+    }),
+    conversations: endpoint({ method: 'GET', path: () => '/messages/conversations', response: array(directConversationSchema) }),
+    thread: endpoint({
+      method: 'GET',
+      path: (params: { partnerId: string; listingId: string }) =>
+        `/messages/conversations/${id(params.partnerId)}/${id(params.listingId)}`,
+      response: directMessagePageSchema,
+    }),
+    markRead: endpoint({
+      method: 'PATCH',
+      path: () => '/messages/read',
+      request: typed<{ messageIds: string[]; readerId: string }>(),
+      response: empty(),
+    }),
+    unreadCount: endpoint({ method: 'GET', path: () => '/messages/unread-count', response: object({ count: number() }) }),
+  },
+
+  suggestions: {
+    create: endpoint({
+      method: 'POST',
+      path: () => '/suggestions',
+      request: typed<{ currentUser: User; availableRooms: RoomListing[] }>(),
+      response: array(suggestedRoomSchema),
+    }),
+  },
+};
@@ -1,23 +1,126 @@
-import { Event, EventFormData } from '../types';
+import { Event, EventCheckIn, EventCheckInRoster, EventCheckInSyncResult, EventFormData, EventRegistration, EventRegistrationStatus } from '../types';
 import { api } from './api';
+import { endpoints } from './endpoints';
 
-export const getEvents = async (): Promise<Event[]> => {
-    return api.get<Event[]>('/events');
+export type EventsTab = 'upcoming' | 'past' | 'mine';
+
+export interface EventFilters {
+    organizer: string; // '' for any
+    from: string; // yyyy-mm-dd, inclusive; '' for no bound
+    to: string; // yyyy-mm-dd, inclusive; '' for no bound
+}
+
+export const isPastEvent = (event: Event, now = Date.now()): boolean => new Date(event.dateTime).getTime() < now;
+
+// Local calendar date of the event, comparable with <input type="date"> values
+const toDateKey = (iso: string): string => {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Events for one tab of the feed: upcoming soonest first, past most recent first, and the
+ * user's registrations with upcoming ones before past ones.
+ */
+export const selectEvents = (
+    events: Event[],
+    tab: EventsTab,
+    filters: EventFilters,
+    registeredIds: Set<string>,
+    now = Date.now()
+): Event[] => {
+    const byDate = (a: Event, b: Event) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime();
+    const matches = events.filter(event => {
+        if (event.status !== 'approved') return false;
+        if (filters.organizer && event.organizer !== filters.organizer) return false;
+        const day = toDateKey(event.dateTime);
+        if (filters.from && day < filters.from) return false;
+        if (filters.to && day > filters.to) return false;
+        return true;
+    });
+
+    const upcoming = matches.filter(event => !isPastEvent(event, now)).sort(byDate);
+    const past = matches.filter(event => isPastEvent(event, now)).sort((a, b) => byDate(b, a));
+    switch (tab) {
+        case 'upcoming':
+            return upcoming;
+        case 'past':
+            return past;
+        case 'mine':
+            return [...upcoming, ...past].filter(event => registeredIds.has(event.id));
+    }
+};
+
+export const isEventFull = (event: Event): boolean =>
+    event.capacity !== undefined && event.registeredUsers.length >= event.capacity;
+
+export const placesLeft = (event: Event): number | null =>
+    event.capacity === undefined ? null : Math.max(0, event.capacity - event.registeredUsers.length);
+
+// e.g. "48/60 registered · 12 on waitlist"
+export const registrationCountLabel = (event: Event): string => {
+    const registered = event.capacity === undefined
+        ? `${event.registeredUsers.length} registered`
+        : `${event.registeredUsers.length}/${event.capacity} registered`;
+    return event.waitlist.length > 0 ? `${registered} · ${event.waitlist.length} on waitlist` : registered;
+};
+
+// What the server will most likely do with a new registration, for updating the page before it answers
+export const expectedRegistrationStatus = (event: Event): EventRegistrationStatus =>
+    isEventFull(event) ? 'waitlisted' : 'registered';
+
+/**
+ * The event with `userId` moved into the given list, or out of both for `null`. Giving up a place
+ * promotes the first person on the waitlist, as the server does.
+ */
+export const withRegistration = (event: Event, userId: string, status: EventRegistrationStatus | null): Event => {
+    const hadPlace = event.registeredUsers.includes(userId);
+    const registeredUsers = event.registeredUsers.filter(id => id !== userId);
+    let waitlist = event.waitlist.filter(id => id !== userId);
+    if (status === 'registered') registeredUsers.push(userId);
+    if (status === 'waitlisted') waitlist.push(userId);
+    if (hadPlace && status !== 'registered' && waitlist.length > 0) {
+        registeredUsers.push(waitlist[0]);
+        waitlist = waitlist.slice(1);
+    }
+    return { ...event, registeredUsers, waitlist };
+};
+
+export const getOrganizers = (events: Event[]): string[] =>
+    [...new Set(events.filter(event => event.status === 'approved').map(event => event.organizer))].sort((a, b) => a.localeCompare(b));
+
+
+// === API ===
+
+export const getEvents = async (signal?: AbortSignal): Promise<Event[]> => {
+    return api.call(endpoints.events.list, { options: { signal } });
 };
 
-export const getUserRegistrations = async (): Promise<string[]> => {
-    // Assuming the backend returns an array of event IDs the user is registered for
-    return api.get<string[]>('/events/registrations');
+export const getEvent = async (eventId: string, signal?: AbortSignal): Promise<Event> => {
+    return api.call(endpoints.events.get, { params: { eventId }, options: { signal } });
 };
 
-export const registerForEvent = async (eventId: string): Promise<void> => {
-    return api.post(`/events/${eventId}/register`);
+export const getUserRegistrations = async (signal?: AbortSignal): Promise<EventRegistration[]> => {
+    return api.call(endpoints.events.registrations, { options: { signal } });
+};
+
+export const registerForEvent = async (eventId: string): Promise<EventRegistration> => {
+    return api.call(endpoints.events.register, { params: { eventId } });
 };
 
 export const unregisterFromEvent = async (eventId: string): Promise<void> => {
-    return api.delete(`/events/${eventId}/register`);
+    return api.call(endpoints.events.unregister, { params: { eventId } });
 };
 
 export const requestEventListing = async (formData: EventFormData): Promise<Event> => {
-    return api.post<Event>('/events/request', formData);
+    return api.call(endpoints.events.request, { body: formData });
+};
+
+export const getCheckInRoster = async (eventId: string, signal?: AbortSignal): Promise<EventCheckInRoster> => {
+    return api.call(endpoints.events.checkInRoster, { params: { eventId }, options: { signal } });
+};
+
+export const syncCheckIns = async (eventId: string, checkIns: EventCheckIn[]): Promise<EventCheckInSyncResult> => {
+    return api.call(endpoints.events.syncCheckIns, { params: { eventId }, body: { checkIns } });
 };
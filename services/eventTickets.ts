@@ -0,0 +1,88 @@
+import { EventTicketClaims } from '../types';
+
+// Check-in tickets are compact JWS strings (header.payload.signature) signed by the server with
+// ES256. The scanner verifies them with the event's public key from the downloaded roster, so a
+// ticket can be checked at the door with no connection. WebCrypto only runs in a secure context
+// (https or localhost).
+
+const TICKET_ALGORITHM = 'ES256';
+
+export type TicketCheck =
+  | { valid: true; claims: EventTicketClaims }
+  | { valid: false; reason: string };
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+const decodeJson = (segment: string): unknown => JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isClaims = (value: unknown): value is EventTicketClaims =>
+  isRecord(value) && typeof value.jti === 'string' && typeof value.eid === 'string' && typeof value.sub === 'string'
+  && typeof value.name === 'string' && typeof value.iat === 'number';
+
+// Importing a key is slow on older phones, and the scanner uses the same one for every ticket
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+const importTicketKey = (jwk: JsonWebKey): Promise<CryptoKey> => {
+  const cacheKey = `${jwk.x}.${jwk.y}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    keyCache.set(cacheKey, key);
+    // Don't keep a failed import around; a refreshed roster may bring a usable key
+    key.catch(() => keyCache.delete(cacheKey));
+  }
+  return key;
+};
+
+/**
+ * Reads a ticket's claims without checking the signature, e.g. to show whose ticket it is.
+ * Returns null for anything that isn't a ticket.
+ */
+export const readTicketClaims = (ticket: string): EventTicketClaims | null => {
+  const parts = ticket.trim().split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const claims = decodeJson(parts[1]);
+    return isClaims(claims) ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks that `ticket` was signed by the holder of `publicKey` and hasn't been altered.
+ * It doesn't check which event the ticket is for; compare `claims.eid` for that.
+ */
+export const verifyTicket = async (ticket: string, publicKey: JsonWebKey): Promise<TicketCheck> => {
+  const parts = ticket.trim().split('.');
+  if (parts.length !== 3) return { valid: false, reason: 'This is not an MNIT LIVE ticket.' };
+  const [header, payload, signature] = parts;
+
+  let claims: unknown;
+  try {
+    const decodedHeader = decodeJson(header);
+    if (!isRecord(decodedHeader) || decodedHeader.alg !== TICKET_ALGORITHM) return { valid: false, reason: 'This ticket is signed in an unknown way.' };
+    claims = decodeJson(payload);
+  } catch {
+    return { valid: false, reason: 'This is not an MNIT LIVE ticket.' };
+  }
+  if (!isClaims(claims)) return { valid: false, reason: 'This ticket is missing details.' };
+
+  let verified = false;
+  try {
+    verified = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      await importTicketKey(publicKey),
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+  } catch (error) {
+    console.error('Failed to verify ticket signature:', error);
+  }
+  return verified ? { valid: true, claims } : { valid: false, reason: 'The signature does not match. This ticket may be forged.' };
+};
@@ -19,53 +19,6 @@ export const initializeUserDb = () => {
     }
 };
 
-const getUsersDb = (): User[] => {
-    initializeUserDb();
-    return JSON.parse(localStorage.getItem(ALL_USERS_DB_KEY)!) as User[];
-};
-
-const saveUsersDb = (users: User[]) => {
-    localStorage.setItem(ALL_USERS_DB_KEY, JSON.stringify(users));
-};
-
-export const swapUserRooms = async (userId1: string, userId2: string): Promise<{user1: User, user2: User} | null> => {
-    await delay(500);
-    const users = getUsersDb();
-    const user1Index = users.findIndex(u => u.id === userId1);
-    const user2Index = users.findIndex(u => u.id === userId2);
-
-    if (user1Index === -1 || user2Index === -1) {
-        console.error("One or both users not found for room swap.");
-        return null;
-    }
-
-    const room1 = users[user1Index].currentRoom;
-    const room2 = users[user2Index].currentRoom;
-
-    // Swap rooms
-    users[user1Index].currentRoom = room2;
-    users[user2Index].currentRoom = room1;
-    
-    // Save updated user list back to localStorage
-    saveUsersDb(users);
-    
-    // Also update the currently logged-in user's localStorage entry if they are one of the parties
-    const storedAuthUser = localStorage.getItem('authUser');
-    if(storedAuthUser) {
-        const authUser = JSON.parse(storedAuthUser) as User;
-        if (authUser.id === userId1) {
-            authUser.currentRoom = room2;
-            localStorage.setItem('authUser', JSON.stringify(authUser));
-        } else if (authUser.id === userId2) {
-            authUser.currentRoom = room1;
-            localStorage.setItem('authUser', JSON.stringify(authUser));
-        }
-    }
-
-    return { user1: users[user1Index], user2: users[user2Index] };
-};
-
-
 // ==================================================================
 // == FRIEND-SPECIFIC FUNCTIONS
 // ==================================================================
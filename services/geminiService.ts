@@ -1,29 +1,31 @@
 import { User, RoomListing, SuggestedRoom } from '../types';
 import { api } from './api';
+import { endpoints } from './endpoints';
+import { suggestRoomsLocally } from './compatibilityScoring';
 
 /**
  * Fetches AI-powered room suggestions from the backend.
  * The backend service is responsible for securely calling the Gemini API.
+ * When it is unavailable, falls back to ranking the rooms on the device with `suggestRoomsLocally`.
  * @param currentUser The user for whom to generate suggestions.
  * @param availableRooms The list of rooms to consider for suggestions.
  * @returns A promise that resolves to an array of suggested rooms.
  */
 export const fetchRoomSuggestions = async (currentUser: User, availableRooms: RoomListing[]): Promise<SuggestedRoom[]> => {
   if (!currentUser.currentRoom) {
-    console.warn("User's current room info missing. Cannot fetch suggestions.");
-    return [];
+    // The AI prompt is built around the room being given up; local scoring only needs preferences
+    console.warn("User's current room info missing. Using local suggestions.");
+    return suggestRoomsLocally(currentUser, availableRooms);
   }
 
   try {
     // The front-end's role is to send the necessary context to our secure backend endpoint.
-    const suggestions = await api.post<SuggestedRoom[]>('/suggestions', {
-      currentUser,
-      availableRooms,
+    const suggestions = await api.call(endpoints.suggestions.create, {
+      body: { currentUser, availableRooms },
     });
-    return suggestions;
+    return suggestions.map(suggestion => ({ ...suggestion, source: 'ai' as const }));
   } catch (error) {
-    console.error("Error fetching room suggestions from the backend:", error);
-    // Gracefully fail by returning an empty array so the UI doesn't crash.
-    return [];
+    console.error("Error fetching room suggestions from the backend, using local suggestions:", error);
+    return suggestRoomsLocally(currentUser, availableRooms);
   }
 };
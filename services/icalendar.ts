@@ -0,0 +1,199 @@
+import { Event, Weekday } from '../types';
+
+// Builds iCalendar (RFC 5545) files for events and weekly classes. Times are written in campus
+// time with a VTIMEZONE, so phone calendars show them correctly wherever the student's phone is
+// set. Every item has a UID derived from its id: importing a newer file, or the subscription feed
+// refreshing, updates the existing entry instead of adding a copy, and a CANCELLED entry with the
+// same UID removes it.
+
+export const CAMPUS_TIME_ZONE = 'Asia/Kolkata';
+// India has no daylight saving, so one fixed offset covers every date
+const CAMPUS_UTC_OFFSET_MINUTES = 330;
+const PRODUCT_ID = '-//MNIT LIVE//Campus Calendar//EN';
+const UID_DOMAIN = 'mnit-live';
+const DEFAULT_EVENT_MINUTES = 120;
+const MAX_LINE_OCTETS = 75;
+
+export interface WeeklyRecurrence {
+  weekdays: Weekday[];
+  until: string; // 'YYYY-MM-DD' in campus time, inclusive
+  exceptDates?: string[]; // 'YYYY-MM-DD' in campus time, e.g. holidays
+}
+
+export interface CalendarItem {
+  uid: string; // stable across exports; see calendarUid
+  title: string;
+  start: string; // ISO date string; the first occurrence for recurring items
+  end: string; // ISO date string
+  location?: string;
+  description?: string;
+  url?: string;
+  cancelled?: boolean;
+  // Calendars only replace their copy with a higher SEQUENCE; see exportSequence
+  sequence?: number;
+  lastModified?: string; // ISO date string
+  recurrence?: WeeklyRecurrence;
+}
+
+export const calendarUid = (kind: string, id: string): string => `${kind}-${id}@${UID_DOMAIN}`;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Wall-clock time on campus as parts; getUTC* on the shifted date gives IST fields
+const toCampusParts = (iso: string) => {
+  const shifted = new Date(new Date(iso).getTime() + CAMPUS_UTC_OFFSET_MINUTES * 60000);
+  return {
+    date: `${shifted.getUTCFullYear()}${pad(shifted.getUTCMonth() + 1)}${pad(shifted.getUTCDate())}`,
+    time: `${pad(shifted.getUTCHours())}${pad(shifted.getUTCMinutes())}${pad(shifted.getUTCSeconds())}`,
+  };
+};
+
+// 'YYYY-MM-DD' and 'HH:mm' on campus as an ISO instant
+export const campusDateTimeToIso = (date: string, time: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes) - CAMPUS_UTC_OFFSET_MINUTES * 60000).toISOString();
+};
+
+const formatCampusDateTime = (iso: string): string => {
+  const { date, time } = toCampusParts(iso);
+  return `${date}T${time}`;
+};
+
+const formatUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Last second of a campus calendar day, in UTC, as RRULE UNTIL requires with a TZID start
+const endOfCampusDayUtc = (day: string): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  const utcMs = Date.UTC(year, month - 1, date, 23, 59, 59) - CAMPUS_UTC_OFFSET_MINUTES * 60000;
+  return formatUtcDateTime(new Date(utcMs));
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting characters
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const TIME_ZONE_LINES = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CAMPUS_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0530',
+  'TZOFFSETTO:+0530',
+  'TZNAME:IST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const itemLines = (item: CalendarItem, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${item.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${CAMPUS_TIME_ZONE}:${formatCampusDateTime(item.start)}`,
+    `DTEND;TZID=${CAMPUS_TIME_ZONE}:${formatCampusDateTime(item.end)}`,
+    `SUMMARY:${escapeText(item.title)}`,
+  ];
+  if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`);
+  if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`);
+  if (item.url) lines.push(`URL:${item.url}`);
+  if (item.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(item.lastModified))}`);
+  lines.push(`SEQUENCE:${item.sequence ?? 0}`);
+  lines.push(`STATUS:${item.cancelled ? 'CANCELLED' : 'CONFIRMED'}`);
+
+  if (item.recurrence) {
+    const { weekdays, until, exceptDates = [] } = item.recurrence;
+    lines.push(`RRULE:FREQ=WEEKLY;BYDAY=${weekdays.join(',')};UNTIL=${endOfCampusDayUtc(until)}`);
+    // Each excluded occurrence is named by its own start time
+    const startTime = toCampusParts(item.start).time;
+    exceptDates.forEach(day => lines.push(`EXDATE;TZID=${CAMPUS_TIME_ZONE}:${day.replace(/-/g, '')}T${startTime}`));
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * A complete .ics file. `name` is shown by calendar apps that support it, e.g. as the title of a
+ * subscribed calendar.
+ */
+export const buildCalendar = (items: CalendarItem[], name = 'MNIT LIVE', now = new Date()): string => {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${CAMPUS_TIME_ZONE}`,
+    ...TIME_ZONE_LINES,
+    ...items.flatMap(item => itemLines(item, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * A SEQUENCE that is higher than any earlier export of the same item. A downloaded file can't know
+ * what the student imported before (a cancellation, then a re-registration), so it counts the
+ * export time in seconds rather than the number of edits.
+ */
+export const exportSequence = (now = new Date()): number => Math.floor(now.getTime() / 1000);
+
+/**
+ * A campus event as a calendar item. Events only have a start time, so they are given a
+ * default length. `cancelled` also covers an event the user is no longer registered for.
+ */
+export const eventToCalendarItem = (
+  event: Event,
+  options: { url?: string; cancelled?: boolean; now?: Date } = {}
+): CalendarItem => {
+  const lastModified = event.cancelledAt || event.updatedAt;
+  return {
+    uid: calendarUid('event', event.id),
+    title: event.name,
+    start: event.dateTime,
+    end: new Date(new Date(event.dateTime).getTime() + DEFAULT_EVENT_MINUTES * 60000).toISOString(),
+    location: event.location,
+    description: [`Organized by ${event.organizer}`, event.description, event.registrationLink].filter(Boolean).join('\n\n'),
+    url: options.url,
+    cancelled: options.cancelled || !!event.cancelledAt,
+    sequence: exportSequence(options.now),
+    lastModified,
+  };
+};
+
+// Offers the file as a download, e.g. "mnit-events.ics"
+export const downloadCalendar = (filename: string, ics: string) => {
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start reading the file after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
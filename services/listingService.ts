@@ -1,34 +1,85 @@
-import { RoomListing, RoomListingFormData, RoomLocation } from '../types';
+import {
+    User, RoomListing, RoomListingFormData, RoomLocation, ListingSearchParams, ListingSearchPage, ListingInterest,
+    ListingInterestSummary, ListingEdit, ListingStatus, ListingWithdrawReason,
+} from '../types';
 import { api } from './api';
+import { endpoints } from './endpoints';
 
-export const uploadAllotmentProof = async (file: File): Promise<{ allotmentProof: string; filename: string; size: number }> => {
+/**
+ * Uploads a proof that has been through prepareAllotmentProof. onProgress receives the fraction
+ * of the file sent so far.
+ */
+export const uploadAllotmentProof = async (
+    file: File,
+    onProgress?: (fraction: number) => void
+): Promise<{ allotmentProof: string; filename: string; size: number }> => {
     const formData = new FormData();
     formData.append('allotmentProof', file);
 
-    // Use fetch directly for file upload instead of our JSON API wrapper
-    const response = await fetch('https://server.mnit.live/api/listings/upload-proof', {
-        method: 'POST',
-        credentials: 'include', // Important for authentication
-        body: formData
-    });
+    // Sent as multipart; the API client leaves Content-Type to the browser for FormData bodies
+    return api.call(endpoints.listings.uploadProof, { body: formData, options: { timeoutMs: 60000, onUploadProgress: onProgress } });
+};
 
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to upload allotment proof');
-    }
+export const getListings = async (signal?: AbortSignal): Promise<RoomListing[]> => {
+    return api.call(endpoints.listings.list, { options: { signal } });
+};
 
-    const result = await response.json();
-    if (!result.success) {
-        throw new Error(result.message || 'Failed to upload allotment proof');
-    }
+export const getMyListings = async (signal?: AbortSignal): Promise<RoomListing[]> => {
+    return api.call(endpoints.listings.mine, { options: { signal } });
+};
+
+// Mirrors the server's expiry period, for wording only; the server decides when a listing expires
+export const LISTING_EXPIRY_DAYS = 21;
+// How close to expiry the dashboard starts asking the lister to renew
+export const RENEWAL_PROMPT_DAYS = 3;
 
-    return result.data;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_STATUSES: ListingStatus[] = ['Pending Verification', 'Open'];
+
+export const isActiveListing = (listing: RoomListing): boolean => ACTIVE_STATUSES.includes(listing.status);
+
+// When the listing went into search: when its proof was approved, or when it was posted if it predates verification
+export const publishedAt = (listing: RoomListing): string => listing.verification?.reviewedAt ?? listing.createdAt;
+
+// Whole days left before an open listing expires, rounded up; undefined if it has no expiry
+export const daysUntilExpiry = (listing: RoomListing, now = Date.now()): number | undefined => {
+    if (!listing.expiresAt) return undefined;
+    return Math.max(0, Math.ceil((new Date(listing.expiresAt).getTime() - now) / DAY_MS));
 };
 
-export const getListings = async (): Promise<RoomListing[]> => {
-    return api.get<RoomListing[]>('/listings');
+/**
+ * Whether to prompt the lister to renew: open and close to expiry, or already expired by time
+ * rather than withdrawn or matched.
+ */
+export const needsRenewal = (listing: RoomListing, now = Date.now()): boolean => {
+    if (listing.status === 'Expired') return listing.closure?.reason !== 'BiddingEnded';
+    const daysLeft = daysUntilExpiry(listing, now);
+    return listing.status === 'Open' && daysLeft !== undefined && daysLeft <= RENEWAL_PROMPT_DAYS;
+};
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 24;
+
+/**
+ * Searches listings on the server. Results come back a page at a time with the total number
+ * of matches, so pages can show counts and load more without downloading every listing.
+ */
+export const searchListings = async (params: ListingSearchParams = {}, signal?: AbortSignal): Promise<ListingSearchPage> => {
+    return api.call(endpoints.listings.search, {
+        query: { page: 1, pageSize: DEFAULT_SEARCH_PAGE_SIZE, ...params },
+        options: { signal },
+    });
 };
 
+/**
+ * Search params that hide the user's own listings and rooms in hostels they can't be allotted.
+ */
+export const visibleToUser = (user: Pick<User, 'id' | 'gender'> | null): ListingSearchParams => ({
+    status: 'Open',
+    excludeListedBy: user?.id,
+    // Students who registered as 'Other' aren't restricted to one set of hostels
+    eligibleFor: user?.gender === 'Male' || user?.gender === 'Female' ? user.gender : undefined,
+});
+
 export const saveListing = async (formData: RoomListingFormData, existingListingId?: string): Promise<RoomListing> => {
     // The backend should handle parsing the room number and associating the logged-in user.
     // The frontend's responsibility is to send the raw form data.
@@ -45,19 +96,55 @@ export const saveListing = async (formData: RoomListingFormData, existingListing
         type: formData.roomDetails.type
     };
 
-    const payload: Omit<RoomListingFormData, 'roomDetails'> & { roomDetails: RoomLocation } = {
+    const payload: RoomListingFormData = {
         ...formData,
-        roomDetails: finalRoomDetails
+        roomDetails: finalRoomDetails,
+        // Switching a listing back to exchange drops its deadline
+        biddingDeadline: formData.listingType === 'Bidding' ? formData.biddingDeadline : undefined,
     };
 
     if (existingListingId) {
-        return api.put<RoomListing>(`/listings/${existingListingId}`, payload);
+        return api.call(endpoints.listings.update, { params: { listingId: existingListingId }, body: payload });
     } else {
-        return api.post<RoomListing>('/listings', payload);
+        return api.call(endpoints.listings.create, { body: payload });
     }
 };
 
-export const delistListing = async (listingId: string): Promise<void> => {
-    // The backend will change the status to 'Closed'
-    return api.delete<void>(`/listings/${listingId}`);
+export const delistListing = async (listingId: string, reason: ListingWithdrawReason, note?: string): Promise<RoomListing> => {
+    // The backend marks it 'Withdrawn' and keeps the reason for the listing's history
+    return api.call(endpoints.listings.withdraw, { params: { listingId }, body: { reason, note: note?.trim() || undefined } });
+};
+
+/**
+ * Uploads a new allotment proof for a listing whose proof was rejected.
+ */
+export const resubmitAllotmentProof = async (
+    listingId: string,
+    file: File,
+    onProgress?: (fraction: number) => void
+): Promise<RoomListing> => {
+    const { allotmentProof } = await uploadAllotmentProof(file, onProgress);
+    return api.call(endpoints.listings.resubmitProof, { params: { listingId }, body: { allotmentProof, allotmentProofType: 'document' } });
+};
+
+export const renewListing = async (listingId: string): Promise<RoomListing> => {
+    return api.call(endpoints.listings.renew, { params: { listingId } });
+};
+
+// Edits recorded for a listing, newest first
+export const getListingHistory = async (listingId: string, signal?: AbortSignal): Promise<ListingEdit[]> => {
+    return api.call(endpoints.listings.history, { params: { listingId }, options: { signal } });
+};
+
+export const expressInterest = async (listingId: string): Promise<ListingInterestSummary> => {
+    return api.call(endpoints.listings.expressInterest, { params: { listingId } });
+};
+
+export const withdrawInterest = async (listingId: string): Promise<ListingInterestSummary> => {
+    return api.call(endpoints.listings.withdrawInterest, { params: { listingId } });
+};
+
+// Only succeeds for the lister's own listing
+export const getListingInterests = async (listingId: string, signal?: AbortSignal): Promise<ListingInterest[]> => {
+    return api.call(endpoints.listings.interests, { params: { listingId }, options: { signal } });
 };
@@ -0,0 +1,47 @@
+import { MatchRequestDetails, MatchRequestConfirmation, SwapCandidate, SwapCycle } from '../types';
+import { api } from './api';
+import { endpoints } from './endpoints';
+
+// Room exchange requests. The server owns every status change; the client only asks for them
+// and renders what comes back, so two parties acting at once can't leave a request half-updated.
+
+export const getMatchRequests = async (signal?: AbortSignal): Promise<MatchRequestDetails[]> => {
+    return api.call(endpoints.matchRequests.list, { options: { signal } });
+};
+
+export const createMatchRequest = async (listingId: string): Promise<MatchRequestDetails> => {
+    return api.call(endpoints.matchRequests.create, { body: { listingId } });
+};
+
+export const getSwapCandidates = async (signal?: AbortSignal): Promise<SwapCandidate[]> => {
+    return api.call(endpoints.matchRequests.swapCandidates, { options: { signal } });
+};
+
+/**
+ * Proposes a swap cycle found by `findSwapCycles` to everyone in it as a linked group of requests.
+ * The server re-checks that every listing is still open before creating them.
+ */
+export const proposeSwapCycle = async (cycle: SwapCycle): Promise<MatchRequestDetails[]> => {
+    return api.call(endpoints.matchRequests.proposeCycle, { body: { listingIds: cycle.listings.map(listing => listing.id) } });
+};
+
+export const acceptMatchRequest = async (requestId: string): Promise<MatchRequestDetails> => {
+    return api.call(endpoints.matchRequests.accept, { params: { requestId } });
+};
+
+export const rejectMatchRequest = async (requestId: string): Promise<MatchRequestDetails> => {
+    return api.call(endpoints.matchRequests.reject, { params: { requestId } });
+};
+
+export const withdrawMatchRequest = async (requestId: string): Promise<MatchRequestDetails> => {
+    return api.call(endpoints.matchRequests.withdraw, { params: { requestId } });
+};
+
+/**
+ * Records the current user's approval of an accepted request. Once every party has approved
+ * (both people, or everyone in a linked group) the server swaps the rooms and closes the
+ * listings atomically and reports `swapped: true`.
+ */
+export const confirmMatchRequest = async (requestId: string): Promise<MatchRequestConfirmation> => {
+    return api.call(endpoints.matchRequests.confirm, { params: { requestId } });
+};
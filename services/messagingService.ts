@@ -1,62 +1,80 @@
+import { DirectMessage, DirectConversation, DirectMessagePage } from '../types';
+import { api } from './api';
+import { endpoints } from './endpoints';
 
-import { DirectMessage } from '../types';
+export type NewDirectMessage = Pick<DirectMessage, 'listingId' | 'listingRoomSummary' | 'receiverId' | 'message'>;
 
-const MESSAGES_STORAGE_KEY = 'mnitHostelDirectMessages';
+const DEFAULT_PAGE_SIZE = 30;
 
-export const getMessages = (): DirectMessage[] => {
-  const storedMessages = localStorage.getItem(MESSAGES_STORAGE_KEY);
-  return storedMessages ? JSON.parse(storedMessages) : [];
+const byNewestFirst = (a: DirectMessage, b: DirectMessage) =>
+  new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+/**
+ * Sends a direct message to a listing owner (or replies in an existing thread).
+ * The backend fills in the sender from the session cookie and the display names.
+ */
+export const sendMessage = async (newMessage: NewDirectMessage): Promise<DirectMessage> => {
+  return api.call(endpoints.messages.send, { body: newMessage });
+};
+
+/**
+ * Fetches one summary per (partner, listing) thread the user takes part in,
+ * newest activity first.
+ */
+export const getConversations = async (signal?: AbortSignal): Promise<DirectConversation[]> => {
+  const conversations = await api.call(endpoints.messages.conversations, { options: { signal } });
+  return conversations.sort((a, b) => new Date(b.lastMessage.timestamp).getTime() - new Date(a.lastMessage.timestamp).getTime());
 };
 
-export const saveMessage = (newMessage: Omit<DirectMessage, 'id' | 'timestamp' | 'isReadByReceiver' | 'senderName' | 'receiverName'>, senderName: string, receiverName: string): DirectMessage => {
-  const messages = getMessages();
-  const messageWithDetails: DirectMessage = {
-    ...newMessage,
-    id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    timestamp: new Date().toISOString(),
-    isReadByReceiver: false,
-    senderName,
-    receiverName,
+/**
+ * Fetches a page of a single thread. Pass the `nextCursor` of the previous page
+ * as `before` to load older messages. Messages are returned oldest first.
+ */
+export const getConversationMessages = async (
+  partnerId: string,
+  listingId: string,
+  options: { before?: string | null; limit?: number; signal?: AbortSignal } = {}
+): Promise<DirectMessagePage> => {
+  const page = await api.call(endpoints.messages.thread, {
+    params: { partnerId, listingId },
+    query: { limit: options.limit ?? DEFAULT_PAGE_SIZE, before: options.before },
+    options: { signal: options.signal },
+  });
+  return {
+    messages: [...page.messages].sort((a, b) => byNewestFirst(b, a)),
+    nextCursor: page.nextCursor,
   };
-  messages.push(messageWithDetails);
-  localStorage.setItem(MESSAGES_STORAGE_KEY, JSON.stringify(messages));
-  return messageWithDetails;
 };
 
 // Get all messages where the user is either a sender or receiver
-export const getMessagesForUser = (userId: string): DirectMessage[] => {
-  return getMessages()
+export const getMessagesForUser = async (userId: string): Promise<DirectMessage[]> => {
+  const messages = await api.call(endpoints.messages.list);
+  return messages
     .filter(msg => msg.senderId === userId || msg.receiverId === userId)
-    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    .sort(byNewestFirst);
 };
 
-export const getReceivedMessages = (userId: string): DirectMessage[] => {
-  return getMessages()
-    .filter(msg => msg.receiverId === userId)
-    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+export const getReceivedMessages = async (userId: string): Promise<DirectMessage[]> => {
+  const messages = await getMessagesForUser(userId);
+  return messages.filter(msg => msg.receiverId === userId);
 };
 
-export const getSentMessages = (userId: string): DirectMessage[] => {
-  return getMessages()
-    .filter(msg => msg.senderId === userId)
-    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+export const getSentMessages = async (userId: string): Promise<DirectMessage[]> => {
+  const messages = await getMessagesForUser(userId);
+  return messages.filter(msg => msg.senderId === userId);
 };
 
-export const markMessagesAsRead = (messageIds: string[], currentUserId: string): void => {
-  let messages = getMessages();
-  let changed = false;
-  messages = messages.map(msg => {
-    if (messageIds.includes(msg.id) && msg.receiverId === currentUserId && !msg.isReadByReceiver) {
-      changed = true;
-      return { ...msg, isReadByReceiver: true };
-    }
-    return msg;
-  });
-  if (changed) {
-    localStorage.setItem(MESSAGES_STORAGE_KEY, JSON.stringify(messages));
-  }
+/**
+ * Records read receipts. Only messages addressed to `currentUserId` are marked;
+ * the backend ignores ids belonging to other users.
+ */
+export const markMessagesAsRead = async (messageIds: string[], currentUserId: string): Promise<void> => {
+  if (messageIds.length === 0) return;
+  // Marking as read is idempotent, so it can share the retry policy of GETs
+  await api.call(endpoints.messages.markRead, { body: { messageIds, readerId: currentUserId }, options: { retry: {} } });
 };
 
-export const countUnreadMessages = (userId: string): number => {
-  return getMessages().filter(msg => msg.receiverId === userId && !msg.isReadByReceiver).length;
+export const countUnreadMessages = async (userId: string, signal?: AbortSignal): Promise<number> => {
+  const result = await api.call(endpoints.messages.unreadCount, { query: { userId }, options: { signal } });
+  return result.count;
 };
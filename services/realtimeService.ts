@@ -0,0 +1,209 @@
+import { RealtimeEvent, RealtimeEventType, RealtimeConnectionState } from '../types';
+import { API_BASE_URL } from './config';
+
+// https://server.mnit.live/api -> wss://server.mnit.live/realtime
+export const DEFAULT_REALTIME_URL = API_BASE_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '/realtime');
+
+export interface RealtimeClientOptions {
+    url?: string;
+    // Injectable so the client can run against a local mock server or in environments without a global WebSocket
+    WebSocketImpl?: typeof WebSocket;
+    initialBackoffMs?: number;
+    maxBackoffMs?: number;
+    defaultPollIntervalMs?: number;
+}
+
+export interface PollingFallback {
+    poll: () => void;
+    intervalMs?: number;
+}
+
+type Listener = (event: RealtimeEvent) => void;
+type StateListener = (state: RealtimeConnectionState) => void;
+
+interface Subscription {
+    type: RealtimeEventType;
+    listener: Listener;
+    fallback?: PollingFallback;
+    pollTimer: ReturnType<typeof setInterval> | null;
+}
+
+export interface RealtimeClient {
+    connect: () => void;
+    disconnect: () => void;
+    subscribe: <T extends RealtimeEventType>(
+        type: T,
+        listener: (event: Extract<RealtimeEvent, { type: T }>) => void,
+        fallback?: PollingFallback
+    ) => () => void;
+    getState: () => RealtimeConnectionState;
+    onStateChange: (listener: StateListener) => () => void;
+}
+
+const isRealtimeEvent = (data: any): data is RealtimeEvent =>
+    typeof data === 'object' && data !== null && typeof data.type === 'string';
+
+/**
+ * Creates a realtime client that pushes chat messages, poll votes and read receipts.
+ * While the socket is not open (connecting, backing off, or unsupported), subscribers
+ * that provided a polling fallback are polled instead, so pages keep updating either way.
+ */
+export const createRealtimeClient = (options: RealtimeClientOptions = {}): RealtimeClient => {
+    const url = options.url || DEFAULT_REALTIME_URL;
+    const WebSocketImpl = options.WebSocketImpl || (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+    const initialBackoffMs = options.initialBackoffMs ?? 1000;
+    const maxBackoffMs = options.maxBackoffMs ?? 30000;
+    const defaultPollIntervalMs = options.defaultPollIntervalMs ?? 5000;
+
+    let socket: WebSocket | null = null;
+    let state: RealtimeConnectionState = 'closed';
+    let backoffMs = initialBackoffMs;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let shouldReconnect = false;
+    const subscriptions = new Set<Subscription>();
+    const stateListeners = new Set<StateListener>();
+
+    const startPolling = (sub: Subscription) => {
+        if (!sub.fallback || sub.pollTimer) return;
+        sub.pollTimer = setInterval(sub.fallback.poll, sub.fallback.intervalMs ?? defaultPollIntervalMs);
+    };
+
+    const stopPolling = (sub: Subscription) => {
+        if (sub.pollTimer) {
+            clearInterval(sub.pollTimer);
+            sub.pollTimer = null;
+        }
+    };
+
+    const send = (payload: object) => {
+        if (socket && socket.readyState === WebSocketImpl?.OPEN) {
+            socket.send(JSON.stringify(payload));
+        }
+    };
+
+    const setState = (next: RealtimeConnectionState) => {
+        if (next === state) return;
+        state = next;
+        if (state === 'open') {
+            subscriptions.forEach(sub => {
+                stopPolling(sub);
+                // Catch up on anything missed while we were disconnected
+                sub.fallback?.poll();
+            });
+        } else if (state !== 'closed') {
+            subscriptions.forEach(startPolling);
+        } else {
+            subscriptions.forEach(stopPolling);
+        }
+        stateListeners.forEach(listener => listener(state));
+    };
+
+    const scheduleReconnect = () => {
+        if (!shouldReconnect || reconnectTimer) return;
+        setState('reconnecting');
+        // Full jitter keeps a campus full of clients from reconnecting in lockstep after a server restart
+        const delay = Math.round(Math.random() * backoffMs);
+        console.warn(`🔌 Realtime connection lost, retrying in ${delay}ms...`);
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            open();
+        }, delay);
+        backoffMs = Math.min(backoffMs * 2, maxBackoffMs);
+    };
+
+    const open = () => {
+        if (!WebSocketImpl) {
+            console.warn('WebSocket is not available, falling back to polling.');
+            setState('polling');
+            return;
+        }
+
+        setState(state === 'reconnecting' ? 'reconnecting' : 'connecting');
+        try {
+            socket = new WebSocketImpl(url);
+        } catch (error) {
+            console.error('Failed to open realtime socket:', error);
+            scheduleReconnect();
+            return;
+        }
+
+        socket.onopen = () => {
+            backoffMs = initialBackoffMs;
+            const types = Array.from(new Set(Array.from(subscriptions).map(sub => sub.type)));
+            send({ action: 'subscribe', types });
+            setState('open');
+        };
+
+        socket.onmessage = (messageEvent: MessageEvent) => {
+            let data: unknown;
+            try {
+                data = JSON.parse(messageEvent.data);
+            } catch {
+                console.warn('Ignoring malformed realtime payload:', messageEvent.data);
+                return;
+            }
+            if (!isRealtimeEvent(data)) return;
+            subscriptions.forEach(sub => {
+                if (sub.type === data.type) sub.listener(data);
+            });
+        };
+
+        socket.onclose = () => {
+            socket = null;
+            if (shouldReconnect) {
+                scheduleReconnect();
+            } else {
+                setState('closed');
+            }
+        };
+
+        // onclose always follows onerror, so reconnection is handled there
+        socket.onerror = () => {};
+    };
+
+    return {
+        connect: () => {
+            if (shouldReconnect) return;
+            shouldReconnect = true;
+            open();
+        },
+
+        disconnect: () => {
+            shouldReconnect = false;
+            if (reconnectTimer) {
+                clearTimeout(reconnectTimer);
+                reconnectTimer = null;
+            }
+            if (socket) {
+                socket.onclose = null;
+                socket.close();
+                socket = null;
+            }
+            backoffMs = initialBackoffMs;
+            setState('closed');
+        },
+
+        subscribe: (type, listener, fallback) => {
+            const sub: Subscription = { type, listener: listener as Listener, fallback, pollTimer: null };
+            subscriptions.add(sub);
+            if (state === 'open') {
+                send({ action: 'subscribe', types: [type] });
+            } else if (state !== 'closed') {
+                startPolling(sub);
+            }
+            return () => {
+                stopPolling(sub);
+                subscriptions.delete(sub);
+            };
+        },
+
+        getState: () => state,
+
+        onStateChange: (listener) => {
+            stateListeners.add(listener);
+            return () => {
+                stateListeners.delete(listener);
+            };
+        },
+    };
+};
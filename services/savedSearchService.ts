@@ -0,0 +1,118 @@
+import { ListingSearchFilters, ListingSearchParams, ListingType, RoomListing, RoomType, SavedSearch, User } from '../types';
+import { ROOM_TYPES, getFloorOfRoom, getHostelGender } from '../constants';
+import { api } from './api';
+import { endpoints } from './endpoints';
+import { publishedAt } from './listingService';
+
+// Short keys keep shared links readable, e.g. #/search?hostel=H1+-+Parijat&type=Exchange
+const URL_KEYS: Record<keyof ListingSearchFilters, string> = {
+    query: 'q',
+    hostel: 'hostel',
+    block: 'block',
+    floor: 'floor',
+    listingType: 'type',
+    roomType: 'roomType',
+};
+
+const LISTING_TYPES: ListingType[] = ['Exchange', 'Bidding'];
+
+/**
+ * Reads filters from the URL. Unknown listing or room types are ignored rather than
+ * producing a search that can never match.
+ */
+export const filtersFromSearchParams = (params: URLSearchParams): ListingSearchFilters => {
+    const listingType = params.get(URL_KEYS.listingType) || '';
+    const roomType = params.get(URL_KEYS.roomType) || '';
+    return {
+        query: params.get(URL_KEYS.query) || '',
+        hostel: params.get(URL_KEYS.hostel) || '',
+        block: params.get(URL_KEYS.block) || '',
+        floor: params.get(URL_KEYS.floor) || '',
+        listingType: LISTING_TYPES.includes(listingType as ListingType) ? listingType as ListingType : '',
+        roomType: ROOM_TYPES.includes(roomType as RoomType) ? roomType as RoomType : '',
+    };
+};
+
+// Only non-empty filters are written, so an unfiltered search is just /search
+export const filtersToSearchParams = (filters: ListingSearchFilters): URLSearchParams => {
+    const params = new URLSearchParams();
+    (Object.keys(URL_KEYS) as Array<keyof ListingSearchFilters>).forEach(key => {
+        // Written untrimmed so a search box bound to the URL keeps the space being typed
+        if (filters[key].trim()) params.set(URL_KEYS[key], filters[key]);
+    });
+    return params;
+};
+
+/**
+ * The server-side search query for a set of filters; empty filters are left out.
+ */
+export const filtersToListingSearch = (filters: ListingSearchFilters): ListingSearchParams => ({
+    text: filters.query.trim() || undefined,
+    hostel: filters.hostel || undefined,
+    block: filters.block || undefined,
+    floor: filters.floor || undefined,
+    listingType: filters.listingType || undefined,
+    roomType: filters.roomType || undefined,
+});
+
+export const hasActiveFilters = (filters: ListingSearchFilters): boolean =>
+    Object.values(filters).some(value => value.trim() !== '');
+
+export const listingMatchesFilters = (listing: RoomListing, filters: ListingSearchFilters): boolean => {
+    const { roomDetails } = listing;
+    if (filters.hostel && roomDetails.hostel !== filters.hostel) return false;
+    if (filters.block && roomDetails.block !== filters.block) return false;
+    if (filters.floor && getFloorOfRoom(roomDetails.roomNumber) !== filters.floor) return false;
+    if (filters.listingType && listing.listingType !== filters.listingType) return false;
+    if (filters.roomType && roomDetails.type !== filters.roomType) return false;
+
+    const query = filters.query.trim().toLowerCase();
+    if (!query) return true;
+    return [
+        roomDetails.hostel,
+        roomDetails.block,
+        roomDetails.roomNumber,
+        listing.description,
+        listing.desiredTradeConditions,
+        listing.listedBy.fullName,
+        listing.listedBy.rollNumber,
+    ].some(field => field?.toLowerCase().includes(query));
+};
+
+/**
+ * Whether a listing should raise an alert for a saved search: open, someone else's, in a hostel
+ * the user can live in, published since they last looked, and matching the saved filters. A listing
+ * counts from when it passed verification, which can be after the user last looked even if it was posted before.
+ */
+export const isNewMatchForSavedSearch = (listing: RoomListing, search: SavedSearch, user: Pick<User, 'id' | 'gender'>): boolean => {
+    if (!search.alertsEnabled || listing.status !== 'Open' || listing.listedBy.id === user.id) return false;
+    if (new Date(publishedAt(listing)).getTime() <= new Date(search.lastSeenAt).getTime()) return false;
+    if (user.gender === 'Male' || user.gender === 'Female') {
+        const hostelGender = getHostelGender(listing.roomDetails.hostel);
+        const compatible = hostelGender === user.gender || (hostelGender === 'Unknown' && listing.listedBy.gender === user.gender);
+        if (!compatible) return false;
+    }
+    return listingMatchesFilters(listing, search.filters);
+};
+
+
+// === API ===
+
+export const getSavedSearches = async (signal?: AbortSignal): Promise<SavedSearch[]> => {
+    return api.call(endpoints.savedSearches.list, { options: { signal } });
+};
+
+export const createSavedSearch = async (name: string, filters: ListingSearchFilters, alertsEnabled = true): Promise<SavedSearch> => {
+    return api.call(endpoints.savedSearches.create, { body: { name, filters, alertsEnabled } });
+};
+
+export const updateSavedSearch = async (
+    savedSearchId: string,
+    changes: Partial<Pick<SavedSearch, 'name' | 'alertsEnabled' | 'lastSeenAt'>>
+): Promise<SavedSearch> => {
+    return api.call(endpoints.savedSearches.update, { params: { savedSearchId }, body: changes });
+};
+
+export const deleteSavedSearch = async (savedSearchId: string): Promise<void> => {
+    return api.call(endpoints.savedSearches.delete, { params: { savedSearchId } });
+};
@@ -1,4 +1,5 @@
 import { api } from './api';
+import { endpoints } from './endpoints';
 
 interface TotalUsersResponse {
     totalUsers: number;
@@ -8,7 +9,7 @@ interface TotalUsersResponse {
  * Fetches the total number of registered users from the backend.
  * @returns A promise that resolves to an object containing the total user count.
  */
-export const getTotalUsers = async (): Promise<TotalUsersResponse> => {
+export const getTotalUsers = async (signal?: AbortSignal): Promise<TotalUsersResponse> => {
     // Corrected endpoint to match the backend's user route
-    return api.get<TotalUsersResponse>('/user/stats');
+    return api.call(endpoints.user.stats, { options: { signal } });
 };
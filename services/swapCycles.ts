@@ -0,0 +1,103 @@
+import { RoomLocation, SwapCandidate, SwapCycle } from '../types';
+import { getFloorOfRoom, getHostelGender } from '../constants';
+
+// Finds rotations of rooms in which everyone moves into a room they asked for. In A → B → C → A,
+// A takes B's room, B takes C's and C takes A's. Direct exchanges are the two-person case,
+// but most chains that work in practice need three or four people.
+
+export const DEFAULT_MAX_SWAP_CYCLE_LENGTH = 4;
+const DEFAULT_CYCLE_LIMIT = 20;
+
+interface FindSwapCyclesOptions {
+    maxLength?: number; // longest chain to consider; the search grows quickly with this
+    includeUserId?: string; // only return cycles this user takes part in
+    limit?: number; // stop after this many cycles
+}
+
+/**
+ * Whether a room satisfies the candidate's exchange preferences and is in a hostel they may live in.
+ * Empty or 'Any' preferences match everything.
+ */
+export const wantsRoom = (candidate: SwapCandidate, room: RoomLocation): boolean => {
+    const { preferences } = candidate;
+    const hostelGender = getHostelGender(room.hostel);
+    if (hostelGender !== 'Unknown' && candidate.gender !== 'Other' && hostelGender !== candidate.gender) return false;
+    if (preferences.hostels.length > 0 && !preferences.hostels.includes(room.hostel)) return false;
+    if (preferences.blocks.length > 0 && !preferences.blocks.includes(room.block)) return false;
+    if (preferences.roomType && preferences.roomType !== 'Any' && preferences.roomType !== room.type) return false;
+    if (preferences.floor && preferences.floor !== 'Any') {
+        const floor = getFloorOfRoom(room.roomNumber);
+        if (floor && floor !== preferences.floor) return false;
+    }
+    return true;
+};
+
+/**
+ * Stable id for a rotation: starts at its smallest listing id, so the same cycle found from
+ * different participants (or read back from a `MatchRequestGroup`) gets the same key.
+ */
+export const swapCycleKey = (listingIds: string[]): string => {
+    const start = listingIds.indexOf([...listingIds].sort()[0]);
+    return [...listingIds.slice(start), ...listingIds.slice(0, start)].join('>');
+};
+
+/**
+ * Finds swap cycles among open exchange listings, shortest first. Each candidate is one node;
+ * there is an edge A → B when A wants B's room. Cycles are simple (nobody appears twice) and
+ * are reported once each, however many participants they could be read from.
+ */
+export const findSwapCycles = (candidates: SwapCandidate[], options: FindSwapCyclesOptions = {}): SwapCycle[] => {
+    const maxLength = Math.max(2, options.maxLength ?? DEFAULT_MAX_SWAP_CYCLE_LENGTH);
+    const limit = options.limit ?? DEFAULT_CYCLE_LIMIT;
+
+    // One listing per person; a user with several open listings can still only move once.
+    // Closed and non-exchange listings go first so they can't stand in for someone's open one.
+    const open = candidates.filter(candidate => candidate.listing.status === 'Open' && candidate.listing.listingType === 'Exchange');
+    const nodes = open
+        .filter((candidate, index) => open.findIndex(other => other.userId === candidate.userId) === index)
+        .sort((a, b) => a.userId.localeCompare(b.userId));
+
+    const edges = nodes.map((from, i) =>
+        nodes.map((to, j) => (i !== j && wantsRoom(from, to.listing.roomDetails) ? j : -1)).filter(j => j !== -1)
+    );
+
+    const found = new Map<string, SwapCycle>();
+    const path: number[] = [];
+    const onPath = new Set<number>();
+
+    // When no user is given, each cycle is only searched from its lowest-index member (minIndex)
+    const search = (start: number, node: number, minIndex: number, length: number) => {
+        for (const next of edges[node]) {
+            if (found.size >= limit) return;
+            if (next === start && path.length === length) {
+                const listings = path.map(index => nodes[index].listing);
+                const key = swapCycleKey(listings.map(listing => listing.id));
+                if (!found.has(key)) found.set(key, { key, listings });
+                continue;
+            }
+            if (next < minIndex || onPath.has(next) || path.length >= length) continue;
+            path.push(next);
+            onPath.add(next);
+            search(start, next, minIndex, length);
+            path.pop();
+            onPath.delete(next);
+        }
+    };
+
+    const starts = options.includeUserId
+        ? [nodes.findIndex(node => node.userId === options.includeUserId)].filter(index => index !== -1)
+        : nodes.map((_, index) => index);
+
+    // One pass per length so that hitting the limit drops the longest chains, not the shortest
+    for (let length = 2; length <= maxLength; length++) {
+        for (const start of starts) {
+            path.push(start);
+            onPath.add(start);
+            search(start, start, options.includeUserId ? 0 : start, length);
+            path.pop();
+            onPath.delete(start);
+        }
+    }
+
+    return [...found.values()].sort((a, b) => a.listings.length - b.listings.length || a.key.localeCompare(b.key));
+};
@@ -1,9 +1,11 @@
- export async function sendOtp({ email, userName }) {
+import { apiUrl } from './config';
+
+export async function sendOtp({ email, userName }) {
   // Generate a random 6-digit OTP
   const verificationCode = Math.floor(100000 + Math.random() * 900000).toString();
 
   try {
-    const response = await fetch('https://server.mnit.live/api/auth/sendOtpForSignup', {
+    const response = await fetch(apiUrl('/auth/sendOtpForSignup'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -32,7 +34,7 @@
 
 export async function verifyOtpAndRegister({ email, enteredOtp, userData }) {
   try {
-    const response = await fetch('https://server.mnit.live/api/auth/verifyOtpForSignup', {
+    const response = await fetch(apiUrl('/auth/verifyOtpForSignup'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -61,7 +63,7 @@ export async function verifyOtpAndRegister({ email, enteredOtp, userData }) {
 
 export async function verifyOtp({ email, enteredOtp }) {
   try {
-    const response = await fetch('https://server.mnit.live/api/auth/verifyOtpForSignup', {
+    const response = await fetch(apiUrl('/auth/verifyOtpForSignup'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -0,0 +1,286 @@
+import { AttendanceRecord, Course, CourseSchedule, SessionRef, SessionType, SessionWeights, TimetableSlot, Weekday } from '../types';
+
+// Works out when each course actually meets: its weekly slots between the semester's start and
+// end dates, minus holidays. Dates are 'YYYY-MM-DD' keys in the device's local time, which on
+// campus is IST, the same keys the attendance marks use.
+
+// Monday first, the way the institute prints timetables
+export const WEEKDAYS: { value: Weekday; label: string }[] = [
+    { value: 'MO', label: 'Monday' },
+    { value: 'TU', label: 'Tuesday' },
+    { value: 'WE', label: 'Wednesday' },
+    { value: 'TH', label: 'Thursday' },
+    { value: 'FR', label: 'Friday' },
+    { value: 'SA', label: 'Saturday' },
+    { value: 'SU', label: 'Sunday' },
+];
+
+export const SESSION_TYPES: { value: SessionType; label: string }[] = [
+    { value: 'lecture', label: 'Lecture' },
+    { value: 'lab', label: 'Lab' },
+    { value: 'tutorial', label: 'Tutorial' },
+];
+
+export const DEFAULT_SESSION_WEIGHTS: SessionWeights = { lecture: 1, lab: 1, tutorial: 1 };
+
+// Indexed by Date.getDay()
+const DAYS_FROM_SUNDAY: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Counts are weighted by session type, so with labs worth 2 a missed lab counts as two classes
+export interface CourseSessionStats {
+    attended: number;
+    missed: number;
+    unmarked: number; // classes that have happened with no mark yet; they count as missed
+    held: number; // the denominator: every class so far, scheduled or marked
+    remaining: number; // scheduled classes still to come this semester
+    percentage: number; // 0-100
+}
+
+export interface ClassSession {
+    course: Course;
+    slot: TimetableSlot;
+    date: string;
+}
+
+// One class of a course on a given day, with its mark if it has one
+export interface CourseSession {
+    session: SessionRef;
+    type: SessionType;
+    slot?: TimetableSlot; // missing for extra classes, and for marks whose slot has since left the timetable
+    record?: AttendanceRecord;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseDateKey = (key: string): Date => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const weekdayOf = (key: string): Weekday => DAYS_FROM_SUNDAY[parseDateKey(key).getDay()];
+
+export const weekdayLabel = (day: Weekday): string => WEEKDAYS.find(d => d.value === day)?.label || day;
+
+const minutesOf = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const sessionTypeLabel = (type: SessionType): string => SESSION_TYPES.find(t => t.value === type)?.label || type;
+
+export const sessionWeight = (course: Course, type: SessionType): number =>
+    course.schedule?.weights?.[type] ?? DEFAULT_SESSION_WEIGHTS[type];
+
+const sessionKey = (session: SessionRef): string => session.slotId ?? `extra-${session.extra}`;
+
+const recordKey = (date: string, session: SessionRef) => `${date}#${sessionKey(session)}`;
+
+export const isSameSession = (a: SessionRef, b: SessionRef): boolean => sessionKey(a) === sessionKey(b);
+
+export const createSlotId = (): string => `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const isWithinTerm = (schedule: CourseSchedule, date: string): boolean =>
+    date >= schedule.startDate && date <= schedule.endDate;
+
+/**
+ * The course's classes on one date, earliest first. Holidays are not checked here.
+ */
+export const slotsOn = (schedule: CourseSchedule, date: string): TimetableSlot[] => {
+    if (!isWithinTerm(schedule, date)) return [];
+    const day = weekdayOf(date);
+    return schedule.slots.filter(slot => slot.day === day).sort((a, b) => minutesOf(a.start) - minutesOf(b.start));
+};
+
+/**
+ * Every date in the semester the course meets on, skipping holidays.
+ */
+export const scheduledDates = (schedule: CourseSchedule, holidays: ReadonlySet<string>): string[] => {
+    const days = new Set(schedule.slots.map(slot => slot.day));
+    const dates: string[] = [];
+    const end = parseDateKey(schedule.endDate);
+    for (const date = parseDateKey(schedule.startDate); date <= end; date.setDate(date.getDate() + 1)) {
+        const key = toDateKey(date);
+        if (days.has(DAYS_FROM_SUNDAY[date.getDay()]) && !holidays.has(key)) dates.push(key);
+    }
+    return dates;
+};
+
+/**
+ * Names the class a mark is for. Marks from before classes were marked one by one carry only
+ * a date and stand for the day's first timetabled class, or its first extra class if none.
+ */
+export const resolveSession = (schedule: CourseSchedule | undefined, date: string, session: SessionRef): SessionRef => {
+    if (session.slotId) return { slotId: session.slotId };
+    if (session.extra) return { extra: session.extra };
+    const [first] = schedule ? slotsOn(schedule, date) : [];
+    return first ? { slotId: first.id } : { extra: 1 };
+};
+
+/**
+ * A course's classes on one date: the timetabled ones (none on holidays), then marks for slots
+ * no longer in the timetable, then extra classes. Marks stay with the class they were made for
+ * however the timetable changes afterwards.
+ */
+export const sessionsOn = (course: Course, date: string, holidays: ReadonlySet<string>): CourseSession[] => {
+    const slots = course.schedule && !holidays.has(date) ? slotsOn(course.schedule, date) : [];
+    const records = course.attendance.filter(record => record.date === date);
+    const scheduled = slots.map((slot): CourseSession => {
+        const session = { slotId: slot.id };
+        return { session, type: slot.type || 'lecture', slot, record: records.find(record => isSameSession(record.session, session)) };
+    });
+    const unscheduled = records
+        .filter(record => !scheduled.some(({ session }) => isSameSession(session, record.session)))
+        .sort((a, b) => (a.session.extra ?? 0) - (b.session.extra ?? 0))
+        .map((record): CourseSession => ({ session: record.session, type: record.type, record }));
+    return [...scheduled, ...unscheduled];
+};
+
+// How to refer to one more extra class on a day that already has `sessions`
+export const nextExtraSession = (sessions: CourseSession[]): SessionRef => ({
+    extra: sessions.reduce((highest, { session }) => Math.max(highest, session.extra ?? 0), 0) + 1,
+});
+
+/**
+ * Attendance so far, counted against the classes that were scheduled rather than only the ones
+ * the student remembered to mark. A scheduled class counts as held once it has started. Marks for
+ * extra classes outside the timetable still count. Without a timetable, only marked classes count.
+ */
+export const courseSessionStats = (course: Course, holidays: ReadonlySet<string>, now = new Date()): CourseSessionStats => {
+    let attended = 0;
+    let missed = 0;
+    let unmarked = 0;
+    let remaining = 0;
+
+    course.attendance.forEach(record => {
+        if (record.present) attended += sessionWeight(course, record.type);
+        else missed += sessionWeight(course, record.type);
+    });
+
+    if (course.schedule) {
+        const marked = new Set(course.attendance.map(record => recordKey(record.date, record.session)));
+        const today = toDateKey(now);
+        const minutesNow = now.getHours() * 60 + now.getMinutes();
+        scheduledDates(course.schedule, holidays).forEach(date => {
+            slotsOn(course.schedule!, date).forEach(slot => {
+                const weight = sessionWeight(course, slot.type || 'lecture');
+                const hasStarted = date < today || (date === today && minutesOf(slot.start) <= minutesNow);
+                if (!hasStarted) remaining += weight;
+                else if (!marked.has(recordKey(date, { slotId: slot.id }))) unmarked += weight;
+            });
+        });
+    }
+
+    const held = attended + missed + unmarked;
+    return {
+        attended,
+        missed,
+        unmarked,
+        held,
+        remaining,
+        percentage: held > 0 ? (attended / held) * 100 : 0,
+    };
+};
+
+// Whole classes of each type the course has, e.g. { lecture: 4, lab: 2 } for "4 lectures or 2 labs"
+export type ClassCounts = Partial<Record<SessionType, number>>;
+
+// Where a course is headed against its required percentage
+export type AttendanceOutlook =
+    | { kind: 'safe'; canMiss: ClassCounts } // classes that can still be missed while staying at or above it
+    | { kind: 'recover'; mustAttend: ClassCounts } // classes in a row needed to get back up to it
+    | { kind: 'unreachable'; best: number }; // can't get there this semester; the best percentage still possible
+
+// Absorbs floating point error from fractional weights before rounding to whole classes
+const EPSILON = 1e-9;
+
+// A weighted count for display, e.g. 4.5 with labs worth 1.5, to at most one decimal
+export const formatClassCount = (amount: number): string => String(Math.round(amount * 10 + EPSILON) / 10);
+
+// The session types the course has classes of, lectures if it has none yet
+const typesOf = (course: Course): SessionType[] => {
+    const used = new Set<SessionType>([
+        ...(course.schedule?.slots || []).map(slot => slot.type || 'lecture'),
+        ...course.attendance.map(record => record.type),
+    ]);
+    return SESSION_TYPES.map(type => type.value).filter(type => used.has(type)).concat(used.size === 0 ? ['lecture'] : []);
+};
+
+// A weighted amount as whole classes of each type the course has
+const toClassCounts = (course: Course, amount: number, round: (classes: number) => number): ClassCounts =>
+    Object.fromEntries(typesOf(course).map(type => [type, Math.max(0, round(amount / sessionWeight(course, type)))]));
+
+/**
+ * With a timetable, counts to the end of the semester: how many of the remaining classes can be
+ * missed and still finish at `threshold`. Without one there's no end to count to, so it says how
+ * many can be missed right now before dropping below. Either way, a course already below says how
+ * many consecutive classes bring it back. The stats are weighted, so the answer is given per
+ * session type: with labs worth 2, missing one lab uses up as much as two lectures.
+ */
+export const attendanceOutlook = (course: Course, stats: CourseSessionStats, threshold: number): AttendanceOutlook => {
+    const { attended, held, remaining } = stats;
+    const isBelow = held > 0 && attended * 100 < threshold * held - EPSILON;
+    const canMiss = (amount: number): AttendanceOutlook =>
+        ({ kind: 'safe', canMiss: toClassCounts(course, amount, classes => Math.floor(classes + EPSILON)) });
+
+    if (course.schedule) {
+        const total = held + remaining;
+        const needed = (threshold * total) / 100;
+        if (attended + remaining < needed - EPSILON) {
+            return { kind: 'unreachable', best: total > 0 ? ((attended + remaining) / total) * 100 : 0 };
+        }
+        if (!isBelow) return canMiss(attended + remaining - needed);
+    } else if (!isBelow) {
+        return canMiss((100 * attended - threshold * held) / threshold);
+    }
+
+    // Below the threshold with a way back; at 100% there is none once a class is missed
+    if (threshold >= 100) return { kind: 'unreachable', best: (attended / held) * 100 };
+    const shortfall = (threshold * held - 100 * attended) / (100 - threshold);
+    return { kind: 'recover', mustAttend: toClassCounts(course, shortfall, classes => Math.ceil(classes - EPSILON)) };
+};
+
+// Below the threshold, or missing one more class of some type would put it there
+export const isAtRisk = (outlook: AttendanceOutlook): boolean =>
+    outlook.kind !== 'safe' || Object.values(outlook.canMiss).some(count => count === 0);
+
+/**
+ * Every class across `courses` on `date`, in time order. Nothing on holidays.
+ */
+export const classesOn = (courses: Course[], date: string, holidays: ReadonlySet<string>): ClassSession[] => {
+    if (holidays.has(date)) return [];
+    return courses
+        .flatMap(course => course.schedule ? slotsOn(course.schedule, date).map(slot => ({ course, slot, date })) : [])
+        .sort((a, b) => minutesOf(a.slot.start) - minutesOf(b.slot.start));
+};
+
+/**
+ * Why a timetable can't be saved, or null if it can.
+ */
+export const validateSchedule = (schedule: CourseSchedule): string | null => {
+    if (!schedule.startDate || !schedule.endDate) return 'Enter the semester start and end dates.';
+    if (schedule.endDate < schedule.startDate) return 'The semester must end after it starts.';
+    if (schedule.slots.length === 0) return 'Add at least one class to the timetable.';
+    for (const slot of schedule.slots) {
+        if (!slot.start || !slot.end) return 'Every class needs a start and end time.';
+        if (minutesOf(slot.end) <= minutesOf(slot.start)) return `A ${weekdayLabel(slot.day)} class ends before it starts.`;
+    }
+    for (const { value: type, label } of SESSION_TYPES) {
+        const weight = schedule.weights?.[type];
+        if (weight !== undefined && !(weight > 0 && weight <= 10)) return `${label}s must count for more than 0 and at most 10 classes.`;
+    }
+    for (const { value: day, label } of WEEKDAYS) {
+        const sorted = schedule.slots.filter(slot => slot.day === day).sort((a, b) => minutesOf(a.start) - minutesOf(b.start));
+        for (let i = 1; i < sorted.length; i++) {
+            if (minutesOf(sorted[i].start) < minutesOf(sorted[i - 1].end)) return `Two ${label} classes overlap.`;
+        }
+    }
+    return null;
+};
+
+// e.g. "09:00" -> "9:00 AM"
+export const formatSlotTime = (time: string): string => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+};
@@ -11,6 +11,20 @@ export interface User {
   whatsappNumber: string; // Added for WhatsApp integration
   hasActiveListing?: boolean; 
   friends?: string[]; // list of user ids
+  role?: UserRole; // missing means 'student'
+  moderation?: UserModeration; // set while an admin has restricted the account
+}
+
+export type UserRole = 'student' | 'admin';
+
+// Suspended accounts can sign in and read but not post, list or request; banned accounts can't sign in
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+
+export interface UserModeration {
+  status: AccountStatus;
+  reason?: string; // shown to the student
+  until?: string; // ISO date string; suspensions lift automatically at this time
+  updatedAt?: string; // ISO date string
 }
 
 export interface RoomLocation {
@@ -30,9 +44,88 @@ export interface RoomListing {
   listingType: ListingType;
   description: string;
   desiredTradeConditions?: string; 
-  status: 'Open' | 'Closed';
+  status: ListingStatus;
   createdAt: string; // ISO date string
+  updatedAt?: string; // ISO date string, last edit
+  expiresAt?: string; // ISO date string; open listings expire unless renewed
+  renewedAt?: string; // ISO date string
+  closure?: ListingClosure; // set once the listing is no longer open or pending
+  verification?: ListingVerification; // review of the allotment proof
   interestCount?: number; 
+  interestedByMe?: boolean; // whether the signed-in student has expressed interest
+  recentInterestCount?: number; // interest within `trendingWindowHours`, when the search asked for it
+  biddingDeadline?: string; // ISO date string; Bidding listings close automatically at this time
+  bidCount?: number; // live bids, i.e. active or shortlisted
+}
+
+// A student who expressed interest in a listing; only the lister can see these
+export interface ListingInterest {
+  user: Pick<User, 'id' | 'fullName' | 'rollNumber' | 'gender' | 'whatsappNumber'>;
+  createdAt: string; // ISO date string
+}
+
+// Returned after expressing or withdrawing interest, so the card can show the server's count
+export interface ListingInterestSummary {
+  listingId: string;
+  interestCount: number;
+  interested: boolean;
+}
+
+// New listings wait in 'Pending Verification' until their allotment proof is checked. Open
+// listings expire after LISTING_EXPIRY_DAYS unless renewed; the other statuses are final.
+export type ListingStatus = 'Pending Verification' | 'Open' | 'Matched' | 'Expired' | 'Withdrawn';
+
+export type ListingCloseReason =
+  | 'Swapped' // a match request was confirmed
+  | 'BidAccepted'
+  | 'Expired'
+  | 'BiddingEnded' // the bidding deadline passed without an accepted bid
+  | 'FoundElsewhere'
+  | 'NoLongerNeeded'
+  | 'TakenDown' // removed by an admin; the closure note holds their reason
+  | 'Other';
+
+// The reasons a lister can give when withdrawing their own listing
+export type ListingWithdrawReason = Extract<ListingCloseReason, 'FoundElsewhere' | 'NoLongerNeeded' | 'Other'>;
+
+export interface ListingClosure {
+  reason: ListingCloseReason;
+  note?: string; // the lister's own words when withdrawing
+  closedAt: string; // ISO date string
+}
+
+// An admin checks the allotment proof before a new listing goes into search. A rejected proof
+// keeps the listing pending until the lister uploads a new one.
+export type ProofVerificationStatus = 'Pending' | 'Approved' | 'Rejected';
+
+export interface ListingVerification {
+  status: ProofVerificationStatus;
+  reason?: string; // given by the admin when rejecting
+  reviewedAt?: string; // ISO date string
+}
+
+// A pending proof in the admin queue, with what the admin needs to check it against
+export interface ProofReviewItem {
+  listing: RoomListing;
+  lister: Pick<User, 'id' | 'fullName' | 'rollNumber' | 'email' | 'currentRoom'>;
+  proof: string; // data URL or link to the uploaded file
+  proofType?: RoomListingFormData['allotmentProofType'];
+  submittedAt: string; // ISO date string
+}
+
+// One save of an existing listing, recorded by the server with only the fields that changed
+export interface ListingEdit {
+  id: string;
+  listingId: string;
+  editedAt: string; // ISO date string
+  editedBy: Pick<User, 'id' | 'fullName'>;
+  changes: ListingFieldChange[];
+}
+
+export interface ListingFieldChange {
+  field: string; // e.g. 'description', 'roomDetails.type'
+  from: string | null;
+  to: string | null;
 }
 
 export interface RoomListingFormData {
@@ -43,6 +136,43 @@ export interface RoomListingFormData {
     roomProofFile?: File | null;
     allotmentProof?: string; // Base64 image data
     allotmentProofType?: 'gmail' | 'email' | 'document';
+    biddingDeadline?: string; // ISO date string, required for Bidding listings
+}
+
+// Filters on the search page; also what a saved search stores
+export interface ListingSearchFilters {
+  query: string; // free text matched against room, description and lister
+  hostel: string;
+  block: string;
+  floor: string; // one of FLOORS
+  listingType: ListingType | '';
+  roomType: RoomType | '';
+}
+
+export type ListingSortOrder = 'newest' | 'oldest' | 'mostInterest' | 'trending';
+
+// Query for GET /listings/search. Omitted fields don't filter.
+export interface ListingSearchParams {
+  text?: string;
+  hostel?: string;
+  block?: string;
+  floor?: string; // one of FLOORS, derived from the room number on the server
+  roomType?: RoomType;
+  listingType?: ListingType;
+  status?: RoomListing['status'];
+  eligibleFor?: User['gender']; // only rooms a student of this gender can be allotted
+  excludeListedBy?: string; // user ID, usually the current user's own listings
+  sort?: ListingSortOrder;
+  trendingWindowHours?: number; // 'trending' ranks by interest expressed within this many hours
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ListingSearchPage {
+  listings: RoomListing[];
+  total: number; // matches across all pages
+  page: number;
+  pageSize: number;
 }
 
 export interface ExchangePreferences {
@@ -84,8 +214,115 @@ export interface Course {
   id: string;
   name: string;
   color: string;
-  attendedDays: string[]; // Array of date strings 'YYYY-MM-DD'
-  missedDays: string[]; // Array of date strings 'YYYY-MM-DD'
+  attendance: AttendanceRecord[]; // one entry per marked class
+  schedule?: CourseSchedule; // missing until the student adds the course's timetable
+  threshold?: number; // required attendance in percent; missing means MNIT_ATTENDANCE_THRESHOLD
+}
+
+export type SessionType = 'lecture' | 'lab' | 'tutorial';
+
+// How much one class of each type counts towards attendance, e.g. a three-hour lab as 3
+export type SessionWeights = Record<SessionType, number>;
+
+// Which class on a day a mark is for. A timetabled class is named by its slot, so editing the
+// timetable never moves past marks onto another class; a class outside the timetable by its
+// number among that day's extra classes. One of the two is set; neither only on marks made
+// before classes were marked one by one, which stand for the day's first class.
+export interface SessionRef {
+  slotId?: string;
+  extra?: number; // 1 for the first extra class that day
+}
+
+// Attendance for one class
+export interface AttendanceRecord {
+  date: string; // 'YYYY-MM-DD'
+  session: SessionRef;
+  type: SessionType;
+  present: boolean;
+}
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// One weekly meeting of a course, in campus time
+export interface TimetableSlot {
+  id: string;
+  day: Weekday;
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm'
+  room?: string;
+  type?: SessionType; // missing means a lecture
+}
+
+// When and where a course meets over the semester
+export interface CourseSchedule {
+  slots: TimetableSlot[];
+  startDate: string; // 'YYYY-MM-DD', first day of teaching
+  endDate: string; // 'YYYY-MM-DD', last day of teaching, inclusive
+  weights?: Partial<SessionWeights>; // missing types count once
+}
+
+// A day with no classes at all, e.g. a festival or mid-semester break
+export interface Holiday {
+  date: string; // 'YYYY-MM-DD'
+  name: string;
+}
+
+export interface CourseAttendanceStats {
+  courseId: string;
+  courseName: string;
+  color: string;
+  total: number;
+  attended: number;
+  attendanceRate: number; // percentage, 0-100
+}
+
+export interface AttendanceStats {
+  totalCourses: number;
+  totalClasses: number;
+  totalAttended: number;
+  overallAttendanceRate: number; // percentage, 0-100
+  courseStats: CourseAttendanceStats[];
+}
+
+export interface AttendanceCalendarEntry {
+  date: string; // 'YYYY-MM-DD'
+  courseId: string;
+  courseName: string;
+  color: string;
+  present: boolean;
+}
+
+export interface AttendanceCalendarData {
+  startDate: string;
+  endDate: string;
+  entries: AttendanceCalendarEntry[];
+}
+
+export interface AttendanceWeekSummary {
+  weekStart: string; // 'YYYY-MM-DD', Monday
+  weekEnd: string;
+  days: Array<{ date: string; attended: number; missed: number }>;
+  totalAttended: number;
+  totalMissed: number;
+}
+
+export type AttendanceMarkStatus = 'attended' | 'missed' | 'clear';
+
+// Changes made on the attendance page, queued on the device until the server confirms them.
+// Courses created offline carry a local 'temp-' id until the server assigns a real one.
+export type AttendanceMutation =
+  | { kind: 'addCourse'; courseId: string; name: string; color: string }
+  | { kind: 'deleteCourse'; courseId: string }
+  | { kind: 'markAttendance'; courseId: string; date: string; session: SessionRef; type: SessionType; status: AttendanceMarkStatus }
+  | { kind: 'setSchedule'; courseId: string; schedule: CourseSchedule | null } // null removes the timetable
+  | { kind: 'setThreshold'; courseId: string; threshold: number };
+
+export interface AttendanceSyncResult {
+  syncedCourses: Course[]; // server versions of the courses the replayed calls touched
+  replacedCourseIds: Record<string, string>; // local 'temp-' id -> server id
+  deletedCourseIds: string[];
+  rejected: Array<{ mutation: AttendanceMutation; message: string }>; // refused by the server, dropped
+  pending: AttendanceMutation[]; // still waiting, e.g. because the device is offline
 }
 
 // CGPA Calculator Types
@@ -108,6 +345,8 @@ export interface SuggestedRoom {
   type: RoomType;
   reasoning: string;
   listedBy: Pick<User, 'id' | 'fullName' | 'rollNumber' | 'gender'>;
+  source?: 'ai' | 'local'; // 'local' when ranked on the device because the AI endpoint was unavailable
+  compatibility?: ListingCompatibility;
 }
 
 export interface GeminiSuggestion {
@@ -123,6 +362,34 @@ export interface GeminiSuggestionResponse {
   suggestions: GeminiSuggestion[];
 }
 
+// Saved Search Types
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: ListingSearchFilters;
+  alertsEnabled: boolean; // notify when a new listing matches
+  createdAt: string; // ISO date string
+  lastSeenAt: string; // ISO date string; listings posted after this count as new
+}
+
+// Compatibility Scoring Types
+export type CompatibilityFactorKey = 'gender' | 'hostel' | 'block' | 'floor' | 'roomType' | 'notes';
+
+export interface CompatibilityFactor {
+  key: CompatibilityFactorKey;
+  label: string;
+  points: number;
+  maxPoints: number;
+  explanation: string; // e.g. "H2 - Chaitanya is one of your preferred hostels"
+}
+
+export interface ListingCompatibility {
+  listingId: string;
+  eligible: boolean; // false when the user can't live in the room's hostel; such rooms always score 0
+  score: number; // 0-100, the sum of the factor points
+  factors: CompatibilityFactor[];
+}
+
 // Messaging Service Types
 export interface DirectMessage {
   id: string;
@@ -135,6 +402,22 @@ export interface DirectMessage {
   message: string;
   timestamp: string; // ISO date string
   isReadByReceiver: boolean;
+  readAt?: string; // ISO date string, set by the server when the receiver reads it
+}
+
+// One thread per (partner, listing) pair, as summarised by the server
+export interface DirectConversation {
+  partnerId: string;
+  partnerName: string;
+  listingId: string;
+  listingRoomSummary: string;
+  lastMessage: DirectMessage;
+  unreadCount: number;
+}
+
+export interface DirectMessagePage {
+  messages: DirectMessage[];
+  nextCursor: string | null; // pass as `before` to load older messages
 }
 
 // Common Chat Service Types
@@ -177,6 +460,30 @@ export interface PollMessage {
 
 export type CommonChatMessage = TextMessage | ImageMessage | PollMessage;
 
+export interface ChatHistoryPage {
+    messages: CommonChatMessage[];
+    nextCursor: string | null; // pass as `before` to load older messages
+    retentionDays?: number; // messages older than this are purged by the server
+}
+
+// Realtime Service Types
+// Events pushed by the server over the realtime socket
+export type RealtimeEvent =
+    | { type: 'chat:message'; message: CommonChatMessage }
+    | { type: 'chat:poll'; messageId: string; poll: Poll }
+    | { type: 'chat:removed'; messageId: string } // a moderator removed the message
+    | { type: 'dm:message'; message: DirectMessage }
+    | { type: 'dm:read'; messageIds: string[]; readerId: string; readAt: string }
+    | { type: 'listing:created'; listing: RoomListing }
+    | { type: 'listing:published'; listing: RoomListing } // its proof was approved and it is now open in search
+    | { type: 'listing:bid'; bid: Bid } // a bid was placed or changed status
+    | { type: 'listing:verification'; listing: RoomListing } // sent to the lister when their proof is reviewed
+    | { type: 'event:registration'; registration: EventRegistration }; // sent when the user is moved off a waitlist
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+export type RealtimeConnectionState = 'connecting' | 'open' | 'reconnecting' | 'polling' | 'closed';
+
 
 // Events Service Types
 export interface Event {
@@ -187,9 +494,76 @@ export interface Event {
   location: string;
   description: string;
   registrationLink?: string;
-  registeredUsers: string[]; // Array of user IDs
-  status: 'pending' | 'approved' | 'rejected';
+  registeredUsers: string[]; // Array of user IDs holding a place
+  capacity?: number; // missing means unlimited
+  waitlist: string[]; // user IDs in the order they joined; the first is promoted when a place frees up
+  status: EventStatus;
   submittedBy?: string; // User ID
+  submittedAt?: string; // ISO date string
+  reviewNote?: string; // the admin's reason when rejecting
+  updatedAt?: string; // ISO date string, last change to the details
+  cancelledAt?: string; // ISO date string; cancelled events stay listed so registrants see it
+}
+
+export type EventStatus = 'pending' | 'approved' | 'rejected';
+
+export type EventRegistrationStatus = 'registered' | 'waitlisted';
+
+// The current user's place at one event
+export interface EventRegistration {
+  eventId: string;
+  status: EventRegistrationStatus;
+  waitlistPosition?: number; // 1-based, while waitlisted
+  ticket?: string; // signed check-in ticket (compact JWS), once registered; shown as a QR code
+}
+
+// Claims inside a check-in ticket, signed by the server with ES256
+export interface EventTicketClaims {
+  jti: string; // ticket ID; a new ticket is issued if the user registers again
+  eid: string; // event ID
+  sub: string; // user ID
+  name: string;
+  iat: number; // seconds since epoch
+}
+
+export interface EventCheckIn {
+  userId: string;
+  ticketId: string;
+  checkedInAt: string; // ISO date string, when the ticket was scanned
+}
+
+// Everything the check-in scanner needs to validate tickets without a connection
+export interface EventCheckInRoster {
+  eventId: string;
+  eventName: string;
+  publicKey: JsonWebKey; // P-256 key that verifies the event's tickets
+  attendees: { userId: string; name: string; ticketId: string }[];
+  checkedIn: EventCheckIn[];
+  fetchedAt: string; // ISO date string
+}
+
+export interface EventCheckInSyncResult {
+  checkedIn: EventCheckIn[]; // every check-in the server has, including ones from other scanners
+  rejected: { ticketId: string; reason: string }[];
+}
+
+// Private link to the user's calendar feed; anyone with the token can read the feed, so it can be reset
+export interface CalendarSubscription {
+  token: string;
+  createdAt: string; // ISO date string
+}
+
+// A campus chat message that students have reported, with every report against it
+export interface ReportedChatMessage {
+  message: CommonChatMessage;
+  reports: ChatMessageReport[];
+  senderModeration?: UserModeration; // the sender's current restriction, if any
+}
+
+export interface ChatMessageReport {
+  reporter: { id: string; name: string };
+  reason: string;
+  createdAt: string; // ISO date string
 }
 
 export interface EventFormData {
@@ -200,16 +574,82 @@ export interface EventFormData {
     location: string;
     description: string;
     registrationLink?: string;
+    capacity?: number; // leave out for unlimited
 }
 
 // Room Requests and Friends
+// Pending -> Accepted by the lister -> Confirmed once both parties approve the swap.
+// Rejected and Withdrawn are final.
+export type MatchRequestStatus = 'Pending' | 'Accepted' | 'Rejected' | 'Withdrawn' | 'Confirmed';
+
 export interface MatchRequest {
   id: string;
   listingId: string; // ID of the room listing being requested
   requesterId: string; // ID of the user making the request
-  status: 'Pending' | 'Accepted' | 'Rejected' | 'Confirmed';
+  listerId: string; // ID of the user who owns the listing
+  status: MatchRequestStatus;
+  createdAt: string; // ISO date string
+  updatedAt?: string; // ISO date string
+  approvals: string[]; // user IDs of the parties who confirmed the swap
+  confirmedAt?: string; // ISO date string, set when the server performs the swap
+  group?: MatchRequestGroup; // set when the request is one leg of a multi-way swap
+  bidId?: string; // set when the request was created by the lister accepting a bid
+}
+
+// Requests linked into one swap cycle. Every participant must approve and the rooms
+// rotate together; rejecting or withdrawing any leg cancels the whole group.
+export interface MatchRequestGroup {
+  id: string;
+  listingIds: string[]; // in rotation order: each lister moves into the next listing's room, the last into the first
+}
+
+export type MatchRequestParty = Pick<User, 'id' | 'fullName' | 'rollNumber' | 'gender'>;
+
+// A request as shown to one of its parties, with the listing and both people resolved by the server
+export interface MatchRequestDetails extends MatchRequest {
+  listing: RoomListing;
+  requester: MatchRequestParty;
+  lister: MatchRequestParty;
+}
+
+// An open exchange listing together with what its lister is looking for, as used by the swap cycle finder
+export interface SwapCandidate {
+  userId: string;
+  gender: User['gender'];
+  preferences: ExchangePreferences;
+  listing: RoomListing;
+}
+
+export interface SwapCycle {
+  key: string; // stable id for the rotation, independent of which participant it starts from
+  listings: RoomListing[]; // each lister moves into the next listing's room, the last into the first
+}
+
+export interface MatchRequestConfirmation {
+  request: MatchRequestDetails;
+  swapped: boolean; // true when this was the last approval needed and the rooms were exchanged
+  currentRoom: RoomLocation | null; // the confirming user's room after the call
+}
+
+// Bids on 'Bidding' listings. Active and shortlisted bids are live until the deadline, when the
+// server closes the listing and expires whatever wasn't accepted. Accepting a bid rejects the
+// rest and turns the winner into an accepted MatchRequest, which both sides then confirm.
+export type BidStatus = 'Active' | 'Shortlisted' | 'Accepted' | 'Rejected' | 'Withdrawn' | 'Expired';
+
+export interface Bid {
+  id: string;
+  listingId: string;
+  bidder: MatchRequestParty;
+  offer: string; // what the bidder is offering for the room
+  status: BidStatus;
   createdAt: string; // ISO date string
-  approvals: string[]; // user IDs of those who approved
+  updatedAt?: string; // ISO date string
+  matchRequestId?: string; // set once the bid is accepted
+}
+
+export interface BidAcceptance {
+  bid: Bid;
+  matchRequest: MatchRequestDetails;
 }
 
 export interface Friend {
@@ -4,11 +4,15 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite --mode staging` selects the staging profile; the default modes keep production
+    const apiProfile = env.API_PROFILE || (mode === 'development' || mode === 'production' ? '' : mode);
     return {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.API_PROFILE': JSON.stringify(apiProfile),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {